@@ -1,7 +1,22 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { KLineData, Timeframe, Trade, GameSession } from './types';
-import { getHigherTimeframe, fetchMarketData, timeframeToMs, generateRandomMarketEndTime } from './services/binanceService';
-import { analyzeTrade, generateGameReport } from './services/geminiService';
+import { KLineData, Timeframe, Trade, GameSession, MarketDataSource, TradeTicket, TradeCostModel, PendingOrder, IntrabarPolicy, ExitReason, HotkeyConfig, HotkeyAction, AppSettings, CoachPersona, LLMConfig, AIResponse, CoachMessage, CoachThread, GameAssessment, RuleCoachMode } from './types';
+import { getHigherTimeframe, timeframeToMs } from './services/binanceService';
+import { getMarketDataProvider, fetchMarketHistory, DEFAULT_MARKET_DATA_SOURCE } from './services/marketDataProvider';
+import { getOpenPositions, getOpenQuantity } from './services/positionBook';
+import { calcPositionSize, estimateWinRate } from './services/positionSizing';
+import { ZERO_COST_MODEL, EntryFill, entryFill, priceEntry } from './services/tradeCosts';
+import { ExitContext, resolveExits, closeRemaining, diffTrade, calcAtr, getTakeProfits, sortTakeProfits, DEFAULT_INTRABAR_POLICY, buildExitPath, hasIntrabarConflict, validateExitLevel, modifyExitLevel, closePartial } from './services/tradeManagement';
+import { getPendingOrders, evaluateOrder } from './services/orderBook';
+import { MAINTENANCE_MARGIN_PERCENT, calcInitialMargin, calcIsolatedLiquidationPrice, calcCrossLiquidationPrice, getCrossCollateral, calcFreeMargin, findLiquidations } from './services/margin';
+import { eventToCombo, findHotkeyAction, isEditableTarget } from './services/hotkeys';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings } from './services/settingsStore';
+import { findPersona, listPersonas } from './services/coachPersonas';
+import { analyzeTrade, evaluateTrade, generateGameReport, chatWithCoach, tradeReviewContext, gameReportContext, postTradeReviewContext, reviewClosedTrade, extractWeaknesses, CoachOptions } from './services/geminiService';
+import { calcExcursion, getHoldingCandles } from './services/tradeExcursion';
+import { calcGameStats } from './services/gameStats';
+import { onLLMCall, addToTally, LLMCallReport } from './services/llmRequestManager';
+import { buildCoachingProfile, mergeWeaknesses, ruleBasedWeaknesses, loadAssessments, saveAssessment } from './services/coachingProfile';
+import { tradeThreadId, gameThreadId, createThread, appendMessages, visibleMessages, loadThread, saveThread } from './services/coachThreads';
 import { db } from './db';
 
 import TradePanel from './components/TradePanel';
@@ -10,20 +25,38 @@ import DashboardPanel from './components/DashboardPanel';
 import SettingsPanel from './components/SettingsModal';
 import SessionRestoreModal from './components/SessionRestoreModal';
 import ConfirmDialog from './components/ConfirmDialog';
+import HotkeyCheatSheet from './components/HotkeyCheatSheet';
 import Header from './components/Header';
 import GameCharts, { GameChartsRef } from './components/GameCharts';
 
 // Constants
 const INITIAL_BALANCE = 10000;
 const PRELOAD_COUNT = 200; 
+const LEGACY_CANDLE_COUNT = 1000; // Games recorded before configurable lengths
+const HTF_PRELOAD_COUNT = 300;
+const HISTORY_PAGE_SIZE = 500; // Candles fetched per lazy "scroll left" load
+const GAME_LENGTH_OPTIONS = [800, 1800, 4800];
+const AUTO_PLAY_SPEED_RANGE = { min: 100, max: 2000, step: 100 }; // ms per candle
 const SUPPORTED_SYMBOLS = ['BTCUSDT', 'ETHUSDT', 'SOLUSDT', 'BNBUSDT', 'DOGEUSDT', 'XRPUSDT'];
 const SUPPORTED_TIMEFRAMES = [Timeframe.M5, Timeframe.M15, Timeframe.M30, Timeframe.H1, Timeframe.H4, Timeframe.D1];
 
+// What an AI stream is for; each can only be cancelled by its own stop button
+type AiPurpose = 'REVIEW' | 'CHAT' | 'REPORT';
+
+// Account state a new trade is checked against
+interface AccountBook {
+  wallet: number;
+  positions: Trade[];
+}
+
+// Resolves once React has committed the pending state and the charts have painted it
+const waitForChartRender = () => new Promise<void>(resolve => requestAnimationFrame(() => requestAnimationFrame(() => resolve())));
+
 type SidebarView = 'DASHBOARD' | 'TRADE_PANEL' | 'HISTORY_PANEL' | 'SETTINGS';
 
 const App: React.FC = () => {
   // --- UI State ---
-  const [theme, setTheme] = useState<'dark' | 'light'>('dark');
+  const [theme, setTheme] = useState<'dark' | 'light'>(DEFAULT_SETTINGS.theme);
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
   const [showMobileSidebar, setShowMobileSidebar] = useState(false);
   
@@ -31,24 +64,51 @@ const App: React.FC = () => {
   const [session, setSession] = useState<GameSession | null>(null);
   const [balance, setBalance] = useState(INITIAL_BALANCE);
   
-  // Settings State
-  const [configSymbol, setConfigSymbol] = useState('BTCUSDT');
-  const [configTimeframe, setConfigTimeframe] = useState<Timeframe>(Timeframe.M5);
+  // Settings State (persisted, see services/settingsStore.ts)
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const [configSymbol, setConfigSymbol] = useState(DEFAULT_SETTINGS.symbol);
+  const [configTimeframe, setConfigTimeframe] = useState<Timeframe>(DEFAULT_SETTINGS.timeframe);
+  const [configDataSource, setConfigDataSource] = useState<MarketDataSource>(DEFAULT_SETTINGS.dataSource);
+  const [configGameLength, setConfigGameLength] = useState(DEFAULT_SETTINGS.gameLength);
+  const [configCostModel, setConfigCostModel] = useState<TradeCostModel>(DEFAULT_SETTINGS.costModel);
+  const [configIntrabarPolicy, setConfigIntrabarPolicy] = useState<IntrabarPolicy>(DEFAULT_SETTINGS.intrabarPolicy);
+  const [configHotkeys, setConfigHotkeys] = useState<HotkeyConfig>(DEFAULT_SETTINGS.hotkeys);
   
   // Data State
   const [allCandles, setAllCandles] = useState<KLineData[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0); 
   const [htfHistory, setHtfHistory] = useState<KLineData[]>([]);
   const [currentHtfCandle, setCurrentHtfCandle] = useState<KLineData | null>(null);
+  // Older history loaded lazily when the user scrolls left past the preload
+  const [prependedCount, setPrependedCount] = useState(0);
+  const [hasMoreHistory, setHasMoreHistory] = useState({ ltf: true, htf: true });
+  const loadingHistoryRef = useRef({ ltf: false, htf: false });
   
   // Ref to hold the current HTF candle for synchronous logic (avoids stale closures in interval)
   const htfCandleLogicRef = useRef<KLineData | null>(null);
 
-  const [activeTrade, setActiveTrade] = useState<Trade | null>(null);
   const [tradeHistory, setTradeHistory] = useState<Trade[]>([]);
+  // Positions book: every OPEN trade (hedged and scaled-in entries are allowed)
+  const openPositions = useMemo(() => getOpenPositions(tradeHistory), [tradeHistory]);
+  const [orders, setOrders] = useState<PendingOrder[]>([]);
+  const pendingOrders = useMemo(() => getPendingOrders(orders), [orders]);
+  const costModel = session?.costModel || ZERO_COST_MODEL;
+  const intrabarPolicy = session?.intrabarPolicy || DEFAULT_INTRABAR_POLICY;
+  // Set while a candle waits for its 1m sub-candles; the replay holds until it is resolved
+  const resolvingCandleRef = useRef(false);
+  // Shared liquidation price of all cross-margin positions (isolated ones carry their own)
+  const crossLiquidationPrice = useMemo(
+    () => calcCrossLiquidationPrice(openPositions.filter(t => t.marginMode === 'CROSS'), getCrossCollateral(balance, openPositions)),
+    [openPositions, balance]
+  );
   
   const [isPlaying, setIsPlaying] = useState(false);
-  const [autoPlaySpeed, setAutoPlaySpeed] = useState(1000); 
+  const [autoPlaySpeed, setAutoPlaySpeed] = useState(DEFAULT_SETTINGS.autoPlaySpeed); 
+  // Candles still to step through for a "jump N bars"; cleared by any fill
+  const [queuedSteps, setQueuedSteps] = useState(0);
+  const [isResolvingCandle, setIsResolvingCandle] = useState(false); // Mirrors resolvingCandleRef so queued steps resume
+  const [showHotkeys, setShowHotkeys] = useState(false);
+  const [settingsTab, setSettingsTab] = useState<'general' | 'data' | 'prompt' | 'hotkeys'>('general');
   
   // UI Panels / Sidebar
   const [sidebarView, setSidebarView] = useState<SidebarView>('DASHBOARD');
@@ -58,13 +118,37 @@ const App: React.FC = () => {
   // Trade Panel Specifics
   const [modalDirection, setModalDirection] = useState<'LONG' | 'SHORT'>('LONG');
   const [viewingTrade, setViewingTrade] = useState<Trade | null>(null);
+  // Position the quick Close / Reverse controls act on: the one being viewed, else the newest
+  const activePosition = openPositions.find(t => t.id === viewingTrade?.id) || openPositions[0] || null;
   
   const [loading, setLoading] = useState(false);
   const [aiLoading, setAiLoading] = useState(false);
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+  // Text of the AI answer still being streamed (trade comment / final report)
+  const [aiStreamText, setAiStreamText] = useState('');
+  const [reportStreamText, setReportStreamText] = useState('');
   const [finalReport, setFinalReport] = useState<string | null>(null);
+  const [reportError, setReportError] = useState<string | null>(null); // Last report request failed
+  // Follow-up chats with the coach, by thread id; chatThreadId = thread waiting for an answer
+  const [coachThreads, setCoachThreads] = useState<Record<string, CoachThread>>({});
+  const [chatThreadId, setChatThreadId] = useState<string | null>(null);
+  const [chatStreamText, setChatStreamText] = useState('');
+  const [chatError, setChatError] = useState<{ threadId: string; question: string; error: string } | null>(null); // Failed follow-up, kept for a retry
+  const [postReviewIds, setPostReviewIds] = useState<string[]>([]); // Closed trades whose AI review is running
   const [comparisonStats, setComparisonStats] = useState<any[]>([]);
-  const [customPrompt, setCustomPrompt] = useState<string>('');
+  const [configPersonas, setConfigPersonas] = useState<CoachPersona[]>(DEFAULT_SETTINGS.personas);
+  const [configPersonaId, setConfigPersonaId] = useState<string>(DEFAULT_SETTINGS.personaId);
+  // Coach of the running game; legacy sessions without a snapshot use the picked persona
+  const coachPersona = session?.persona || findPersona(configPersonas, configPersonaId);
+  const [configLLM, setConfigLLM] = useState<LLMConfig>(DEFAULT_SETTINGS.llm);
+  const [configPostTradeReview, setConfigPostTradeReview] = useState(DEFAULT_SETTINGS.postTradeReview);
+  const [configRuleCoach, setConfigRuleCoach] = useState<RuleCoachMode>(DEFAULT_SETTINGS.ruleCoach);
+  const modelEnabled = configRuleCoach !== 'ALWAYS'; // Rule coach only: no follow-ups, post-trade reviews or report tagging
+  // Cross-game coaching memory: one assessment per finished game
+  const [assessments, setAssessments] = useState<GameAssessment[]>([]);
+  const [isAssessingHistory, setIsAssessingHistory] = useState(false);
+  const coachingProfile = useMemo(() => buildCoachingProfile(assessments), [assessments]);
+  const coachOptions: CoachOptions = { persona: coachPersona, timeframe: session?.timeframe, llm: configLLM, profile: coachingProfile, ruleCoach: configRuleCoach };
   
   // Modals
   const [showRestoreModal, setShowRestoreModal] = useState(false);
@@ -81,10 +165,26 @@ const App: React.FC = () => {
   // --- Refs ---
   const chartRef = useRef<GameChartsRef>(null);
   const playTimer = useRef<ReturnType<typeof setInterval> | null>(null);
+  const aiAbortRef = useRef<Record<AiPurpose, Set<AbortController>>>({ REVIEW: new Set(), CHAT: new Set(), REPORT: new Set() });
+  const failedReviewsRef = useRef(new Map<string, CoachMessage>()); // Entry reviews that failed, retried with the same screenshots
+  const reviewQueueRef = useRef<Promise<unknown>>(Promise.resolve());
   const tradeHistoryRef = useRef<Trade[]>([]);
   const lastPlayedIndexRef = useRef<number>(0);
 
   // --- Effects ---
+  // Tokens / estimated cost of every AI call, tallied on the running game (or the older game the call concerns)
+  useEffect(() => {
+    const gameId = session?.id;
+    return onLLMCall(call => {
+      const target = call.gameId ?? gameId;
+      if (!target) return;
+      if (target === gameId) setSession(prev => prev?.id === gameId ? { ...prev, aiUsage: addToTally(prev.aiUsage, call) } : prev);
+      else addUsageToPastGame(target, call);
+    });
+  }, [session?.id]);
+  useEffect(() => {
+    if (session?.id && session.aiUsage) db.games.update(session.id, { aiUsage: session.aiUsage });
+  }, [session?.aiUsage]);
   useEffect(() => {
     tradeHistoryRef.current = tradeHistory;
   }, [tradeHistory]);
@@ -102,8 +202,61 @@ const App: React.FC = () => {
       return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  // Initialize
+  // --- Settings persistence ---
+  const currentSettings = useMemo((): AppSettings => ({
+    schemaVersion: DEFAULT_SETTINGS.schemaVersion,
+    symbol: configSymbol, timeframe: configTimeframe, dataSource: configDataSource, gameLength: configGameLength,
+    costModel: configCostModel, intrabarPolicy: configIntrabarPolicy, hotkeys: configHotkeys,
+    personas: configPersonas, personaId: configPersonaId, llm: configLLM,
+    postTradeReview: configPostTradeReview, ruleCoach: configRuleCoach, theme, autoPlaySpeed
+  }), [configSymbol, configTimeframe, configDataSource, configGameLength, configCostModel, configIntrabarPolicy, configHotkeys, configPersonas, configPersonaId, configLLM, configPostTradeReview, configRuleCoach, theme, autoPlaySpeed]);
+
+  const applySettings = (s: AppSettings) => {
+    setConfigSymbol(s.symbol);
+    setConfigTimeframe(s.timeframe);
+    setConfigDataSource(s.dataSource);
+    setConfigGameLength(s.gameLength);
+    setConfigCostModel(s.costModel);
+    setConfigIntrabarPolicy(s.intrabarPolicy);
+    setConfigHotkeys(s.hotkeys);
+    setConfigPersonas(s.personas);
+    setConfigPersonaId(s.personaId);
+    setConfigLLM(s.llm);
+    setConfigPostTradeReview(s.postTradeReview);
+    setConfigRuleCoach(s.ruleCoach);
+    setTheme(s.theme);
+    setAutoPlaySpeed(s.autoPlaySpeed);
+  };
+
+  // Exports leave the API key out, so an import keeps the key already on this device
+  const importSettings = (s: AppSettings) => {
+    applySettings({ ...s, llm: { ...s.llm, apiKey: s.llm.apiKey || configLLM.apiKey } });
+  };
+
+  useEffect(() => {
+    loadAssessments().then(setAssessments);
+    loadSettings().then(s => {
+        applySettings(s);
+        setSettingsLoaded(true);
+    });
+  }, []);
+
+  // Saved on every change once loaded (before that the defaults would overwrite the stored profile)
+  useEffect(() => {
+    if (settingsLoaded) saveSettings(currentSettings);
+  }, [currentSettings, settingsLoaded]);
+
+  // Follow-up chats are loaded when their trade / game comes into view
+  const rememberThread = (thread: CoachThread) => setCoachThreads(prev => ({ ...prev, [thread.id]: thread }));
   useEffect(() => {
+    [viewingTrade && tradeThreadId(viewingTrade.id), session?.id && gameThreadId(session.id)].forEach(id => {
+      if (id && !coachThreads[id]) loadThread(id).then(thread => thread && rememberThread(thread));
+    });
+  }, [viewingTrade?.id, session?.id]);
+
+  // Initialize (after the settings, so a new game uses the saved symbol/timeframe)
+  useEffect(() => {
+    if (!settingsLoaded) return;
     const checkActiveSession = async () => {
         const active = await db.games.where({ status: 'ACTIVE' }).first();
         if (active) {
@@ -115,7 +268,7 @@ const App: React.FC = () => {
     };
     checkActiveSession();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [settingsLoaded]);
 
   // --- Logic: HTF Calculation ---
   const updateHtfWithLtf = useCallback((ltfCandle: KLineData, htfTf: Timeframe) => {
@@ -199,7 +352,7 @@ const App: React.FC = () => {
 
   // --- Game Loop ---
   const nextCandle = useCallback(() => {
-    if (isReviewingHistory) return; 
+    if (isReviewingHistory || resolvingCandleRef.current) return;
 
     if (currentIndex >= allCandles.length - 1) {
       handleEndGame(); 
@@ -215,10 +368,58 @@ const App: React.FC = () => {
         updateHtfWithLtf(newCandle, htf);
     }
 
-    if (activeTrade) {
-      checkTradeStatus(activeTrade, newCandle);
+    resolveCandle(newCandle, nextIndex);
+  }, [currentIndex, allCandles, openPositions, orders, balance, session, updateHtfWithLtf, isReviewingHistory]);
+
+  // Liquidations, exits and pending orders for a newly revealed candle. The account book follows
+  // every step (state updates only land after this render), so fills see the same-candle exits.
+  const resolveCandle = async (candle: KLineData, index: number) => {
+    let book = currentBook();
+    const settle = (prev: Trade, next: Trade) => {
+        book = {
+            wallet: book.wallet + next.pnl - prev.pnl,
+            positions: next.status === 'OPEN' ? book.positions.map(t => t.id === next.id ? next : t) : book.positions.filter(t => t.id !== next.id)
+        };
+    };
+    const liquidations = findLiquidations(openPositions, balance, candle);
+    // ATR as known before this candle (trailing stops must not peek ahead)
+    const atr = calcAtr(allCandles.slice(0, index));
+    const survivors = openPositions.filter(trade => {
+        const liquidationPrice = liquidations.get(trade.id);
+        if (liquidationPrice === undefined) return true;
+        const closed = closeRemaining(trade, liquidationPrice, 'CLOSED_LIQUIDATED', exitContext(candle.timestamp));
+        commitTradeUpdate(trade, closed);
+        settle(trade, closed);
+        return false;
+    });
+
+    let subCandles: KLineData[] | null = null;
+    if (intrabarPolicy === 'SUB_CANDLES' && survivors.some(t => hasIntrabarConflict(t, candle))) {
+        resolvingCandleRef.current = true;
+        setIsResolvingCandle(true);
+        subCandles = await fetchSubCandles(candle);
+        resolvingCandleRef.current = false;
+        setIsResolvingCandle(false);
+    }
+
+    survivors.forEach(trade => settle(trade, checkTradeStatus(trade, candle, atr, subCandles)));
+    processPendingOrders(candle, book, index);
+  };
+
+  // The 1m candles inside one bar of the game timeframe (empty when the source has none)
+  const fetchSubCandles = async (candle: KLineData): Promise<KLineData[]> => {
+    if (!session) return [];
+    const intervalMs = timeframeToMs(session.timeframe);
+    const count = Math.round(intervalMs / timeframeToMs(Timeframe.M1));
+    try {
+        const provider = getMarketDataProvider(session.dataSource);
+        const data = await fetchMarketHistory(provider, session.symbol, Timeframe.M1, count, candle.timestamp + intervalMs - 1);
+        return data.filter(c => c.timestamp >= candle.timestamp && c.timestamp < candle.timestamp + intervalMs);
+    } catch (e) {
+        console.error("Failed to load sub-candles", e);
+        return [];
     }
-  }, [currentIndex, allCandles, activeTrade, session, updateHtfWithLtf, isReviewingHistory]);
+  };
 
   useEffect(() => {
     if (isPlaying && !isReviewingHistory) {
@@ -229,49 +430,122 @@ const App: React.FC = () => {
     return () => { if(playTimer.current) clearInterval(playTimer.current); }
   }, [isPlaying, nextCandle, autoPlaySpeed, isReviewingHistory]);
 
+  // One candle per render, so every step sees the state left by the previous one
+  useEffect(() => {
+    if (queuedSteps <= 0 || resolvingCandleRef.current) return;
+    if (isReviewingHistory || session?.status !== 'ACTIVE' || currentIndex >= allCandles.length - 1) {
+      setQueuedSteps(0);
+      return;
+    }
+    nextCandle();
+    setQueuedSteps(n => Math.max(0, n - 1));
+  }, [queuedSteps, currentIndex, isResolvingCandle]);
+
   // --- Trade Management ---
-  const checkTradeStatus = (trade: Trade, candle: KLineData) => {
-    let closedStatus: Trade['status'] | null = null;
-    let exitPrice = 0;
+  const exitContext = (time: number): ExitContext => ({
+    time, intervalMs: session ? timeframeToMs(session.timeframe) : 0, model: costModel
+  });
 
-    if (trade.direction === 'LONG') {
-      if (candle.low <= trade.sl) { closedStatus = 'CLOSED_SL'; exitPrice = trade.sl; }
-      else if (candle.high >= trade.tp) { closedStatus = 'CLOSED_TP'; exitPrice = trade.tp; }
-    } else {
-      if (candle.high >= trade.sl) { closedStatus = 'CLOSED_SL'; exitPrice = trade.sl; }
-      else if (candle.low <= trade.tp) { closedStatus = 'CLOSED_TP'; exitPrice = trade.tp; }
+  // Returns the trade after this candle's exits (the same object when nothing happened)
+  const checkTradeStatus = (trade: Trade, candle: KLineData, atr: number, subCandles: KLineData[] | null): Trade => {
+    const { path, resolution } = buildExitPath(trade, candle, intrabarPolicy, subCandles);
+    const next = resolveExits(trade, candle, atr, { ...exitContext(candle.timestamp), resolution }, path);
+    if (next !== trade) commitTradeUpdate(trade, next);
+    return next;
+  };
+
+  // Persists a new version of a trade; realized PnL of new exit legs goes to the balance
+  const commitTradeUpdate = async (prev: Trade, next: Trade): Promise<Trade> => {
+    const changes = diffTrade(prev, next);
+    const realized = next.pnl - prev.pnl;
+    if (realized !== 0) setBalance(b => b + realized);
+    // Merge into the latest copy: other positions (or a late AI comment) may have changed meanwhile
+    setTradeHistory(list => list.map(t => t.id === next.id ? { ...t, ...changes } : t));
+
+    // Any fill (partial or final) pauses the replay and shows the trade
+    if ((next.legs?.length || 0) !== (prev.legs?.length || 0)) {
+        setIsPlaying(false);
+        setQueuedSteps(0);
+        setViewingTrade(next);
+        setSidebarView('TRADE_PANEL');
+        if (isMobile) setShowMobileSidebar(true);
     }
 
-    if (closedStatus) closeTrade(trade, exitPrice, closedStatus, candle.timestamp);
+    await db.trades.update(next.id, changes);
+    // The forced closes at game end are covered by the final report instead
+    if (configPostTradeReview && modelEnabled && prev.status === 'OPEN' && next.status !== 'OPEN' && next.exitReason !== 'GAME_END') requestPostReview(next);
+    return next;
   };
 
-  const closeTrade = async (trade: Trade, exitPrice: number, status: Trade['status'], exitTime: number) => {
-    setIsPlaying(false);
-    const pnl = trade.direction === 'LONG' ? (exitPrice - trade.entryPrice) * trade.quantity : (trade.entryPrice - exitPrice) * trade.quantity;
-    const closedTrade: Trade = { ...trade, status, exitPrice, exitTime, pnl };
+  const closeTrade = (trade: Trade, exitPrice: number, status: Trade['status'], exitTime: number, exitReason?: ExitReason, note?: string): Promise<Trade> =>
+    commitTradeUpdate(trade, closeRemaining(trade, exitPrice, status, exitContext(exitTime), exitReason, note));
 
-    setBalance(prev => prev + pnl);
-    setActiveTrade(null);
-    setTradeHistory(prev => prev.map(t => t.id === trade.id ? closedTrade : t));
-    setViewingTrade(closedTrade);
-    setSidebarView('TRADE_PANEL');
-    if (isMobile) setShowMobileSidebar(true);
+  // Discretionary market exit of `fraction` of the open size at the current close
+  const closePosition = async (tradeId: string, fraction = 1, note?: string) => {
+    const trade = openPositions.find(t => t.id === tradeId);
+    const currentCandle = allCandles[currentIndex];
+    if (!trade || !currentCandle || isReviewingHistory || resolvingCandleRef.current) return;
+    if (fraction >= 1) return closeTrade(trade, currentCandle.close, 'CLOSED_MANUAL', currentCandle.timestamp, 'MANUAL', note);
+    return commitTradeUpdate(trade, closePartial(trade, fraction, currentCandle.close, exitContext(currentCandle.timestamp), note));
+  };
+
+  // Closes the position and opens the same size the other way, with the stop/target distances mirrored
+  const reversePosition = async (tradeId: string, note?: string) => {
+    const trade = openPositions.find(t => t.id === tradeId);
+    const currentCandle = allCandles[currentIndex];
+    if (!trade || !currentCandle || isReviewingHistory || resolvingCandleRef.current) return;
+    const price = currentCandle.close;
+    const direction: Trade['direction'] = trade.direction === 'LONG' ? 'SHORT' : 'LONG';
+    const ticket: TradeTicket = {
+      reason: `**反手**：平掉 ${trade.direction} 仓位后反向开仓${note ? `\n\n${note}` : ''}`,
+      tp: price - (trade.tp - price), sl: price + (price - trade.sl),
+      sizingMode: 'FIXED_UNITS', sizingValue: getOpenQuantity(trade),
+      leverage: trade.leverage || 1, marginMode: trade.marginMode || 'ISOLATED', orderType: 'MARKET',
+      trailingStop: trade.trailingStop
+    };
 
-    await db.trades.put(closedTrade);
+    const closed = await closeTrade(trade, price, 'CLOSED_MANUAL', currentCandle.timestamp, 'REVERSE', note);
+    // The closed position's margin and PnL are settled before the new one is checked
+    const book = { wallet: balance + closed.pnl - trade.pnl, positions: openPositions.filter(t => t.id !== trade.id) };
+    const reversed = buildTrade(`trade_${Date.now()}`, ticket, direction, entryFill(direction, price, 'TAKER', costModel), currentCandle.timestamp, book);
+    const error = validateNewTrade(reversed, price, book);
+    if (error) return alert(`已平仓，但反向开仓失败：${error}`);
+    await openPosition(reversed);
+  };
+
+  // Manual TP/SL change on an open position (replay must be paused)
+  const modifyTrade = async (tradeId: string, field: 'TP' | 'SL', price: number, source: 'CHART' | 'PANEL', tpIndex?: number) => {
+    const trade = openPositions.find(t => t.id === tradeId);
+    const currentCandle = allCandles[currentIndex];
+    if (!trade || !currentCandle || isPlaying || isReviewingHistory) return;
+
+    const error = validateExitLevel(trade, field, price, currentCandle.close);
+    if (error) {
+        alert(error);
+        return;
+    }
+    const next = modifyExitLevel(trade, field, price, currentCandle.timestamp, source, tpIndex);
+    if (next === trade) return;
+    await commitTradeUpdate(trade, next);
+    setViewingTrade(prev => prev?.id === next.id ? next : prev);
   };
 
   // --- Start Game Logic ---
-  const startNewGame = async (replayConfig?: { symbol: string, timeframe: Timeframe, marketEndTime: number, parentId?: number }, resumeSession?: GameSession) => {
+  const startNewGame = async (replayConfig?: { symbol: string, timeframe: Timeframe, dataSource?: MarketDataSource, marketEndTime: number, candleCount?: number, parentId?: number }, resumeSession?: GameSession) => {
     setLoading(true);
     setFinalReport(null);
+    setReportError(null);
+    setChatError(null);
     setComparisonStats([]);
     setViewingTrade(null);
-    setActiveTrade(null);
     setIsPlaying(false);
     setIsReviewingHistory(false);
     setTradeHistory([]);
+    setOrders([]);
     setSidebarView('DASHBOARD');
     setShowMobileSidebar(false);
+    setPrependedCount(0);
+    setHasMoreHistory({ ltf: true, htf: true });
 
     let sessionToUse: GameSession;
     let dataEndTime: number;
@@ -284,8 +558,10 @@ const App: React.FC = () => {
     } else {
         const symbol = replayConfig ? replayConfig.symbol : configSymbol;
         const tf = replayConfig ? replayConfig.timeframe : configTimeframe;
-        dataEndTime = replayConfig ? replayConfig.marketEndTime : generateRandomMarketEndTime();
-        const newSession: GameSession = { startTime: Date.now(), symbol, timeframe: tf, marketEndTime: dataEndTime, initialBalance: INITIAL_BALANCE, status: 'ACTIVE', parentSessionId: replayConfig?.parentId };
+        const dataSource = replayConfig ? (replayConfig.dataSource || DEFAULT_MARKET_DATA_SOURCE) : configDataSource;
+        const candleCount = replayConfig ? (replayConfig.candleCount || LEGACY_CANDLE_COUNT) : PRELOAD_COUNT + configGameLength;
+        dataEndTime = replayConfig ? replayConfig.marketEndTime : await getMarketDataProvider(dataSource).generateRandomMarketEndTime(symbol, tf, candleCount);
+        const newSession: GameSession = { startTime: Date.now(), symbol, timeframe: tf, dataSource, marketEndTime: dataEndTime, candleCount, initialBalance: INITIAL_BALANCE, costModel: configCostModel, intrabarPolicy: configIntrabarPolicy, persona: findPersona(configPersonas, configPersonaId), status: 'ACTIVE', parentSessionId: replayConfig?.parentId };
         const id = await db.games.add(newSession);
         sessionToUse = { ...newSession, id: id as number };
         setBalance(INITIAL_BALANCE);
@@ -294,8 +570,10 @@ const App: React.FC = () => {
     setSession(sessionToUse);
     const tf = sessionToUse.timeframe;
     const htf = getHigherTimeframe(tf);
+    // Replays always read from the provider the session was recorded with
+    const provider = getMarketDataProvider(sessionToUse.dataSource);
     
-    const rawData = await fetchMarketData(sessionToUse.symbol, tf, 1000, dataEndTime);
+    const rawData = await fetchMarketHistory(provider, sessionToUse.symbol, tf, sessionToUse.candleCount || LEGACY_CANDLE_COUNT, dataEndTime);
     if (rawData.length < PRELOAD_COUNT) {
       alert("数据获取失败，请重试");
       setLoading(false);
@@ -309,15 +587,16 @@ const App: React.FC = () => {
     if (resumeSession) {
         existingTrades = await db.trades.where('gameId').equals(resumeSession.id!).toArray();
         setTradeHistory(existingTrades);
+        const existingOrders = await db.orders.where('gameId').equals(resumeSession.id!).toArray();
+        setOrders(existingOrders);
         const pnl = existingTrades.reduce((acc, t) => acc + t.pnl, 0);
         setBalance(resumeSession.initialBalance + pnl);
-        if (existingTrades.length > 0) {
-            const lastTradeTime = Math.max(...existingTrades.map(t => t.exitTime || t.entryTime));
+        const actionTimes = [...existingTrades.map(t => t.exitTime || t.entryTime), ...existingOrders.map(o => o.createdAt)];
+        if (actionTimes.length > 0) {
+            const lastTradeTime = Math.max(...actionTimes);
             const foundIndex = rawData.findIndex(c => c.timestamp === lastTradeTime);
             if (foundIndex > PRELOAD_COUNT) startIndex = resumeSession.status === 'COMPLETED' ? rawData.length - 1 : foundIndex + 1;
         }
-        const openTrade = existingTrades.find(t => t.status === 'OPEN');
-        if (openTrade) setActiveTrade(openTrade);
         loadComparisonStats(sessionToUse);
     }
 
@@ -326,8 +605,11 @@ const App: React.FC = () => {
 
     // HTF Setup
     const lastLtfCandle = rawData[startIndex];
-    const htfDataRaw = await fetchMarketData(sessionToUse.symbol, htf, 500, rawData[rawData.length-1].timestamp);
     const htfMs = timeframeToMs(htf);
+    // Cover the whole LTF span plus some HTF context before it
+    const ltfSpanMs = rawData[rawData.length-1].timestamp - rawData[0].timestamp;
+    const htfCount = Math.ceil(ltfSpanMs / htfMs) + HTF_PRELOAD_COUNT;
+    const htfDataRaw = await fetchMarketHistory(provider, sessionToUse.symbol, htf, htfCount, rawData[rawData.length-1].timestamp);
     const currentHtfBlockStart = Math.floor(lastLtfCandle.timestamp / htfMs) * htfMs;
     const historicalHtfData = htfDataRaw.filter(d => d.timestamp < currentHtfBlockStart);
     setHtfHistory(historicalHtfData);
@@ -361,70 +643,338 @@ const App: React.FC = () => {
       setSidebarView('DASHBOARD');
       await startNewGame(undefined, sessionToLoad);
   };
+  // Switches the AI coach of the running game; later comments and the final report use it
+  const changeSessionPersona = async (personaId: string) => {
+    if (!session?.id) return;
+    const persona = findPersona(configPersonas, personaId);
+    setSession(prev => prev && { ...prev, persona });
+    await db.games.update(session.id, { persona });
+  };
   const handleEndGame = async () => {
     setIsPlaying(false);
     if (!session || !session.id) return;
     setIsGeneratingReport(true);
-    if (activeTrade) await closeTrade(activeTrade, allCandles[currentIndex].close, 'CLOSED_MANUAL', allCandles[currentIndex].timestamp);
+    const lastCandle = allCandles[currentIndex];
+    const closedAtEnd = await Promise.all(openPositions.map(t => closeTrade(t, lastCandle.close, 'CLOSED_MANUAL', lastCandle.timestamp, 'GAME_END')));
+    const finalTrades = tradeHistoryRef.current.map(t => closedAtEnd.find(c => c.id === t.id) || t);
+    await Promise.all(pendingOrders.map(o => cancelOrder(o.id)));
     
-    // Pass customPrompt to report generation
-    const report = await generateGameReport(tradeHistoryRef.current, customPrompt);
+    const stats = calcGameStats(finalTrades, session.initialBalance, htfHistory, timeframeToMs(getHigherTimeframe(session.timeframe)));
+    const stream = beginAiStream('REPORT', setReportStreamText);
+    const reply = await generateGameReport(finalTrades, stats, { ...coachOptions, ...stream.options });
+    stream.finish();
     
-    setFinalReport(report);
-    await db.games.update(session.id, { status: 'COMPLETED', finalBalance: balance, endTime: Date.now(), aiReport: report });
-    const updatedSession = { ...session, status: 'COMPLETED' as const, aiReport: report };
-    setSession(updatedSession);
+    const report = reply.text || undefined;
+    setFinalReport(report ?? null);
+    setReportError(reply.error ?? null);
+    // `balance` is stale here (the forced closes above only queued their updates)
+    const finalBalance = session.initialBalance + finalTrades.reduce((acc, t) => acc + t.pnl, 0);
+    await db.games.update(session.id, { status: 'COMPLETED', finalBalance, endTime: Date.now(), aiReport: report, stats });
+    const updatedSession = { ...session, status: 'COMPLETED' as const, aiReport: report, stats };
+    setSession(prev => prev && { ...prev, status: 'COMPLETED', aiReport: report, stats }); // Keeps the AI usage tallied meanwhile
     loadComparisonStats(updatedSession);
     setIsGeneratingReport(false);
     setSidebarView('DASHBOARD');
+    assessGame(updatedSession, finalTrades, report);
     if (isMobile) setShowMobileSidebar(true);
   };
+  // Generates the final report again for a finished game that has none (failed or cancelled)
+  const retryGameReport = async () => {
+    if (!session?.id) return;
+    setReportError(null);
+    setIsGeneratingReport(true);
+    const stream = beginAiStream('REPORT', setReportStreamText);
+    const reply = await generateGameReport(tradeHistoryRef.current, session.stats, { ...coachOptions, ...stream.options });
+    stream.finish();
+    setIsGeneratingReport(false);
+    if (reply.error) return setReportError(reply.error);
+    if (!reply.text) return;
+    setFinalReport(reply.text);
+    await db.games.update(session.id, { aiReport: reply.text });
+    setSession(prev => prev && { ...prev, aiReport: reply.text });
+    assessGame({ ...session, aiReport: reply.text }, tradeHistoryRef.current, reply.text);
+  };
+  // Adds a finished game to the coaching profile: weaknesses tagged in its report + ones from scores/stats
+  const assessGame = async (game: GameSession, trades: Trade[], report?: string) => {
+    if (!game.id) return;
+    const tagged = report && modelEnabled ? await extractWeaknesses(report, configLLM, game.id) : [];
+    const assessment: GameAssessment = {
+      gameId: game.id, time: game.startTime, symbol: game.symbol,
+      weaknesses: mergeWeaknesses(tagged, ruleBasedWeaknesses(trades, game.stats)), createdAt: Date.now()
+    };
+    await saveAssessment(assessment);
+    setAssessments(prev => [...prev.filter(a => a.gameId !== assessment.gameId), assessment]);
+  };
+  // AI usage of a call about an older game (e.g. tagging its report) goes on that game's record
+  const addUsageToPastGame = async (gameId: number, call: LLMCallReport) => {
+    await db.games.update(gameId, game => { game.aiUsage = addToTally(game.aiUsage, call); });
+    setPastSessions(list => list.map(g => g.id === gameId ? { ...g, aiUsage: addToTally(g.aiUsage, call) } : g));
+  };
+  // Builds the profile from finished games that were played before it existed (one at a time)
+  const assessPastGames = async () => {
+    setIsAssessingHistory(true);
+    const assessed = new Set(assessments.map(a => a.gameId));
+    for (const game of pastSessions.filter(s => s.id && !assessed.has(s.id))) {
+      await assessGame(game, pastTrades[game.id!] || [], game.aiReport);
+    }
+    setIsAssessingHistory(false);
+  };
   const handleOpenTradeModal = (dir: 'LONG' | 'SHORT') => {
-    if (activeTrade) return alert("已有持仓，请先平仓");
     setIsPlaying(false);
     setModalDirection(dir);
     setViewingTrade(null);
     setSidebarView('TRADE_PANEL');
     if (isMobile) setShowMobileSidebar(true);
   };
-  const executeTrade = async (reason: string, tp: number, sl: number, preAnalysis?: string) => {
-    const currentCandle = allCandles[currentIndex];
-    const newTrade: Trade = {
-      id: `trade_${Date.now()}`, gameId: session?.id || 0, symbol: session?.symbol || 'BTCUSDT',
-      direction: modalDirection, entryPrice: currentCandle.close, tp, sl,
-      quantity: (balance * 0.5) / currentCandle.close, entryTime: currentCandle.timestamp,
-      status: 'OPEN', pnl: 0, reason, aiComment: preAnalysis
+  // Wallet balance and open positions a new trade is sized and margined against
+  const currentBook = (): AccountBook => ({ wallet: balance, positions: openPositions });
+  // Builds the Trade for a ticket filled at `fill`; the size follows the ticket's sizing mode
+  const buildTrade = (id: string, ticket: TradeTicket, direction: Trade['direction'], fill: EntryFill, entryTime: number, book: AccountBook = currentBook()): Trade => {
+    const entryPrice = fill.price;
+    const { wallet, positions } = book;
+    const { quantity, sizing } = calcPositionSize({
+      mode: ticket.sizingMode, value: ticket.sizingValue, equity: wallet,
+      entryPrice, sl: ticket.sl, tp: ticket.tp, winRate: estimateWinRate(tradeHistory)
+    });
+    const trade: Trade = {
+      id, gameId: session?.id || 0, symbol: session?.symbol || 'BTCUSDT',
+      direction, entryPrice, tp: ticket.tp, sl: ticket.sl,
+      quantity, entryTime, status: 'OPEN', pnl: 0, reason: ticket.reason, sizing,
+      takeProfits: sortTakeProfits(direction, getTakeProfits(ticket)),
+      breakevenAfterTp1: ticket.breakevenAfterTp1, trailingStop: ticket.trailingStop,
+      entryOrderType: ticket.orderType, leverage: ticket.leverage, marginMode: ticket.marginMode,
+      margin: calcInitialMargin(entryPrice, quantity, ticket.leverage),
+      maintenanceMarginPercent: MAINTENANCE_MARGIN_PERCENT
     };
-    setActiveTrade(newTrade);
+    const pricedTrade = { ...trade, ...priceEntry(trade, fill, costModel) };
+    const liquidationPrice = ticket.marginMode === 'ISOLATED'
+      ? calcIsolatedLiquidationPrice(direction, entryPrice, ticket.leverage, MAINTENANCE_MARGIN_PERCENT, quantity > 0 ? (pricedTrade.entryFee || 0) / quantity : 0)
+      : calcCrossLiquidationPrice(
+          [...positions.filter(t => t.marginMode === 'CROSS'), pricedTrade],
+          getCrossCollateral(wallet, [...positions, pricedTrade])
+        ) ?? undefined;
+    return { ...pricedTrade, liquidationPrice };
+  };
+  // Returns why the trade can't be opened, or null when it can
+  const validateNewTrade = (trade: Trade, price: number, { wallet, positions }: AccountBook = currentBook()): string | null => {
+    if (trade.quantity <= 0) return "仓位为 0，请检查止损距离与仓位参数";
+    const required = (trade.margin || 0) + (trade.entryFee || 0);
+    const freeMargin = calcFreeMargin(wallet, positions, price);
+    if (required > freeMargin) return `可用保证金不足：需要 $${required.toFixed(2)}，可用 $${freeMargin.toFixed(2)}。请提高杠杆或减小仓位`;
+    return null;
+  };
+  // --- AI streaming ---
+  // Streams into `setText` once per animation frame. Requests never cancel each other, only the
+  // user's stop button for that purpose does
+  const beginAiStream = (purpose: AiPurpose, setText: (text: string) => void) => {
+    const controller = new AbortController();
+    aiAbortRef.current[purpose].add(controller);
+    let text = '';
+    let frame = 0;
+    let finished = false;
+    setText('');
+    return {
+      options: {
+        signal: controller.signal,
+        onToken: (delta: string) => {
+          text += delta;
+          if (!frame) frame = requestAnimationFrame(() => { frame = 0; if (!finished) setText(text); });
+        }
+      },
+      finish: () => {
+        finished = true;
+        cancelAnimationFrame(frame);
+        setText('');
+        aiAbortRef.current[purpose].delete(controller);
+      }
+    };
+  };
+  // Stops the answer being written; what arrived so far is kept
+  const cancelAiRequest = (purpose: AiPurpose) => aiAbortRef.current[purpose].forEach(c => c.abort());
+  // Keeps the review request + answer as the opening of the trade's follow-up chat
+  const startTradeThread = (trade: Trade, context: CoachMessage, comment: string) => {
+    const thread = createThread(tradeThreadId(trade.id), trade.gameId, context, comment, trade.id);
+    rememberThread(thread);
+    return saveThread(thread);
+  };
+  // Entry reviews share the trade panel's stream, so they run one at a time in the order requested
+  const enqueueReview = <T,>(task: () => Promise<T>): Promise<T> => {
+    const run = reviewQueueRef.current.then(task, task);
+    reviewQueueRef.current = run.catch(() => {});
+    return run;
+  };
+  // Adds a filled trade; the AI coach comments on it unless a comment was requested before the order.
+  // `candleIndex` is the candle it filled on: an order fills before the chart has drawn that candle.
+  const openPosition = async (newTrade: Trade, reviewContext?: CoachMessage, candleIndex = currentIndex) => {
     setTradeHistory(prev => [newTrade, ...prev]);
     setViewingTrade(newTrade);
     await db.trades.add(newTrade);
+    if (newTrade.aiComment && reviewContext) await startTradeThread(newTrade, reviewContext, newTrade.aiComment);
     
-    if (!preAnalysis) {
-        setAiLoading(true);
+    if (!newTrade.aiComment) {
+        if (candleIndex !== currentIndex) await waitForChartRender();
         const { ltfImage, htfImage } = chartRef.current?.getImages() || {};
-        const visibleData = allCandles.slice(0, currentIndex + 1);
-        const comment = await analyzeTrade(newTrade, visibleData, ltfImage, htfImage, customPrompt);
-        const updatedTrade = { ...newTrade, aiComment: comment };
-        setActiveTrade(updatedTrade);
-        setTradeHistory(prev => prev.map(t => t.id === newTrade.id ? updatedTrade : t));
-        setViewingTrade(updatedTrade);
-        await db.trades.put(updatedTrade);
-        setAiLoading(false);
+        const visibleData = allCandles.slice(0, candleIndex + 1);
+        const context = tradeReviewContext(newTrade, visibleData, ltfImage, htfImage, session?.timeframe);
+        await enqueueReview(() => reviewTrade(newTrade, context, visibleData));
     }
   };
-  const handleAnalyzeTrade = async (reason: string, tp: number, sl: number) => {
+  // Streams the entry review of an opened trade; a failed request is stored as aiError, not as the comment
+  const reviewTrade = async (trade: Trade, context: CoachMessage, candles: KLineData[]) => {
+    setAiLoading(true);
+    const stream = beginAiStream('REVIEW', setAiStreamText);
+    const result = await evaluateTrade(trade, context, { ...coachOptions, ...stream.options }, candles);
+    stream.finish();
+    setAiLoading(false);
+    const { comment, score } = result;
+    // Stopped before any text arrived: kept as a failure so the review can still be retried
+    const error = result.error || (comment ? undefined : '分析在出结果前被停止，可点击重新分析。');
+    if (error) failedReviewsRef.current.set(trade.id, context);
+    else failedReviewsRef.current.delete(trade.id);
+    // Merge only the review: the position may already have been closed meanwhile
+    const review: Partial<Trade> = error ? { aiError: error } : { aiComment: comment, aiScore: score, aiError: undefined };
+    setTradeHistory(prev => prev.map(t => t.id === trade.id ? { ...t, ...review } : t));
+    setViewingTrade(prev => prev?.id === trade.id ? { ...prev, ...review } : prev);
+    await db.trades.update(trade.id, review);
+    if (!error) await startTradeThread(trade, context, comment);
+  };
+  // "重新分析": same request as the failed one; after a reload the screenshots are gone, so it is rebuilt from the candles
+  const retryTradeReview = (trade: Trade) => {
+    const candles = allCandles.filter(c => c.timestamp <= trade.entryTime);
+    const context = failedReviewsRef.current.get(trade.id) || tradeReviewContext(trade, candles, undefined, undefined, session?.timeframe);
+    return enqueueReview(() => reviewTrade(trade, context, candles));
+  };
+  // AI review of a closed trade, in the background (no streaming, so it doesn't cancel other requests).
+  // The entry charts come from the trade's chat thread; the result is also added to it as context.
+  const requestPostReview = async (trade: Trade) => {
+    if (postReviewIds.includes(trade.id)) return;
+    setPostReviewIds(ids => [...ids, trade.id]);
+    await new Promise(resolve => requestAnimationFrame(resolve)); // Let the chart draw the exit candle first
+    const { ltfImage, htfImage } = chartRef.current?.getImages() || {};
+    const thread = await loadThread(tradeThreadId(trade.id));
+    const holding = getHoldingCandles(trade, allCandles);
+    const context = postTradeReviewContext(trade, holding, thread?.messages[0]?.images, ltfImage, htfImage, session?.timeframe);
+    const comment = await reviewClosedTrade(trade, context, coachOptions);
+    setPostReviewIds(ids => ids.filter(id => id !== trade.id));
+    if (!comment) return;
+
+    const { mfe, mae } = calcExcursion(trade, holding);
+    const postReview = { comment, mfe, mae, createdAt: Date.now() };
+    setTradeHistory(prev => prev.map(t => t.id === trade.id ? { ...t, postReview } : t));
+    setViewingTrade(prev => prev?.id === trade.id ? { ...prev, postReview } : prev);
+    await db.trades.update(trade.id, { postReview });
+    const latest = thread && await loadThread(thread.id); // A follow-up may have been asked meanwhile
+    if (latest) {
+      const updated = appendMessages(latest, { ...context, hidden: true }, { role: 'assistant', text: comment, time: Date.now(), hidden: true });
+      rememberThread(updated);
+      await saveThread(updated);
+    }
+  };
+  // Follow-up question in a trade's chat (tradeId) or about the final report; older trades/reports
+  // without a stored thread get one rebuilt from the trade data (without screenshots)
+  const askCoach = async (question: string, tradeId?: string) => {
+    if (!session?.id) return;
+    const id = tradeId ? tradeThreadId(tradeId) : gameThreadId(session.id);
+    let thread = coachThreads[id];
+    if (!thread) {
+      const trade = tradeHistoryRef.current.find(t => t.id === tradeId);
+      if (tradeId && !trade?.aiComment) return;
+      thread = trade
+        ? createThread(id, session.id, tradeReviewContext(trade, allCandles.filter(c => c.timestamp <= trade.entryTime), undefined, undefined, session.timeframe), trade.aiComment!, trade.id)
+        : createThread(id, session.id, gameReportContext(tradeHistoryRef.current, session.stats), finalReport || '');
+    }
+    rememberThread(appendMessages(thread, { role: 'user', text: question, time: Date.now() }));
+    setChatThreadId(id);
+    setChatError(null);
+    const stream = beginAiStream('CHAT', setChatStreamText);
+    const { text: answer, error } = await chatWithCoach(thread, question, tradeHistoryRef.current, { ...coachOptions, ...stream.options });
+    stream.finish();
+    setChatThreadId(prev => prev === id ? null : prev);
+    // Failed or cancelled before any text arrived: the question stays out of the thread
+    if (error) setChatError({ threadId: id, question, error });
+    if (!answer) return rememberThread(thread);
+    const answered = appendMessages(thread, { role: 'user', text: question, time: Date.now() }, { role: 'assistant', text: answer, time: Date.now() });
+    rememberThread(answered);
+    await saveThread(answered);
+  };
+  const executeTrade = async (ticket: TradeTicket, preAnalysis?: AIResponse) => {
+    if (ticket.orderType !== 'MARKET') return placeOrder(ticket, preAnalysis);
+    const currentCandle = allCandles[currentIndex];
+    const fill = entryFill(modalDirection, currentCandle.close, 'TAKER', costModel);
+    const newTrade: Trade = { ...buildTrade(`trade_${Date.now()}`, ticket, modalDirection, fill, currentCandle.timestamp), aiComment: preAnalysis?.comment, aiScore: preAnalysis?.score };
+    const error = validateNewTrade(newTrade, currentCandle.close);
+    if (error) return alert(error);
+    await openPosition(newTrade, preAnalysis?.context);
+  };
+  const handleAnalyzeTrade = async (ticket: TradeTicket) => {
       setAiLoading(true);
       const currentCandle = allCandles[currentIndex];
-      const tempTrade: Trade = {
-          id: 'temp', gameId: 0, symbol: session?.symbol || '', direction: modalDirection,
-          entryPrice: currentCandle.close, tp, sl, quantity: 0, entryTime: currentCandle.timestamp, status: 'OPEN', pnl: 0, reason
-      };
+      // Pending orders are reviewed as if filled at their own level
+      const refPrice = ticket.orderType === 'MARKET' ? currentCandle.close : (ticket.limitPrice ?? ticket.stopPrice ?? currentCandle.close);
+      const tempTrade = buildTrade('temp', ticket, modalDirection, entryFill(modalDirection, refPrice, 'TAKER', costModel), currentCandle.timestamp);
       const { ltfImage, htfImage } = chartRef.current?.getImages() || {};
       const visibleData = allCandles.slice(0, currentIndex + 1);
-      const comment = await analyzeTrade(tempTrade, visibleData, ltfImage, htfImage, customPrompt);
-      setAiLoading(false);
-      return comment;
+      return enqueueReview(async () => {
+          setAiLoading(true);
+          const stream = beginAiStream('REVIEW', setAiStreamText);
+          const comment = await analyzeTrade(tempTrade, visibleData, ltfImage, htfImage, { ...coachOptions, ...stream.options });
+          stream.finish();
+          setAiLoading(false);
+          return comment;
+      });
+  };
+
+  // --- Pending Orders ---
+  const placeOrder = async (ticket: TradeTicket, preAnalysis?: AIResponse) => {
+    if (!session) return;
+    const { orderType, limitPrice, stopPrice } = ticket;
+    if ((orderType !== 'STOP' && !(limitPrice! > 0)) || (orderType !== 'LIMIT' && !(stopPrice! > 0))) return alert("请填写有效的挂单价格");
+    const currentCandle = allCandles[currentIndex];
+    const order: PendingOrder = {
+      id: `order_${Date.now()}`, gameId: session.id || 0, symbol: session.symbol, direction: modalDirection, ticket,
+      createdAt: currentCandle.timestamp,
+      expiresAt: ticket.expiryBars ? currentCandle.timestamp + ticket.expiryBars * timeframeToMs(session.timeframe) : undefined,
+      status: 'PENDING', preAnalysis: preAnalysis?.comment, preAnalysisScore: preAnalysis?.score, preAnalysisContext: preAnalysis?.context
+    };
+    setOrders(prev => [order, ...prev]);
+    setSidebarView('DASHBOARD');
+    await db.orders.add(order);
+  };
+  const updateOrder = async (id: string, changes: Partial<PendingOrder>) => {
+    setOrders(prev => prev.map(o => o.id === id ? { ...o, ...changes } : o));
+    await db.orders.update(id, changes);
+  };
+  const cancelOrder = (id: string) => updateOrder(id, { status: 'CANCELLED' });
+  // Dragging the order line on the chart; a STOP_LIMIT keeps its stop→limit offset until triggered
+  const moveOrder = (id: string, price: number) => {
+    const order = orders.find(o => o.id === id);
+    if (!order || order.status !== 'PENDING') return;
+    const { orderType, limitPrice, stopPrice } = order.ticket;
+    let changes: Partial<TradeTicket>;
+    if (orderType === 'LIMIT' || (orderType === 'STOP_LIMIT' && order.triggered)) changes = { limitPrice: price };
+    else if (orderType === 'STOP') changes = { stopPrice: price };
+    else changes = { stopPrice: price, limitPrice: limitPrice! + (price - stopPrice!) };
+    updateOrder(id, { ticket: { ...order.ticket, ...changes } });
+  };
+  // `book` is the account after this candle's exits; each fill is added before the next is checked
+  const processPendingOrders = (candle: KLineData, book: AccountBook, index: number) => {
+    getPendingOrders(orders).forEach(order => {
+        const event = evaluateOrder(order, candle, costModel);
+        if (event.type === 'TRIGGER') updateOrder(order.id, { triggered: true });
+        else if (event.type === 'EXPIRE') updateOrder(order.id, { status: 'EXPIRED' });
+        else if (event.type === 'FILL') {
+            const trade: Trade = { ...buildTrade(`${order.id}_fill`, order.ticket, order.direction, event.fill, candle.timestamp, book), aiComment: order.preAnalysis, aiScore: order.preAnalysisScore };
+            if (validateNewTrade(trade, event.fill.price, book)) {
+                updateOrder(order.id, { status: 'REJECTED' });
+                return;
+            }
+            book = { ...book, positions: [...book.positions, trade] };
+            setIsPlaying(false);
+            setQueuedSteps(0);
+            updateOrder(order.id, { status: 'FILLED', tradeId: trade.id });
+            openPosition(trade, order.preAnalysisContext, index);
+        }
+    });
   };
   
   const handleReviewTrade = (trade: Trade) => {
@@ -467,7 +1017,7 @@ const App: React.FC = () => {
 
   const loadComparisonStats = async (currentSession: GameSession) => {
       const siblings = await db.games.where('marketEndTime').equals(currentSession.marketEndTime)
-        .and(g => g.symbol === currentSession.symbol && g.timeframe === currentSession.timeframe && g.status === 'COMPLETED').toArray();
+        .and(g => g.symbol === currentSession.symbol && g.timeframe === currentSession.timeframe && (g.dataSource || DEFAULT_MARKET_DATA_SOURCE) === (currentSession.dataSource || DEFAULT_MARKET_DATA_SOURCE) && g.status === 'COMPLETED').toArray();
       const stats = await Promise.all(siblings.map(async (g) => {
         const trades = await db.trades.where('gameId').equals(g.id!).toArray();
         return { id: g.id, date: g.startTime, pnl: trades.reduce((acc, t) => acc + t.pnl, 0), isCurrent: g.id === currentSession.id };
@@ -482,6 +1032,10 @@ const App: React.FC = () => {
   const handleDeleteHistory = async (sessionsToDelete: GameSession[]) => {
       const gameIds = sessionsToDelete.map(s => s.id!).filter(Boolean);
       await db.trades.where('gameId').anyOf(gameIds).delete();
+      await db.orders.where('gameId').anyOf(gameIds).delete();
+      await db.threads.where('gameId').anyOf(gameIds).delete();
+      await db.assessments.where('gameId').anyOf(gameIds).delete();
+      setAssessments(prev => prev.filter(a => !gameIds.includes(a.gameId)));
       await db.games.where('id').anyOf(gameIds).delete();
       if (sidebarView === 'HISTORY_PANEL') loadHistoryAndShowPanel();
   };
@@ -497,6 +1051,83 @@ const App: React.FC = () => {
       if (isMobile) setShowMobileSidebar(true);
   };
 
+  // --- Lazy History Loading (scroll left past the preload) ---
+  const loadOlderHistory = async (pane: 'ltf' | 'htf') => {
+      if (!session || loadingHistoryRef.current[pane] || !hasMoreHistory[pane]) return;
+      const provider = getMarketDataProvider(session.dataSource);
+      const tf = pane === 'ltf' ? session.timeframe : getHigherTimeframe(session.timeframe);
+      const oldest = pane === 'ltf' ? allCandles[0] : htfHistory[0];
+      if (!oldest) return;
+
+      loadingHistoryRef.current[pane] = true;
+      const older = (await fetchMarketHistory(provider, session.symbol, tf, HISTORY_PAGE_SIZE, oldest.timestamp - 1))
+          .filter(c => c.timestamp < oldest.timestamp);
+      loadingHistoryRef.current[pane] = false;
+
+      if (older.length === 0) {
+          setHasMoreHistory(prev => ({ ...prev, [pane]: false }));
+          return;
+      }
+      if (pane === 'ltf') {
+          // Prepending shifts every index, keep the replay position on the same candle
+          setAllCandles(prev => [...older, ...prev]);
+          setCurrentIndex(prev => prev + older.length);
+          lastPlayedIndexRef.current += older.length;
+          setPrependedCount(prev => prev + older.length);
+      } else {
+          setHtfHistory(prev => [...older, ...prev]);
+      }
+  };
+
+  // --- Hotkeys ---
+  const closeSidebarPanel = () => isMobile ? setShowMobileSidebar(false) : setSidebarView('DASHBOARD');
+  const openHotkeySettings = () => {
+    setShowHotkeys(false);
+    setSettingsTab('hotkeys');
+    setSidebarView('SETTINGS');
+    if (isMobile) setShowMobileSidebar(true);
+  };
+
+  const runHotkeyAction = (action: HotkeyAction) => {
+    const canTrade = !!session && session.status === 'ACTIVE' && !isReviewingHistory;
+    switch (action) {
+      case 'PLAY_PAUSE': if (canTrade) setIsPlaying(p => !p); break;
+      case 'NEXT_CANDLE': if (canTrade) nextCandle(); break;
+      case 'JUMP_BARS':
+        if (canTrade) { setIsPlaying(false); setQueuedSteps(configHotkeys.jumpBars); }
+        break;
+      case 'OPEN_LONG': if (canTrade) handleOpenTradeModal('LONG'); break;
+      case 'OPEN_SHORT': if (canTrade) handleOpenTradeModal('SHORT'); break;
+      case 'CLOSE_PANEL':
+        if (showHotkeys) setShowHotkeys(false);
+        else if (confirmConfig.isOpen) setConfirmConfig({ ...confirmConfig, isOpen: false });
+        else closeSidebarPanel();
+        break;
+      case 'CLOSE_POSITION': if (canTrade && activePosition) closePosition(activePosition.id); break;
+      // Faster = shorter interval between candles
+      case 'SPEED_UP': setAutoPlaySpeed(v => Math.max(AUTO_PLAY_SPEED_RANGE.min, v - AUTO_PLAY_SPEED_RANGE.step)); break;
+      case 'SPEED_DOWN': setAutoPlaySpeed(v => Math.min(AUTO_PLAY_SPEED_RANGE.max, v + AUTO_PLAY_SPEED_RANGE.step)); break;
+      case 'SHOW_HELP': setShowHotkeys(v => !v); break;
+    }
+  };
+
+  // Listener is registered once; it always calls the latest handler
+  const hotkeyHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  hotkeyHandlerRef.current = (e: KeyboardEvent) => {
+    if (isEditableTarget(e.target) && e.key !== 'Escape') return;
+    const combo = eventToCombo(e);
+    const action = combo ? findHotkeyAction(configHotkeys, combo) : null;
+    if (!action) return;
+    e.preventDefault();
+    if (e.repeat && action !== 'NEXT_CANDLE') return; // Holding the next-candle key steps candle by candle
+    runHotkeyAction(action);
+  };
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => hotkeyHandlerRef.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
   // --- Computed HTF History for Display ---
   // Filters out any completed HTF candles that are ahead of the current simulation time
   const displayedHtfHistory = useMemo(() => {
@@ -510,9 +1141,13 @@ const App: React.FC = () => {
       <Header 
         session={session} isPlaying={isPlaying} setIsPlaying={setIsPlaying}
         isReviewingHistory={isReviewingHistory} nextCandle={nextCandle}
-        currentDisplayIndex={currentIndex} totalCandles={allCandles.length}
+        currentDisplayIndex={currentIndex - prependedCount} totalCandles={allCandles.length - prependedCount}
         autoPlaySpeed={autoPlaySpeed} setAutoPlaySpeed={setAutoPlaySpeed}
-        activeTrade={activeTrade} handleOpenTradeModal={handleOpenTradeModal}
+        openPositions={openPositions} handleOpenTradeModal={handleOpenTradeModal}
+        activePosition={activePosition}
+        onShowHotkeys={() => setShowHotkeys(true)}
+        onClosePosition={(fraction) => activePosition && closePosition(activePosition.id, fraction)}
+        onReversePosition={() => activePosition && reversePosition(activePosition.id)}
         loadHistoryAndShowPanel={loadHistoryAndShowPanel} setSidebarView={setSidebarView}
         isMobile={isMobile} onToggleSidebar={() => setShowMobileSidebar(!showMobileSidebar)}
       />
@@ -527,8 +1162,14 @@ const App: React.FC = () => {
           htfData={displayedHtfHistory}
           currentHtfCandle={currentHtfCandle}
           trades={tradeHistory}
+          crossLiquidationPrice={crossLiquidationPrice}
+          pendingOrders={pendingOrders}
+          onMoveOrder={moveOrder}
+          onModifyTrade={!isPlaying && !isReviewingHistory ? (id, field, price, tpIndex) => modifyTrade(id, field, price, 'CHART', tpIndex) : undefined}
           isReviewingHistory={isReviewingHistory}
           onBackToLive={handleBackToLive}
+          hasMoreHistory={hasMoreHistory}
+          onLoadMore={loadOlderHistory}
           onCandleClick={(ts) => {
               const trade = tradeHistory.find(t => Math.abs(t.entryTime - ts) < 300000);
               if (trade) handleReviewTrade(trade);
@@ -557,11 +1198,23 @@ const App: React.FC = () => {
                      <DashboardPanel 
                         balance={balance} initialBalance={INITIAL_BALANCE} session={session}
                         comparisonStats={comparisonStats} loading={loading} isGeneratingReport={isGeneratingReport}
+                        reportStreamText={reportStreamText} onCancelReport={() => cancelAiRequest('REPORT')}
                         finalReport={finalReport} currentTrades={tradeHistory}
+                        reportError={reportError} onRetryReport={session?.status === 'COMPLETED' && !finalReport ? retryGameReport : undefined}
+                        currentPrice={allCandles[currentIndex]?.close || 0}
+                        crossLiquidationPrice={crossLiquidationPrice}
+                        pendingOrders={pendingOrders} onCancelOrder={cancelOrder}
                         onReviewTrade={handleReviewTrade}
                         onStartNewGame={() => setConfirmConfig({ isOpen: true, title: '重新开始', message: '确定要放弃当前进度并开始新的一局吗？', onConfirm: () => startNewGame() })}
                         onEndGame={handleEndGame} onLoadSession={handleLoadSession}
                         isReviewingHistory={isReviewingHistory} viewingTradeId={viewingTrade?.id}
+                        persona={coachPersona} personas={listPersonas(configPersonas)} onChangePersona={changeSessionPersona}
+                        chatMessages={session?.id ? visibleMessages(coachThreads[gameThreadId(session.id)]) : []}
+                        chatStreamText={session?.id && chatThreadId === gameThreadId(session.id) ? chatStreamText : ''}
+                        isChatting={!!session?.id && chatThreadId === gameThreadId(session.id)}
+                        onAskCoach={modelEnabled ? question => askCoach(question) : undefined} onCancelChat={() => cancelAiRequest('CHAT')}
+                        chatError={session?.id && chatError?.threadId === gameThreadId(session.id) ? chatError.error : undefined}
+                        onRetryChat={chatError ? () => askCoach(chatError.question) : undefined}
                      />
                  )}
                  {sidebarView === 'TRADE_PANEL' && (
@@ -569,8 +1222,23 @@ const App: React.FC = () => {
                         onClose={() => isMobile ? setShowMobileSidebar(false) : setSidebarView('DASHBOARD')} 
                         onConfirm={executeTrade} onAnalyze={handleAnalyzeTrade}
                         currentPrice={allCandles[currentIndex]?.close || 0}
-                        direction={modalDirection} balance={balance}
+                        direction={modalDirection} balance={balance} winRate={estimateWinRate(tradeHistory)}
+                        freeMargin={calcFreeMargin(balance, openPositions, allCandles[currentIndex]?.close || 0)}
+                        entryFeePercent={costModel.takerFeePercent}
                         viewingTrade={viewingTrade} isLoading={aiLoading}
+                        streamingText={aiStreamText} onCancelAnalysis={() => cancelAiRequest('REVIEW')}
+                        chatMessages={viewingTrade ? visibleMessages(coachThreads[tradeThreadId(viewingTrade.id)]) : []}
+                        chatStreamText={viewingTrade && chatThreadId === tradeThreadId(viewingTrade.id) ? chatStreamText : ''}
+                        isChatting={!!viewingTrade && chatThreadId === tradeThreadId(viewingTrade.id)}
+                        isPostReviewing={!!viewingTrade && postReviewIds.includes(viewingTrade.id)}
+                        onRequestPostReview={viewingTrade && viewingTrade.status !== 'OPEN' && modelEnabled ? () => requestPostReview(viewingTrade) : undefined}
+                        onRetryAnalysis={viewingTrade?.aiError ? () => retryTradeReview(viewingTrade) : undefined}
+                        onAskCoach={viewingTrade && modelEnabled ? question => askCoach(question, viewingTrade.id) : undefined} onCancelChat={() => cancelAiRequest('CHAT')}
+                        chatError={viewingTrade && chatError?.threadId === tradeThreadId(viewingTrade.id) ? chatError.error : undefined}
+                        onRetryChat={viewingTrade && chatError ? () => askCoach(chatError.question, viewingTrade.id) : undefined}
+                        onModifyTrade={viewingTrade?.status === 'OPEN' && !isPlaying && !isReviewingHistory ? (field, price) => modifyTrade(viewingTrade.id, field, price, 'PANEL') : undefined}
+                        onClosePosition={viewingTrade?.status === 'OPEN' && !isReviewingHistory ? (fraction, note) => closePosition(viewingTrade.id, fraction, note) : undefined}
+                        onReversePosition={viewingTrade?.status === 'OPEN' && !isReviewingHistory ? (note) => reversePosition(viewingTrade.id, note) : undefined}
                      />
                  )}
                  {sidebarView === 'HISTORY_PANEL' && (
@@ -579,14 +1247,29 @@ const App: React.FC = () => {
                         sessions={pastSessions} tradesByGame={pastTrades}
                         onReplay={(s) => { handleLoadSession(s); setShowMobileSidebar(false); }}
                         onReview={handleLoadSession} onDelete={handleDeleteHistory}
+                        profile={coachingProfile} isAssessing={isAssessingHistory}
+                        unassessedCount={pastSessions.filter(s => !assessments.some(a => a.gameId === s.id)).length}
+                        onAssessPastGames={assessPastGames}
                      />
                  )}
                  {sidebarView === 'SETTINGS' && (
                      <SettingsPanel 
-                        onClose={() => isMobile ? setShowMobileSidebar(false) : setSidebarView('DASHBOARD')}
+                        onClose={() => { setSettingsTab('general'); closeSidebarPanel(); }}
                         configSymbol={configSymbol} setConfigSymbol={setConfigSymbol}
                         configTimeframe={configTimeframe} setConfigTimeframe={setConfigTimeframe}
-                        customPrompt={customPrompt} setCustomPrompt={setCustomPrompt}
+                        configDataSource={configDataSource} setConfigDataSource={setConfigDataSource}
+                        configGameLength={configGameLength} setConfigGameLength={setConfigGameLength}
+                        configCostModel={configCostModel} setConfigCostModel={setConfigCostModel}
+                        configIntrabarPolicy={configIntrabarPolicy} setConfigIntrabarPolicy={setConfigIntrabarPolicy}
+                        configHotkeys={configHotkeys} setConfigHotkeys={setConfigHotkeys}
+                        initialTab={settingsTab}
+                        currentSettings={currentSettings} onImportSettings={importSettings}
+                        GAME_LENGTH_OPTIONS={GAME_LENGTH_OPTIONS}
+                        configPersonas={configPersonas} setConfigPersonas={setConfigPersonas}
+                        configPersonaId={configPersonaId} setConfigPersonaId={setConfigPersonaId}
+                        configLLM={configLLM} setConfigLLM={setConfigLLM}
+                        configPostTradeReview={configPostTradeReview} setConfigPostTradeReview={setConfigPostTradeReview}
+                        configRuleCoach={configRuleCoach} setConfigRuleCoach={setConfigRuleCoach}
                         SUPPORTED_SYMBOLS={SUPPORTED_SYMBOLS} SUPPORTED_TIMEFRAMES={SUPPORTED_TIMEFRAMES}
                         theme={theme} setTheme={setTheme}
                      />
@@ -615,6 +1298,7 @@ const App: React.FC = () => {
 
       {/* Modals */}
       <SessionRestoreModal isOpen={showRestoreModal} session={pendingRestoreSession} onDiscard={() => { setShowRestoreModal(false); startNewGame(); }} onResume={() => { setShowRestoreModal(false); if (pendingRestoreSession) startNewGame(undefined, pendingRestoreSession); }} />
+      <HotkeyCheatSheet isOpen={showHotkeys} config={configHotkeys} onClose={() => setShowHotkeys(false)} onEdit={openHotkeySettings} />
       <ConfirmDialog isOpen={confirmConfig.isOpen} title={confirmConfig.title} message={confirmConfig.message} onConfirm={() => { confirmConfig.onConfirm(); setConfirmConfig({...confirmConfig, isOpen: false}); }} onCancel={() => setConfirmConfig({...confirmConfig, isOpen: false})} />
       {loading && !session?.status && (
           <div className="fixed inset-0 z-[120] bg-white dark:bg-gray-950 flex flex-col items-center justify-center text-gray-900 dark:text-white">
@@ -0,0 +1,104 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MessageCircle, Send, Square, Loader2, AlertTriangle, RotateCw } from 'lucide-react';
+import { CoachMessage } from '../types';
+import MarkdownRenderer from './MarkdownRenderer';
+
+interface CoachChatProps {
+  messages: CoachMessage[]; // Visible turns only
+  streamingText?: string; // Answer being written
+  loading?: boolean;
+  onSend: (question: string) => void;
+  onCancel?: () => void;
+  error?: string; // Last question failed (it was not added to the thread)
+  onRetry?: () => void;
+  placeholder?: string;
+}
+
+// 追问 AI 教练: follow-up questions under a review / report
+const CoachChat: React.FC<CoachChatProps> = ({ messages, streamingText = '', loading = false, onSend, onCancel, error, onRetry, placeholder = '追问教练，例如：为什么说我的入场位置不好？' }) => {
+  const [draft, setDraft] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages.length, streamingText]);
+
+  const send = () => {
+    const question = draft.trim();
+    if (!question || loading) return;
+    onSend(question);
+    setDraft('');
+  };
+
+  return (
+    <div className="border-t border-indigo-100 dark:border-indigo-900/40 pt-3 mt-3 space-y-2">
+      <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wider flex items-center gap-1">
+        <MessageCircle size={12} /> 追问教练
+      </div>
+
+      {messages.map((m, i) => m.role === 'user' ? (
+        <div key={i} className="flex justify-end">
+          <div className="max-w-[85%] bg-indigo-600 text-white text-xs rounded-lg rounded-br-sm px-3 py-2 whitespace-pre-wrap">{m.text}</div>
+        </div>
+      ) : (
+        <div key={i} className="bg-white dark:bg-gray-950 border border-gray-200 dark:border-gray-800 rounded-lg rounded-bl-sm px-3 py-2 text-sm">
+          <MarkdownRenderer content={m.text} />
+        </div>
+      ))}
+
+      {loading && (
+        <div className="bg-white dark:bg-gray-950 border border-gray-200 dark:border-gray-800 rounded-lg rounded-bl-sm px-3 py-2 text-sm">
+          {streamingText ? (
+            <MarkdownRenderer content={streamingText} streaming />
+          ) : (
+            <span className="flex items-center gap-2 text-xs text-indigo-500"><Loader2 size={12} className="animate-spin" /> 教练思考中...</span>
+          )}
+        </div>
+      )}
+      {error && !loading && (
+        <div className="rounded-lg border border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-900/20 px-3 py-2 flex items-start justify-between gap-2">
+          <p className="text-xs text-red-600 dark:text-red-400 flex items-start gap-1.5">
+            <AlertTriangle size={14} className="shrink-0 mt-0.5" /> 追问失败：{error}
+          </p>
+          {onRetry && (
+            <button
+              onClick={onRetry}
+              className="shrink-0 flex items-center gap-1 text-[10px] font-bold px-2 py-1 rounded border border-red-300 dark:border-red-800 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors"
+            >
+              <RotateCw size={10} /> 重试
+            </button>
+          )}
+        </div>
+      )}
+      <div ref={endRef} />
+
+      <div className="flex items-end gap-2">
+        <textarea
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => {
+            // Enter 发送, Shift+Enter 换行
+            if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+              e.preventDefault();
+              send();
+            }
+          }}
+          rows={2}
+          placeholder={placeholder}
+          className="flex-1 resize-none bg-white dark:bg-gray-950 border border-gray-300 dark:border-gray-700 rounded-lg px-2 py-1.5 text-xs text-gray-800 dark:text-gray-200 focus:outline-none focus:border-indigo-500"
+        />
+        {loading && onCancel ? (
+          <button onClick={onCancel} className="p-2 rounded-lg border border-gray-300 dark:border-gray-700 text-gray-500 hover:text-red-500 transition-colors" title="停止">
+            <Square size={14} className="fill-current" />
+          </button>
+        ) : (
+          <button onClick={send} disabled={!draft.trim() || loading} className="p-2 rounded-lg bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-40 transition-colors" title="发送">
+            <Send size={14} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CoachChat;
@@ -1,7 +1,15 @@
-import React, { useState, useEffect } from 'react';
-import { History, BarChart2, Brain, Sparkles, StopCircle, RefreshCw, RotateCcw, Loader2 } from 'lucide-react';
-import { GameSession, Trade } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { History, BarChart2, Brain, Sparkles, StopCircle, RefreshCw, RotateCcw, Loader2, Layers, Clock, X, Square } from 'lucide-react';
+import { GameSession, Trade, PendingOrder, CoachPersona, CoachMessage } from '../types';
+import { getOpenPositions, summarizeExposure, calcUnrealizedPnl } from '../services/positionBook';
+import { calcFreeMargin, getPositionMargin } from '../services/margin';
+import { describeOrder } from '../services/orderBook';
+import { summarizeScores, scoreColor } from '../services/tradeScoring';
+import { calcGameStats, describeGameStats } from '../services/gameStats';
+import { formatTokens } from '../services/llmRequestManager';
 import MarkdownRenderer from './MarkdownRenderer';
+import ScoreBreakdown from './ScoreBreakdown';
+import CoachChat from './CoachChat';
 
 interface DashboardPanelProps {
     balance: number;
@@ -10,22 +18,56 @@ interface DashboardPanelProps {
     comparisonStats: any[];
     loading: boolean;
     isGeneratingReport?: boolean;
+    reportStreamText?: string; // Report received so far while generating
+    onCancelReport?: () => void;
     finalReport: string | null;
+    reportError?: string | null;
+    onRetryReport?: () => void; // Finished game without a report
     currentTrades: Trade[];
+    currentPrice: number;
+    crossLiquidationPrice?: number | null;
+    pendingOrders?: PendingOrder[];
+    onCancelOrder?: (orderId: string) => void;
     onReviewTrade: (trade: Trade) => void;
     onEndGame: () => void;
     onStartNewGame: () => void;
     onLoadSession: (sessionId: number) => void;
     isReviewingHistory: boolean;
     viewingTradeId?: string;
+    persona?: CoachPersona; // Coach of this game
+    personas?: CoachPersona[];
+    onChangePersona?: (personaId: string) => void;
+    // Follow-up chat about the final report
+    chatMessages?: CoachMessage[];
+    chatStreamText?: string;
+    isChatting?: boolean;
+    onAskCoach?: (question: string) => void;
+    onCancelChat?: () => void;
+    chatError?: string;
+    onRetryChat?: () => void;
 }
 
 const DashboardPanel: React.FC<DashboardPanelProps> = ({
-    balance, initialBalance, session, comparisonStats, loading, isGeneratingReport, finalReport,
-    currentTrades, onReviewTrade, onEndGame, onStartNewGame, onLoadSession, 
-    isReviewingHistory, viewingTradeId
+    balance, initialBalance, session, comparisonStats, loading, isGeneratingReport, reportStreamText = '', onCancelReport, finalReport, reportError, onRetryReport,
+    currentTrades, currentPrice, crossLiquidationPrice, pendingOrders = [], onCancelOrder, onReviewTrade, onEndGame, onStartNewGame, onLoadSession, 
+    isReviewingHistory, viewingTradeId, persona, personas = [], onChangePersona,
+    chatMessages = [], chatStreamText = '', isChatting = false, onAskCoach, onCancelChat, chatError, onRetryChat
 }) => {
     
+    const exposure = useMemo(
+        () => summarizeExposure(getOpenPositions(currentTrades), currentPrice),
+        [currentTrades, currentPrice]
+    );
+    const equity = balance + exposure.unrealizedPnl;
+    const usedMargin = exposure.positions.reduce((acc, p) => acc + getPositionMargin(p.trade), 0);
+    const freeMargin = calcFreeMargin(balance, getOpenPositions(currentTrades), currentPrice);
+    const scoreSummary = useMemo(() => summarizeScores(currentTrades), [currentTrades]);
+    // Metrics behind the final report; games finished before they were stored get them without the HTF trend
+    const gameStats = useMemo(
+        () => finalReport ? (session?.stats || calcGameStats(currentTrades, initialBalance)) : null,
+        [finalReport, session?.stats, currentTrades, initialBalance]
+    );
+
     // AI Animation State
     const [aiStep, setAiStep] = useState(0);
     const aiSteps = [
@@ -46,6 +88,29 @@ const DashboardPanel: React.FC<DashboardPanelProps> = ({
         }
     }, [isGeneratingReport]);
 
+    // Report is being written: show it as it streams in
+    if (isGeneratingReport && reportStreamText) {
+        return (
+            <div className="h-full flex flex-col bg-gray-50 dark:bg-gray-900">
+                <div className="flex items-center justify-between p-3 border-b border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-950 shrink-0">
+                    <h2 className="font-bold text-indigo-700 dark:text-indigo-400 flex items-center gap-2 text-sm">
+                        <Sparkles size={16} className="animate-pulse" /> AI 教练正在撰写报告...
+                    </h2>
+                    {onCancelReport && (
+                        <button onClick={onCancelReport} className="flex items-center gap-1 text-[10px] font-bold text-gray-500 hover:text-red-500 border border-gray-300 dark:border-gray-700 px-2 py-0.5 rounded-full transition-colors">
+                            <Square size={8} className="fill-current" /> 停止
+                        </button>
+                    )}
+                </div>
+                <div className="flex-1 overflow-y-auto p-3 custom-scrollbar">
+                    <div className="bg-white dark:bg-gray-950 p-4 rounded-xl border border-indigo-100 dark:border-indigo-900/50 shadow-sm text-sm text-gray-700 dark:text-gray-300 leading-relaxed">
+                        <MarkdownRenderer content={reportStreamText} streaming />
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
     // Render AI Overlay if Generating Report
     if (isGeneratingReport) {
         return (
@@ -82,6 +147,12 @@ const DashboardPanel: React.FC<DashboardPanelProps> = ({
                              <div key={i} className="w-2 h-2 rounded-full bg-indigo-500 animate-bounce" style={{ animationDelay: `${i * 0.15}s` }}></div>
                          ))}
                     </div>
+
+                    {onCancelReport && (
+                        <button onClick={onCancelReport} className="mt-6 text-xs font-bold text-gray-500 hover:text-red-500 transition-colors">
+                            取消
+                        </button>
+                    )}
                 </div>
             </div>
         );
@@ -100,8 +171,8 @@ const DashboardPanel: React.FC<DashboardPanelProps> = ({
                 <div className="flex items-center gap-3">
                      <div className="flex flex-col items-end leading-none">
                         <span className="text-[10px] text-gray-500 uppercase tracking-wider">Equity</span>
-                        <span className={`font-mono font-bold text-sm ${balance >= initialBalance ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-                            ${balance.toFixed(0)}
+                        <span className={`font-mono font-bold text-sm ${equity >= initialBalance ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                            ${equity.toFixed(0)}
                         </span>
                     </div>
                 </div>
@@ -118,10 +189,139 @@ const DashboardPanel: React.FC<DashboardPanelProps> = ({
                          <div className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed bg-indigo-50/50 dark:bg-indigo-900/10 p-3 rounded-lg">
                             <MarkdownRenderer content={finalReport} />
                          </div>
+                         {gameStats && (
+                             <table className="w-full mt-3 text-[10px]">
+                                 <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                                     {describeGameStats(gameStats).map(row => (
+                                         <tr key={row.label}>
+                                             <td className="py-1 pr-2 text-gray-500 whitespace-nowrap">{row.label}</td>
+                                             <td className="py-1 text-right font-mono font-bold text-gray-700 dark:text-gray-300">{row.value}</td>
+                                         </tr>
+                                     ))}
+                                 </tbody>
+                             </table>
+                         )}
+                         {onAskCoach && (
+                             <CoachChat
+                                 messages={chatMessages} streamingText={chatStreamText} loading={isChatting}
+                                 onSend={onAskCoach} onCancel={onCancelChat}
+                                 error={chatError} onRetry={onRetryChat}
+                                 placeholder="就这份报告追问教练，例如：我最该先改哪个习惯？"
+                             />
+                         )}
+                     </div>
+                 ) : onRetryReport ? (
+                     <div className="bg-white dark:bg-gray-950 p-4 rounded-xl border border-red-200 dark:border-red-900/50 shadow-sm space-y-2">
+                         <p className="text-xs text-red-600 dark:text-red-400">
+                             {reportError ? `终局报告生成失败：${reportError}` : '终局报告未生成。'}
+                         </p>
+                         <button
+                             onClick={onRetryReport}
+                             className="flex items-center gap-1 text-[10px] font-bold px-2 py-1 rounded border border-red-300 dark:border-red-800 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors"
+                         >
+                             <RefreshCw size={10} /> 重新生成报告
+                         </button>
                      </div>
                  ) : null}
 
-                 {/* 2. Comparison Stats (Current vs History) */}
+                 {/* AI Coach Persona */}
+                 {session && persona && (
+                     <div className="bg-white dark:bg-gray-950 p-3 rounded-xl border border-gray-200 dark:border-gray-800 shadow-sm">
+                         <h3 className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-2 flex items-center gap-1">
+                             <Brain size={12}/> AI 教练
+                         </h3>
+                         {session.status === 'ACTIVE' && !isReviewingHistory && onChangePersona ? (<>
+                             <select
+                                 value={persona.id}
+                                 onChange={(e) => onChangePersona(e.target.value)}
+                                 className="w-full bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg p-2 text-xs text-gray-900 dark:text-white outline-none focus:border-blue-500"
+                             >
+                                 {/* A deleted custom persona still shows as the session's snapshot */}
+                                 {!personas.some(p => p.id === persona.id) && <option value={persona.id}>{persona.name}</option>}
+                                 {personas.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                             </select>
+                             <p className="text-[10px] text-gray-400 mt-1">切换后，之后的点评和终局报告都使用新的人设</p>
+                         </>) : (
+                             <p className="text-xs font-bold text-gray-700 dark:text-gray-300">{persona.name}</p>
+                         )}
+                         {/* 本局 AI 用量 */}
+                         {session.aiUsage && session.aiUsage.requests > 0 && (
+                             <p
+                                 className="text-[10px] text-gray-400 font-mono mt-2 pt-2 border-t border-gray-100 dark:border-gray-800"
+                                 title={`输入 ${session.aiUsage.inputTokens} / 输出 ${session.aiUsage.outputTokens} tokens · 失败 ${session.aiUsage.failures} 次 · 重试 ${session.aiUsage.retries} 次${session.aiUsage.estimated ? ' · 部分按字数估算' : ''}`}
+                             >
+                                 本局 {session.aiUsage.requests} 次请求 · {session.aiUsage.estimated ? '≈' : ''}{formatTokens(session.aiUsage.inputTokens + session.aiUsage.outputTokens)} tokens
+                                 {session.aiUsage.cost > 0 && ` · $${session.aiUsage.cost.toFixed(4)}`}
+                                 {session.aiUsage.failures > 0 && <span className="text-red-400"> · 失败 {session.aiUsage.failures}</span>}
+                             </p>
+                         )}
+                     </div>
+                 )}
+
+                 {/* 2. Open Positions (Aggregate Exposure) */}
+                 {exposure.positions.length > 0 && (
+                     <div className="bg-white dark:bg-gray-950 p-3 rounded-xl border border-yellow-500/30 shadow-sm">
+                         <h3 className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-3 flex items-center gap-1">
+                             <Layers size={12}/> 当前持仓 ({exposure.positions.length})
+                         </h3>
+                         <div className="grid grid-cols-3 gap-2 mb-3 text-[10px] font-mono">
+                             <div className="bg-gray-50 dark:bg-gray-900 p-2 rounded">
+                                 <span className="block text-gray-500 uppercase">Net</span>
+                                 <span className={`font-bold text-xs ${exposure.netQuantity >= 0 ? 'text-trade-profit' : 'text-trade-loss'}`}>
+                                     {exposure.netQuantity >= 0 ? '+' : ''}{exposure.netQuantity.toFixed(4)}
+                                 </span>
+                             </div>
+                             <div className="bg-gray-50 dark:bg-gray-900 p-2 rounded">
+                                 <span className="block text-gray-500 uppercase">Gross</span>
+                                 <span className="font-bold text-xs text-gray-700 dark:text-gray-300">${exposure.grossNotional.toFixed(0)}</span>
+                             </div>
+                             <div className="bg-gray-50 dark:bg-gray-900 p-2 rounded">
+                                 <span className="block text-gray-500 uppercase">uPnL</span>
+                                 <span className={`font-bold text-xs ${exposure.unrealizedPnl >= 0 ? 'text-trade-profit' : 'text-trade-loss'}`}>
+                                     {exposure.unrealizedPnl >= 0 ? '+' : ''}{exposure.unrealizedPnl.toFixed(2)}
+                                 </span>
+                             </div>
+                         </div>
+                         <div className="flex justify-between text-[10px] font-mono text-gray-500 px-1">
+                             <span>Long {exposure.longQuantity.toFixed(4)} @ {exposure.longAvgEntry ? exposure.longAvgEntry.toFixed(2) : '-'}</span>
+                             <span>Short {exposure.shortQuantity.toFixed(4)} @ {exposure.shortAvgEntry ? exposure.shortAvgEntry.toFixed(2) : '-'}</span>
+                         </div>
+                         <div className="flex justify-between text-[10px] font-mono text-gray-500 px-1 mt-1">
+                             <span>保证金 ${usedMargin.toFixed(0)} · 可用 ${freeMargin.toFixed(0)}</span>
+                             {crossLiquidationPrice && <span className="text-orange-500">全仓强平 {crossLiquidationPrice.toFixed(2)}</span>}
+                         </div>
+                     </div>
+                 )}
+
+                 {/* Pending Orders */}
+                 {pendingOrders.length > 0 && (
+                     <div className="bg-white dark:bg-gray-950 p-3 rounded-xl border border-blue-500/30 shadow-sm">
+                         <h3 className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-2 flex items-center gap-1">
+                             <Clock size={12}/> 挂单 ({pendingOrders.length})
+                         </h3>
+                         <div className="space-y-1">
+                             {pendingOrders.map(order => (
+                                 <div key={order.id} className="flex items-center justify-between gap-2 text-[10px] font-mono">
+                                     <span className={order.direction === 'LONG' ? 'text-trade-profit' : 'text-trade-loss'}>{describeOrder(order)}</span>
+                                     <span className="flex items-center gap-2 text-gray-500">
+                                         {order.expiresAt ? `至 ${new Date(order.expiresAt).toLocaleTimeString([], {hour:'2-digit', minute:'2-digit'})}` : 'GTC'}
+                                         <button onClick={() => onCancelOrder?.(order.id)} className="p-0.5 rounded hover:bg-red-50 dark:hover:bg-red-900/20 hover:text-red-500" title="撤单">
+                                             <X size={12} />
+                                         </button>
+                                     </span>
+                                 </div>
+                             ))}
+                         </div>
+                         <p className="text-[10px] text-gray-400 mt-2">拖动图表上的挂单线可修改价格</p>
+                     </div>
+                 )}
+
+                 {/* AI Score Summary */}
+                 {scoreSummary && (
+                     <ScoreBreakdown overall={scoreSummary.overall} criteria={scoreSummary.criteria} caption={`${scoreSummary.count} 笔均值`} />
+                 )}
+
+                 {/* 3. Comparison Stats (Current vs History) */}
                  {comparisonStats.length > 0 && (
                      <div className="bg-white dark:bg-gray-950 p-3 rounded-xl border border-gray-200 dark:border-gray-800 shadow-sm">
                          <h3 className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-3 flex items-center gap-1">
@@ -171,7 +371,7 @@ const DashboardPanel: React.FC<DashboardPanelProps> = ({
                      </div>
                  )}
 
-                 {/* 3. Trade List */}
+                 {/* 4. Trade List */}
                  <div className="space-y-2">
                     <div className="flex items-center justify-between px-1">
                         <h3 className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">
@@ -196,6 +396,12 @@ const DashboardPanel: React.FC<DashboardPanelProps> = ({
                                     }`}>
                                         {trade.direction}
                                     </span>
+                                    {trade.leverage && (
+                                        <span className="text-[10px] font-mono text-gray-500">{trade.leverage}x {trade.marginMode === 'CROSS' ? '全仓' : '逐仓'}</span>
+                                    )}
+                                    {trade.status === 'CLOSED_LIQUIDATED' && (
+                                        <span className="text-[10px] font-bold px-1 rounded bg-orange-100 dark:bg-orange-900/30 text-orange-600 dark:text-orange-400">强平</span>
+                                    )}
                                     <span className="text-xs font-mono text-gray-500 dark:text-gray-400">
                                         {new Date(trade.entryTime).toLocaleTimeString([], {hour:'2-digit', minute:'2-digit'})}
                                     </span>
@@ -205,13 +411,27 @@ const DashboardPanel: React.FC<DashboardPanelProps> = ({
                                         {trade.pnl >= 0 ? '+' : ''}{trade.pnl.toFixed(2)}
                                     </span>
                                 )}
-                                {trade.status === 'OPEN' && <span className="text-[10px] font-bold text-yellow-600 dark:text-yellow-500 animate-pulse flex items-center gap-1"><span className="w-1.5 h-1.5 rounded-full bg-yellow-500"></span> LIVE</span>}
+                                {trade.status === 'OPEN' && (
+                                    <span className="flex items-center gap-2">
+                                        <span className={`font-mono text-xs font-bold ${calcUnrealizedPnl(trade, currentPrice) >= 0 ? 'text-trade-profit' : 'text-trade-loss'}`}>
+                                            {calcUnrealizedPnl(trade, currentPrice) >= 0 ? '+' : ''}{calcUnrealizedPnl(trade, currentPrice).toFixed(2)}
+                                        </span>
+                                        <span className="text-[10px] font-bold text-yellow-600 dark:text-yellow-500 animate-pulse flex items-center gap-1"><span className="w-1.5 h-1.5 rounded-full bg-yellow-500"></span> LIVE</span>
+                                    </span>
+                                )}
                             </div>
                             
                             <div className="flex justify-between items-center mt-2">
                                 <span className="text-[10px] text-gray-400 font-mono">
                                     Open: {trade.entryPrice} {trade.exitPrice ? `→ Close: ${trade.exitPrice}` : ''}
                                 </span>
+                                {trade.aiScore ? (
+                                    <span className={`text-[10px] font-mono font-bold ${scoreColor(trade.aiScore.overall)}`} title={trade.aiScore.verdict}>
+                                        AI {trade.aiScore.overall.toFixed(1)}
+                                    </span>
+                                ) : trade.aiError && !trade.aiComment ? (
+                                    <span className="text-[10px] font-bold text-red-500" title={trade.aiError}>AI 分析失败</span>
+                                ) : null}
                             </div>
 
                             {/* Review Indicator */}
@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Upload, FileSpreadsheet, Trash2, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { ImportedDataset, Timeframe } from '../types';
+import { timeframeToMs } from '../services/binanceService';
+import { parseDatasetFile, DatasetParseResult } from '../services/datasetImport';
+import { saveDataset, listDatasets, deleteDataset } from '../services/datasetProvider';
+
+interface DatasetImportPanelProps {
+  onDatasetsChange?: (datasets: ImportedDataset[]) => void;
+}
+
+const DatasetImportPanel: React.FC<DatasetImportPanelProps> = ({ onDatasetsChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [datasets, setDatasets] = useState<ImportedDataset[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<DatasetParseResult | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [symbol, setSymbol] = useState('');
+  const [datasetInterval, setDatasetInterval] = useState<Timeframe | ''>('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const refresh = useCallback(async () => {
+      const list = await listDatasets();
+      setDatasets(list);
+      onDatasetsChange?.(list);
+  }, [onDatasetsChange]);
+
+  useEffect(() => {
+      refresh();
+  }, [refresh]);
+
+  // The chosen interval must match the spacing actually found in the file (0 = too few rows to tell)
+  const intervalMismatch = !!parsed && !!datasetInterval && parsed.intervalMs > 0 && timeframeToMs(datasetInterval) !== parsed.intervalMs;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      setFileName(file.name);
+      setParsed(null);
+      setParseError(null);
+      try {
+          const result = parseDatasetFile(file.name, await file.text());
+          setParsed(result);
+          setDatasetInterval(result.interval || '');
+          setSymbol(file.name.replace(/\.(csv|json|txt)$/i, '').split(/[_\-\s.]/)[0].toUpperCase());
+      } catch (err: any) {
+          setParseError(err?.message || '解析失败');
+      }
+  };
+
+  const handleSave = async () => {
+      if (!parsed || !symbol.trim() || !datasetInterval || intervalMismatch) return;
+      setIsSaving(true);
+      try {
+          await saveDataset({ name: fileName, symbol: symbol.trim().toUpperCase(), interval: datasetInterval, sourceFileName: fileName }, parsed);
+          setParsed(null);
+          setFileName('');
+          await refresh();
+      } catch (err: any) {
+          setParseError(err?.message || '保存失败');
+      }
+      setIsSaving(false);
+  };
+
+  const handleDelete = async (id: number) => {
+      await deleteDataset(id);
+      await refresh();
+  };
+
+  const formatTime = (ts: number) => new Date(ts).toLocaleString('zh-CN', { year: '2-digit', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="bg-white dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between mb-3">
+            <label className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider flex items-center gap-1.5">
+                <FileSpreadsheet size={12} /> 自定义数据集
+            </label>
+            <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors"
+            >
+                <Upload size={12} /> 导入 CSV / JSON
+            </button>
+            <input ref={fileInputRef} type="file" accept=".csv,.json,.txt" className="hidden" onChange={handleFile} />
+        </div>
+
+        {parseError && (
+            <div className="mb-3 p-2 rounded bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-[10px] flex items-center gap-1.5">
+                <AlertTriangle size={12} /> {fileName}: {parseError}
+            </div>
+        )}
+
+        {parsed && (
+            <div className="mb-3 p-3 rounded-lg border border-blue-200 dark:border-blue-500/30 bg-blue-50/50 dark:bg-blue-900/10 space-y-2 text-[10px] font-mono text-gray-600 dark:text-gray-300">
+                <div className="font-bold text-xs text-gray-800 dark:text-gray-200 truncate">{fileName}</div>
+                <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+                    <span>格式: {parsed.format.toUpperCase()}</span>
+                    <span>时间单位: {parsed.timestampUnit}</span>
+                    <span>K 线数: {parsed.candles.length}</span>
+                    <span>周期: {parsed.interval || `${Math.round(parsed.intervalMs / 60000)}m (不支持)`}</span>
+                    <span className={parsed.duplicates ? 'text-yellow-600 dark:text-yellow-400' : ''}>重复: {parsed.duplicates}</span>
+                    <span className={parsed.invalidRows ? 'text-yellow-600 dark:text-yellow-400' : ''}>无效行: {parsed.invalidRows}</span>
+                    <span className={`col-span-2 ${parsed.gaps.length ? 'text-yellow-600 dark:text-yellow-400' : ''}`}>
+                        缺口: {parsed.gaps.length} 处 (缺失 {parsed.gaps.reduce((acc, g) => acc + g.missing, 0)} 根)
+                    </span>
+                </div>
+                <div className="text-gray-500">
+                    列映射: {Object.entries(parsed.columns).map(([field, col]) => `${field}←${col}`).join(', ')}
+                </div>
+                {parsed.candles.length > 0 && (
+                    <div className="text-gray-500">{formatTime(parsed.candles[0].timestamp)} → {formatTime(parsed.candles[parsed.candles.length - 1].timestamp)}</div>
+                )}
+                <div className="grid grid-cols-2 gap-2 pt-1">
+                    <input
+                        value={symbol}
+                        onChange={(e) => setSymbol(e.target.value)}
+                        placeholder="Symbol"
+                        className="bg-white dark:bg-gray-950 border border-gray-300 dark:border-gray-600 rounded p-2 text-xs outline-none focus:border-blue-500"
+                    />
+                    <select
+                        value={datasetInterval}
+                        onChange={(e) => setDatasetInterval(e.target.value as Timeframe)}
+                        className="bg-white dark:bg-gray-950 border border-gray-300 dark:border-gray-600 rounded p-2 text-xs outline-none focus:border-blue-500"
+                    >
+                        <option value="" disabled>Interval</option>
+                        {Object.values(Timeframe).map(tf => <option key={tf} value={tf}>{tf}</option>)}
+                    </select>
+                </div>
+                {intervalMismatch && (
+                    <div className="text-red-600 dark:text-red-400 flex items-center gap-1.5">
+                        <AlertTriangle size={12} /> 所选周期 {datasetInterval} 与文件中的 K 线间隔 ({Math.round(parsed.intervalMs / 60000)}m) 不一致
+                    </div>
+                )}
+                <div className="flex gap-2 pt-1">
+                    <button onClick={() => setParsed(null)} className="flex-1 py-1.5 rounded border border-gray-300 dark:border-gray-700 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 font-bold">
+                        取消
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving || !symbol.trim() || !datasetInterval || intervalMismatch || parsed.candles.length === 0}
+                        className="flex-1 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white font-bold disabled:opacity-40"
+                    >
+                        保存到本地
+                    </button>
+                </div>
+            </div>
+        )}
+
+        <div className="space-y-1.5 max-h-48 overflow-y-auto custom-scrollbar">
+            {datasets.map(d => (
+                <div key={d.id} className="flex items-center justify-between gap-2 p-2 rounded bg-gray-50 dark:bg-gray-950 border border-gray-200 dark:border-gray-800 text-[10px] font-mono">
+                    <div className="min-w-0">
+                        <div className="font-bold text-gray-800 dark:text-gray-200 flex items-center gap-1">
+                            {d.symbol} · {d.interval}
+                            {d.gapCount === 0 ? <CheckCircle2 size={10} className="text-green-500" /> : <span className="text-yellow-600 dark:text-yellow-400">({d.gapCount} gaps)</span>}
+                        </div>
+                        <div className="text-gray-500 truncate">{d.candleCount} 根 · {formatTime(d.firstTimestamp)} → {formatTime(d.lastTimestamp)}</div>
+                    </div>
+                    <button onClick={() => handleDelete(d.id!)} className="p-1 text-gray-400 hover:text-red-500 shrink-0">
+                        <Trash2 size={12} />
+                    </button>
+                </div>
+            ))}
+            {datasets.length === 0 && !parsed && <p className="text-[10px] text-gray-400">导入后在 Data Source 中选择 Imported Dataset 即可用于新游戏</p>}
+        </div>
+    </div>
+  );
+};
+
+export default DatasetImportPanel;
@@ -1,7 +1,10 @@
-import React, { useEffect, useRef, useImperativeHandle, forwardRef } from 'react';
+import React, { useEffect, useRef, useState, useImperativeHandle, forwardRef } from 'react';
 import * as klinechartsModule from 'klinecharts';
-import { KLineData, Timeframe, GameSession, Trade } from '../types';
+import { KLineData, Timeframe, GameSession, Trade, PendingOrder } from '../types';
 import { getHigherTimeframe } from '../services/binanceService';
+import { getOpenPositions, summarizeExposure } from '../services/positionBook';
+import { getOrderLevel, describeOrder } from '../services/orderBook';
+import { getTakeProfits } from '../services/tradeManagement';
 import { FastForward } from 'lucide-react';
 
 const klinecharts = (klinechartsModule as any).default || klinechartsModule;
@@ -13,9 +16,16 @@ interface GameChartsProps {
   htfData: KLineData[];
   currentHtfCandle: KLineData | null;
   trades: Trade[]; // To redraw markers
+  crossLiquidationPrice?: number | null;
+  pendingOrders?: PendingOrder[];
+  onMoveOrder?: (orderId: string, price: number) => void;
+  // Set while TP/SL lines may be dragged (replay paused)
+  onModifyTrade?: (tradeId: string, field: 'TP' | 'SL', price: number, tpIndex?: number) => void;
   isReviewingHistory: boolean;
   onBackToLive: () => void;
   onCandleClick: (timestamp: number) => void;
+  hasMoreHistory?: { ltf: boolean; htf: boolean };
+  onLoadMore?: (pane: 'ltf' | 'htf') => void;
 }
 
 export interface GameChartsRef {
@@ -23,14 +33,67 @@ export interface GameChartsRef {
   getImages: () => { ltfImage?: string; htfImage?: string };
 }
 
+type DraggedLine =
+  | { kind: 'order'; id: string; price: number }
+  | { kind: 'trade'; id: string; field: 'TP' | 'SL'; tpIndex?: number; price: number };
+
+const NO_MORE_HISTORY = { ltf: false, htf: false };
+const NO_ORDERS: PendingOrder[] = [];
+
+// Older candles prepended to an otherwise unchanged series go through applyMoreData,
+// so the user's scroll position is kept while browsing history.
+const applySeries = (chart: any, appliedRef: React.MutableRefObject<KLineData[]>, data: KLineData[], more: boolean) => {
+  const prev = appliedRef.current;
+  const added = data.length - prev.length;
+  const isPrepend = prev.length > 0 && added > 0
+    && data[added].timestamp === prev[0].timestamp
+    && data[data.length - 1].timestamp === prev[prev.length - 1].timestamp;
+
+  if (isPrepend) chart.applyMoreData(data.slice(0, added), more);
+  else chart.applyNewData(data, more);
+  appliedRef.current = data;
+};
+
 const GameCharts = forwardRef<GameChartsRef, GameChartsProps>(({
   theme, session, ltfData, htfData, currentHtfCandle,
-  trades, isReviewingHistory, onBackToLive, onCandleClick
+  trades, crossLiquidationPrice = null, pendingOrders = NO_ORDERS, onMoveOrder, onModifyTrade, isReviewingHistory, onBackToLive, onCandleClick,
+  hasMoreHistory = NO_MORE_HISTORY, onLoadMore
 }, ref) => {
   const ltfChartRef = useRef<HTMLDivElement>(null);
   const htfChartRef = useRef<HTMLDivElement>(null);
   const ltfChartInstance = useRef<any>(null);
   const htfChartInstance = useRef<any>(null);
+  // Latest callback for the chart's loadMore subscription (registered once on mount)
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+  // What was last applied to each chart, to detect "older history prepended"
+  const appliedLtfRef = useRef<KLineData[]>([]);
+  const appliedHtfRef = useRef<KLineData[]>([]);
+  // Order / TP / SL line being dragged; committed on mouse/touch release (klinecharts has no move-end event)
+  const draggingLineRef = useRef<DraggedLine | null>(null);
+  const onMoveOrderRef = useRef(onMoveOrder);
+  onMoveOrderRef.current = onMoveOrder;
+  const onModifyTradeRef = useRef(onModifyTrade);
+  onModifyTradeRef.current = onModifyTrade;
+  // Bumped after every drag so a rejected move snaps the line back
+  const [dragVersion, setDragVersion] = useState(0);
+
+  useEffect(() => {
+      const commitDrag = () => {
+          const drag = draggingLineRef.current;
+          draggingLineRef.current = null;
+          if (!drag) return;
+          if (drag.kind === 'order') onMoveOrderRef.current?.(drag.id, drag.price);
+          else onModifyTradeRef.current?.(drag.id, drag.field, drag.price, drag.tpIndex);
+          setDragVersion(v => v + 1);
+      };
+      window.addEventListener('mouseup', commitDrag);
+      window.addEventListener('touchend', commitDrag);
+      return () => {
+          window.removeEventListener('mouseup', commitDrag);
+          window.removeEventListener('touchend', commitDrag);
+      };
+  }, []);
 
   // Expose methods
   useImperativeHandle(ref, () => ({
@@ -78,6 +141,10 @@ const GameCharts = forwardRef<GameChartsRef, GameChartsProps>(({
         // Setup Zoom/Scroll
         ltfChartInstance.current?.setZoomEnabled(true);
         ltfChartInstance.current?.setScrollEnabled(true);
+
+        // Lazy history: fired when the user scrolls to the left edge
+        ltfChartInstance.current?.loadMore(() => onLoadMoreRef.current?.('ltf'));
+        htfChartInstance.current?.loadMore(() => onLoadMoreRef.current?.('htf'));
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Run once on mount to create instances
@@ -122,7 +189,7 @@ const GameCharts = forwardRef<GameChartsRef, GameChartsProps>(({
       // Actually, standard klinecharts behavior with ApplyNewData is fine for small datasets (~1000).
       
       if (ltfChartInstance.current) {
-         ltfChartInstance.current.applyNewData(ltfData);
+         applySeries(ltfChartInstance.current, appliedLtfRef, ltfData, hasMoreHistory.ltf);
       }
       
       if (htfChartInstance.current) {
@@ -136,29 +203,44 @@ const GameCharts = forwardRef<GameChartsRef, GameChartsProps>(({
                  dataToRender.push(currentHtfCandle);
              }
          }
-         htfChartInstance.current.applyNewData(dataToRender);
+         applySeries(htfChartInstance.current, appliedHtfRef, dataToRender, hasMoreHistory.htf);
       }
-  }, [ltfData, htfData, currentHtfCandle]);
+  }, [ltfData, htfData, currentHtfCandle, hasMoreHistory]);
 
   // Draw Markers
+  const lastPrice = ltfData.length > 0 ? ltfData[ltfData.length - 1].close : 0;
+  const canModifyTrades = !!onModifyTrade;
+  // Shapes drawn by the uPnL effect, removed by id so the other markers survive a new candle
+  const pnlShapeIdsRef = useRef<string[]>([]);
   useEffect(() => {
       if (!ltfChartInstance.current) return;
       
       // Clear old shapes
       ltfChartInstance.current.removeShape();
       htfChartInstance.current?.removeShape();
+      pnlShapeIdsRef.current = [];
 
       trades.forEach(t => {
           // 1. Entry/TP/SL Lines for Open Trades
           if (t.status === 'OPEN') {
-             const shapes = [
+             // Draggable on the LTF chart only; the HTF copy stays locked
+             const dragHandler = (field: 'TP' | 'SL', tpIndex?: number) => ({ points }: any) => {
+                 const price = points?.[0]?.value;
+                 if (typeof price === 'number') draggingLineRef.current = { kind: 'trade', id: t.id, field, tpIndex, price };
+             };
+             const shapes: any[] = [
                 { id: `entry_${t.id}`, name: 'horizontalStraightLine', points: [{ timestamp: t.entryTime, value: t.entryPrice }], styles: { line: { color: 'rgba(250, 204, 21, 0.6)', style: 'dashed', dashValue: [6, 4], size: 1 } }, lock: true },
-                { id: `tp_${t.id}`, name: 'horizontalStraightLine', points: [{ timestamp: t.entryTime, value: t.tp }], styles: { line: { color: 'rgba(46, 189, 133, 0.5)', style: 'dashed', dashValue: [6, 4], size: 1 } }, lock: true },
-                { id: `sl_${t.id}`, name: 'horizontalStraightLine', points: [{ timestamp: t.entryTime, value: t.sl }], styles: { line: { color: 'rgba(246, 70, 93, 0.5)', style: 'dashed', dashValue: [6, 4], size: 1 } }, lock: true }
+                ...getTakeProfits(t).map((level, i) => ({ level, i })).filter(({ level }) => !level.filled).map(({ level, i }) => (
+                    { id: `tp_${t.id}_${i}`, name: 'horizontalStraightLine', points: [{ timestamp: t.entryTime, value: level.price }], styles: { line: { color: 'rgba(46, 189, 133, 0.5)', style: 'dashed', dashValue: [6, 4], size: 1 } }, lock: true, drag: dragHandler('TP', i) }
+                )),
+                { id: `sl_${t.id}`, name: 'horizontalStraightLine', points: [{ timestamp: t.entryTime, value: t.sl }], styles: { line: { color: 'rgba(246, 70, 93, 0.5)', style: 'dashed', dashValue: [6, 4], size: 1 } }, lock: true, drag: dragHandler('SL') }
              ];
-             shapes.forEach(s => {
+             if (t.marginMode === 'ISOLATED' && t.liquidationPrice) {
+                shapes.push({ id: `liq_${t.id}`, name: 'horizontalStraightLine', points: [{ timestamp: t.entryTime, value: t.liquidationPrice }], styles: { line: { color: 'rgba(249, 115, 22, 0.9)', style: 'solid', dashValue: [2, 2], size: 1 } }, lock: true });
+             }
+             shapes.forEach(({ drag, ...s }) => {
                  // @ts-ignore
-                 ltfChartInstance.current?.createShape(s);
+                 ltfChartInstance.current?.createShape(drag && canModifyTrades ? { ...s, lock: false, onPressedMove: drag } : s);
                  // @ts-ignore
                  htfChartInstance.current?.createShape(s);
              });
@@ -180,7 +262,84 @@ const GameCharts = forwardRef<GameChartsRef, GameChartsProps>(({
               ltfChartInstance.current?.createShape(exitShape);
           }
       });
-  }, [trades]);
+
+      // 3. Positions book: average entry per side (prices don't matter here, only the open positions)
+      const exposure = summarizeExposure(getOpenPositions(trades), 0);
+      const sides = [
+          { key: 'long', price: exposure.longAvgEntry, color: 'rgba(46, 189, 133, 0.9)', trades: exposure.positions.filter(p => p.trade.direction === 'LONG') },
+          { key: 'short', price: exposure.shortAvgEntry, color: 'rgba(246, 70, 93, 0.9)', trades: exposure.positions.filter(p => p.trade.direction === 'SHORT') }
+      ];
+      sides.filter(side => side.trades.length > 1).forEach(side => {
+          // @ts-ignore
+          ltfChartInstance.current?.createShape({
+              name: 'priceLine',
+              id: `avg_entry_${side.key}`,
+              points: [{ timestamp: Math.min(...side.trades.map(p => p.trade.entryTime)), value: side.price }],
+              styles: { line: { color: side.color, size: 1 }, text: { color: side.color } },
+              lock: true
+          });
+      });
+
+      // 4. Pending entry orders (draggable while trades can be modified)
+      pendingOrders.forEach(order => {
+          const color = order.direction === 'LONG' ? 'rgba(46, 189, 133, 0.9)' : 'rgba(246, 70, 93, 0.9)';
+          // @ts-ignore
+          ltfChartInstance.current?.createShape({
+              name: 'priceLine',
+              id: `order_${order.id}`,
+              points: [{ timestamp: order.createdAt, value: getOrderLevel(order) }],
+              styles: { line: { color, style: 'dashed', dashValue: [2, 2], size: 1 }, text: { color } },
+              lock: !canModifyTrades,
+              onPressedMove: canModifyTrades ? ({ points }: any) => {
+                  const price = points?.[0]?.value;
+                  if (typeof price === 'number') draggingLineRef.current = { kind: 'order', id: order.id, price };
+              } : undefined
+          });
+          // @ts-ignore
+          ltfChartInstance.current?.createShape({
+              name: 'text',
+              id: `order_label_${order.id}`,
+              points: [{ timestamp: order.createdAt, value: getOrderLevel(order) }],
+              styles: { text: { color, size: 11 } },
+              data: describeOrder(order),
+              lock: true
+          });
+      });
+
+      // 5. Shared liquidation line of the cross-margin positions
+      const crossTrades = exposure.positions.filter(p => p.trade.marginMode === 'CROSS');
+      if (crossLiquidationPrice && crossTrades.length > 0) {
+          // @ts-ignore
+          ltfChartInstance.current?.createShape({
+              name: 'priceLine',
+              id: 'liq_cross',
+              points: [{ timestamp: Math.min(...crossTrades.map(p => p.trade.entryTime)), value: crossLiquidationPrice }],
+              styles: { line: { color: 'rgba(249, 115, 22, 0.9)', size: 1 }, text: { color: 'rgba(249, 115, 22, 0.9)' } },
+              lock: true
+          });
+      }
+  }, [trades, crossLiquidationPrice, pendingOrders, canModifyTrades, dragVersion]);
+
+  // 3b. Unrealized PnL per position: the only markers that change with every candle.
+  // Also re-runs with the effect above, which clears every shape.
+  useEffect(() => {
+      const chart = ltfChartInstance.current;
+      if (!chart) return;
+      pnlShapeIdsRef.current.forEach(id => chart.removeShape(id));
+      const { positions } = summarizeExposure(getOpenPositions(trades), lastPrice);
+      pnlShapeIdsRef.current = positions.map(({ trade, unrealizedPnl }) => {
+          const id = `upnl_${trade.id}`;
+          chart.createShape({
+              name: 'text',
+              id,
+              points: [{ timestamp: trade.entryTime, value: trade.entryPrice }],
+              styles: { text: { color: unrealizedPnl >= 0 ? '#2ebd85' : '#f6465d', size: 12 } },
+              data: `${trade.direction === 'LONG' ? '▲' : '▼'} ${unrealizedPnl >= 0 ? '+' : ''}${unrealizedPnl.toFixed(2)}`,
+              lock: true
+          });
+          return id;
+      });
+  }, [trades, lastPrice, crossLiquidationPrice, pendingOrders, canModifyTrades, dragVersion]);
 
   return (
     <div className="flex-1 flex flex-col relative min-w-0 bg-gray-50 dark:bg-gray-900 border-r border-gray-200 dark:border-gray-800">
@@ -1,7 +1,11 @@
 import React, { useMemo } from 'react';
-import { Repeat, Trophy, Trash2, ArrowLeft, Eye } from 'lucide-react';
-import { GameSession, Trade } from '../types';
+import { Repeat, Trophy, Trash2, ArrowLeft, Eye, Brain, Loader2 } from 'lucide-react';
+import { CoachingProfile, GameSession, Trade } from '../types';
 import ConfirmDialog from './ConfirmDialog';
+import { totalCosts } from '../services/tradeCosts';
+import { summarizeScores, scoreColor } from '../services/tradeScoring';
+import ScoreBreakdown from './ScoreBreakdown';
+import { weaknessLabel, trendLabel } from '../services/coachingProfile';
 
 interface GameHistoryPanelProps {
   onClose: () => void;
@@ -10,10 +14,21 @@ interface GameHistoryPanelProps {
   onReplay: (session: GameSession) => void;
   onReview: (session: GameSession) => void;
   onDelete: (sessions: GameSession[]) => void;
+  profile?: CoachingProfile | null;
+  unassessedCount?: number; // Finished games not yet in the profile
+  isAssessing?: boolean;
+  onAssessPastGames?: () => void;
 }
 
+const TREND_STYLES: Record<string, string> = {
+  WORSE: 'text-red-500',
+  BETTER: 'text-green-500',
+  STABLE: 'text-gray-400'
+};
+
 const GameHistoryPanel: React.FC<GameHistoryPanelProps> = ({ 
-  onClose, sessions, tradesByGame, onReplay, onReview, onDelete
+  onClose, sessions, tradesByGame, onReplay, onReview, onDelete,
+  profile, unassessedCount = 0, isAssessing = false, onAssessPastGames
 }) => {
   const [confirmDelete, setConfirmDelete] = React.useState<{isOpen: boolean, sessions: GameSession[]} | null>(null);
   
@@ -22,7 +37,7 @@ const GameHistoryPanel: React.FC<GameHistoryPanelProps> = ({
     const groups: Record<string, GameSession[]> = {};
     const sorted = [...sessions].sort((a,b) => b.startTime - a.startTime);
     sorted.forEach(s => {
-        const key = `${s.symbol}_${s.timeframe}_${s.marketEndTime}`;
+        const key = `${s.dataSource || 'binance'}_${s.symbol}_${s.timeframe}_${s.marketEndTime}`;
         if (!groups[key]) groups[key] = [];
         groups[key].push(s);
     });
@@ -49,6 +64,17 @@ const GameHistoryPanel: React.FC<GameHistoryPanelProps> = ({
     });
   }, [sessions, tradesByGame]);
 
+  // AI 评分走势: oldest → newest session average, plus the career-wide rubric
+  const scoreTrend = useMemo(() => {
+    const perSession = [...sessions]
+      .sort((a, b) => a.startTime - b.startTime)
+      .map(s => ({ session: s, summary: summarizeScores(tradesByGame[s.id!] || []) }))
+      .filter(x => x.summary)
+      .slice(-12);
+    const overall = summarizeScores(Object.values(tradesByGame).flat());
+    return { perSession, overall };
+  }, [sessions, tradesByGame]);
+
   const handleDeleteClick = (e: React.MouseEvent, groupSessions: GameSession[]) => {
       e.stopPropagation();
       setConfirmDelete({ isOpen: true, sessions: groupSessions });
@@ -75,6 +101,65 @@ const GameHistoryPanel: React.FC<GameHistoryPanelProps> = ({
         </div>
 
         <div className="flex-1 overflow-y-auto p-3 space-y-3 custom-scrollbar bg-gray-50 dark:bg-gray-900/50">
+            {scoreTrend.overall && (
+                <div className="space-y-2">
+                    <ScoreBreakdown overall={scoreTrend.overall.overall} criteria={scoreTrend.overall.criteria} caption={`生涯 ${scoreTrend.overall.count} 笔`} />
+                    {scoreTrend.perSession.length > 1 && (
+                        <div className="bg-white dark:bg-gray-950 border border-gray-200 dark:border-gray-800 rounded-lg p-3">
+                            <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-2">评分走势 (近 {scoreTrend.perSession.length} 局)</div>
+                            <div className="flex items-end gap-1 h-12">
+                                {scoreTrend.perSession.map(({ session, summary }) => (
+                                    <div
+                                        key={session.id}
+                                        className="flex-1 bg-indigo-400/70 dark:bg-indigo-500/60 rounded-t"
+                                        style={{ height: `${Math.max(summary!.overall * 10, 4)}%` }}
+                                        title={`${new Date(session.startTime).toLocaleDateString('zh-CN')} ${session.symbol} · ${summary!.overall.toFixed(1)}`}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+            {(profile?.weaknesses.length || unassessedCount > 0) ? (
+                <div className="bg-white dark:bg-gray-950 border border-gray-200 dark:border-gray-800 rounded-lg p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                        <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wider flex items-center gap-1">
+                            <Brain size={12} /> 你的常见弱点{profile?.assessedGames ? ` (${profile.assessedGames} 局)` : ''}
+                        </div>
+                        {unassessedCount > 0 && onAssessPastGames && (
+                            <button
+                                onClick={onAssessPastGames}
+                                disabled={isAssessing}
+                                className="text-[10px] flex items-center gap-1 px-2 py-0.5 rounded border border-indigo-300 dark:border-indigo-800 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 disabled:opacity-50"
+                            >
+                                {isAssessing && <Loader2 size={10} className="animate-spin" />}
+                                {isAssessing ? '分析中...' : `分析历史报告 (${unassessedCount})`}
+                            </button>
+                        )}
+                    </div>
+                    {profile?.weaknesses.length ? profile.weaknesses.slice(0, 6).map(w => (
+                        <div key={w.id} className="text-xs">
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="font-medium text-gray-800 dark:text-gray-200">{weaknessLabel(w.id)}</span>
+                                <span className="flex items-center gap-2 shrink-0">
+                                    {/* 近几局是否出现 (旧 → 新) */}
+                                    <span className="flex gap-0.5">
+                                        {w.recent.map((hit, i) => (
+                                            <span key={i} className={`w-1.5 h-1.5 rounded-full ${hit ? 'bg-red-400' : 'bg-gray-200 dark:bg-gray-700'}`} />
+                                        ))}
+                                    </span>
+                                    <span className="text-gray-500 font-mono">{w.count}/{profile.assessedGames}</span>
+                                    <span className={`text-[10px] ${TREND_STYLES[w.trend]}`}>{trendLabel(w.trend)}</span>
+                                </span>
+                            </div>
+                            {w.lastEvidence && <div className="text-[10px] text-gray-400 truncate" title={w.lastEvidence}>{w.lastEvidence}</div>}
+                        </div>
+                    )) : (
+                        <div className="text-xs text-gray-400">暂无记录，结束对局或分析历史报告后生成。</div>
+                    )}
+                </div>
+            ) : null}
             {groupedSessions.length === 0 ? (
                 <div className="flex flex-col items-center justify-center py-12 text-gray-400">
                     <Trophy size={48} className="mb-4 opacity-20" />
@@ -91,6 +176,11 @@ const GameHistoryPanel: React.FC<GameHistoryPanelProps> = ({
                                     <span className="text-[10px] bg-gray-200 dark:bg-gray-800 px-1.5 py-0.5 rounded text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-700">
                                         {latestSession.timeframe}
                                     </span>
+                                    {latestSession.dataSource && latestSession.dataSource !== 'binance' && (
+                                        <span className="text-[10px] bg-purple-100 dark:bg-purple-900/30 px-1.5 py-0.5 rounded text-purple-600 dark:text-purple-300 border border-purple-200 dark:border-purple-800">
+                                            {latestSession.dataSource}
+                                        </span>
+                                    )}
                                 </div>
                                 <div className="text-[10px] text-gray-500 mt-1">
                                     场景 ID: {key.slice(-6)} · 尝试次数: {count}
@@ -109,7 +199,9 @@ const GameHistoryPanel: React.FC<GameHistoryPanelProps> = ({
                             {sessions.map(s => {
                                 const trades = tradesByGame[s.id!] || [];
                                 const sPnl = trades.reduce((sum, t) => sum + t.pnl, 0);
+                                const sCosts = trades.reduce((sum, t) => sum + totalCosts(t), 0);
                                 const isProfit = sPnl >= 0;
+                                const sScore = summarizeScores(trades);
 
                                 return (
                                     <div key={s.id} className="p-3 flex items-center justify-between hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors">
@@ -118,8 +210,13 @@ const GameHistoryPanel: React.FC<GameHistoryPanelProps> = ({
                                                 {new Date(s.startTime).toLocaleString('zh-CN', {month:'2-digit', day:'2-digit', hour:'2-digit', minute:'2-digit'})}
                                             </span>
                                             <span className={`text-xs font-bold font-mono ${isProfit ? 'text-trade-profit' : 'text-trade-loss'}`}>
-                                                {isProfit ? '+' : ''}{sPnl.toFixed(0)} <span className="text-gray-400 font-normal">({trades.length} trades)</span>
+                                                {isProfit ? '+' : ''}{sPnl.toFixed(0)} <span className="text-gray-400 font-normal">({trades.length} trades{sCosts > 0 ? ` · 成本 ${sCosts.toFixed(0)}` : ''})</span>
                                             </span>
+                                            {sScore && (
+                                                <span className={`text-[10px] font-mono font-bold ${scoreColor(sScore.overall)}`}>
+                                                    AI 均分 {sScore.overall.toFixed(1)}
+                                                </span>
+                                            )}
                                         </div>
                                         
                                         <div className="flex items-center gap-2">
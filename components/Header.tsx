@@ -1,7 +1,7 @@
 import React from 'react';
 import { 
   Play, Pause, ChevronRight, TrendingUp, TrendingDown, 
-  Settings, History, Zap, Trophy, Calendar, Menu
+  Settings, History, Zap, Trophy, Calendar, Menu, XCircle, Repeat, Keyboard
 } from 'lucide-react';
 import { GameSession, Trade } from '../types';
 
@@ -15,8 +15,12 @@ interface HeaderProps {
   totalCandles: number;
   autoPlaySpeed: number;
   setAutoPlaySpeed: (val: number) => void;
-  activeTrade: Trade | null;
+  openPositions: Trade[];
   handleOpenTradeModal: (dir: 'LONG' | 'SHORT') => void;
+  activePosition: Trade | null; // Target of Close / Close 50% / Reverse
+  onClosePosition: (fraction: number) => void;
+  onReversePosition: () => void;
+  onShowHotkeys: () => void;
   loadHistoryAndShowPanel: () => void;
   setSidebarView: (view: any) => void;
   isMobile: boolean;
@@ -26,7 +30,8 @@ interface HeaderProps {
 const Header: React.FC<HeaderProps> = ({
   session, isPlaying, setIsPlaying, isReviewingHistory, nextCandle,
   currentDisplayIndex, totalCandles, autoPlaySpeed, setAutoPlaySpeed,
-  activeTrade, handleOpenTradeModal, loadHistoryAndShowPanel, setSidebarView,
+  openPositions, handleOpenTradeModal, activePosition, onClosePosition, onReversePosition, onShowHotkeys,
+  loadHistoryAndShowPanel, setSidebarView,
   isMobile, onToggleSidebar
 }) => {
   return (
@@ -46,6 +51,11 @@ const Header: React.FC<HeaderProps> = ({
                       <span className="bg-gray-100 dark:bg-gray-800 px-2 py-1 rounded text-gray-700 dark:text-white border border-gray-200 dark:border-gray-700 font-bold transition-colors">
                         {session.symbol.replace('USDT', '')}
                       </span>
+                      {openPositions.length > 0 && (
+                          <span className="bg-yellow-100 dark:bg-yellow-900/40 text-yellow-700 dark:text-yellow-400 px-2 py-1 rounded border border-yellow-200 dark:border-yellow-500/30 font-bold" title="Open positions">
+                              {openPositions.length} POS
+                          </span>
+                      )}
                       {session.parentSessionId && (
                           <span className="bg-blue-100 dark:bg-blue-900/50 text-blue-600 dark:text-blue-300 px-2 py-1 rounded border border-blue-200 dark:border-blue-500/30 font-bold hidden sm:inline-block">
                               Replay
@@ -97,17 +107,42 @@ const Header: React.FC<HeaderProps> = ({
       </div>
 
       <div className="flex items-center gap-3">
+           {activePosition && !isReviewingHistory && session?.status !== 'COMPLETED' && (
+              <div
+                  className="flex items-center gap-1 bg-gray-100 dark:bg-gray-800 p-1 rounded-lg border border-gray-200 dark:border-gray-700"
+                  title={`${activePosition.direction} @ ${activePosition.entryPrice.toFixed(2)}`}
+              >
+                  <button
+                      onClick={() => onClosePosition(1)}
+                      className="flex items-center gap-1 px-2 py-1 rounded text-xs font-bold text-gray-700 dark:text-gray-200 hover:bg-white dark:hover:bg-gray-700 transition-colors"
+                  >
+                      <XCircle size={14} /> <span className="hidden sm:inline">Close</span>
+                  </button>
+                  <button
+                      onClick={() => onClosePosition(0.5)}
+                      className="px-2 py-1 rounded text-xs font-bold text-gray-700 dark:text-gray-200 hover:bg-white dark:hover:bg-gray-700 transition-colors"
+                  >
+                      50%
+                  </button>
+                  <button
+                      onClick={onReversePosition}
+                      className="flex items-center gap-1 px-2 py-1 rounded text-xs font-bold text-gray-700 dark:text-gray-200 hover:bg-white dark:hover:bg-gray-700 transition-colors"
+                  >
+                      <Repeat size={14} /> <span className="hidden lg:inline">Reverse</span>
+                  </button>
+              </div>
+           )}
            <div className="flex gap-2">
               <button 
                   onClick={() => handleOpenTradeModal('LONG')}
-                  disabled={!!activeTrade || session?.status === 'COMPLETED' || isReviewingHistory}
+                  disabled={session?.status === 'COMPLETED' || isReviewingHistory}
                   className="flex items-center gap-1 px-3 py-1.5 bg-trade-profit hover:bg-emerald-600 disabled:opacity-30 disabled:cursor-not-allowed text-white font-bold rounded text-xs sm:text-sm transition-all shadow-[0_0_10px_rgba(46,189,133,0.3)]"
               >
                   <TrendingUp size={16} /> <span className="hidden sm:inline">Long</span>
               </button>
               <button 
                   onClick={() => handleOpenTradeModal('SHORT')}
-                  disabled={!!activeTrade || session?.status === 'COMPLETED' || isReviewingHistory}
+                  disabled={session?.status === 'COMPLETED' || isReviewingHistory}
                   className="flex items-center gap-1 px-3 py-1.5 bg-trade-loss hover:bg-rose-600 disabled:opacity-30 disabled:cursor-not-allowed text-white font-bold rounded text-xs sm:text-sm transition-all shadow-[0_0_10px_rgba(246,70,93,0.3)]"
               >
                   <TrendingDown size={16} /> <span className="hidden sm:inline">Short</span>
@@ -126,6 +161,10 @@ const Header: React.FC<HeaderProps> = ({
                   <span className="hidden lg:inline text-xs font-bold">Career</span>
               </button>
 
+              <button onClick={onShowHotkeys} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors text-gray-500 dark:text-gray-400" title="快捷键 (?)">
+                  <Keyboard size={18} />
+              </button>
+
               <button onClick={() => setSidebarView('SETTINGS')} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors relative text-gray-500 dark:text-gray-400">
                   <Settings size={18} />
               </button>
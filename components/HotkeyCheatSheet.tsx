@@ -0,0 +1,52 @@
+import React from 'react';
+import { Keyboard, X } from 'lucide-react';
+import { HotkeyConfig } from '../types';
+import { HOTKEY_ACTIONS, formatCombo } from '../services/hotkeys';
+
+interface HotkeyCheatSheetProps {
+  isOpen: boolean;
+  config: HotkeyConfig;
+  onClose: () => void;
+  onEdit: () => void; // Jump to the rebinding tab in settings
+}
+
+const HotkeyCheatSheet: React.FC<HotkeyCheatSheetProps> = ({ isOpen, config, onClose, onEdit }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/80 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl max-w-sm w-full shadow-2xl p-6 relative"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-700 dark:hover:text-white transition-colors">
+          <X size={18} />
+        </button>
+        <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+          <Keyboard size={18} className="text-blue-500" /> 快捷键
+        </h3>
+        <div className="space-y-1.5">
+          {HOTKEY_ACTIONS.map(({ action, label }) => (
+            <div key={action} className="flex items-center justify-between text-sm">
+              <span className="text-gray-600 dark:text-gray-300">
+                {action === 'JUMP_BARS' ? `快进 ${config.jumpBars} 根` : label}
+              </span>
+              <kbd className={`px-2 py-0.5 rounded border text-xs font-mono font-bold ${config.bindings[action] ? 'bg-gray-100 dark:bg-gray-800 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-100' : 'border-dashed border-gray-300 dark:border-gray-700 text-gray-400'}`}>
+                {formatCombo(config.bindings[action])}
+              </kbd>
+            </div>
+          ))}
+        </div>
+        <p className="text-[10px] text-gray-500 mt-4">输入框内不会触发快捷键。</p>
+        <button
+          onClick={onEdit}
+          className="mt-3 w-full py-2 rounded-lg bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 font-bold text-xs hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+        >
+          修改按键
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default HotkeyCheatSheet;
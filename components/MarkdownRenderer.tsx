@@ -4,9 +4,10 @@ import remarkGfm from 'remark-gfm';
 
 interface Props {
   content: string;
+  streaming?: boolean; // Still being written: show a caret after the text
 }
 
-const MarkdownRenderer: React.FC<Props> = ({ content }) => {
+const MarkdownRenderer: React.FC<Props> = ({ content, streaming = false }) => {
   // Preprocess: Fix common AI output issue where table rows are not separated by newlines.
   // Replaces "| |" with "|\n|"
   const processedContent = React.useMemo(() => {
@@ -41,6 +42,7 @@ const MarkdownRenderer: React.FC<Props> = ({ content }) => {
       >
         {processedContent}
       </ReactMarkdown>
+      {streaming && <span className="inline-block w-1.5 h-4 -mb-0.5 bg-indigo-500 animate-pulse" />}
     </div>
   );
 };
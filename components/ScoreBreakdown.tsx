@@ -0,0 +1,36 @@
+import React from 'react';
+import { ScoreCriterion } from '../types';
+import { SCORE_CRITERIA, scoreColor } from '../services/tradeScoring';
+
+interface ScoreBreakdownProps {
+  overall: number;
+  criteria: Record<ScoreCriterion, number>;
+  verdict?: string;
+  caption?: string; // e.g. "5 笔均值"
+}
+
+// AI rubric: overall score plus one bar per criterion (0-10)
+const ScoreBreakdown: React.FC<ScoreBreakdownProps> = ({ overall, criteria, verdict, caption }) => (
+  <div className="bg-white dark:bg-gray-950 border border-indigo-100 dark:border-indigo-900/50 rounded-lg p-3">
+    <div className="flex items-baseline justify-between mb-2">
+      <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">AI 评分{caption ? ` · ${caption}` : ''}</span>
+      <span className={`font-mono font-black text-lg ${scoreColor(overall)}`}>
+        {overall.toFixed(1)}<span className="text-[10px] text-gray-400 font-normal">/10</span>
+      </span>
+    </div>
+    <div className="space-y-1">
+      {SCORE_CRITERIA.map(c => (
+        <div key={c.key} className="flex items-center gap-2 text-[10px]" title={c.hint}>
+          <span className="w-14 shrink-0 text-gray-500">{c.label}</span>
+          <div className="flex-1 h-1.5 bg-gray-200 dark:bg-gray-800 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${criteria[c.key] * 10}%` }} />
+          </div>
+          <span className={`w-6 text-right font-mono font-bold ${scoreColor(criteria[c.key])}`}>{criteria[c.key].toFixed(1)}</span>
+        </div>
+      ))}
+    </div>
+    {verdict && <p className="text-[11px] text-gray-600 dark:text-gray-300 mt-2 italic">“{verdict}”</p>}
+  </div>
+);
+
+export default ScoreBreakdown;
@@ -1,6 +1,18 @@
-import React, { useState, useEffect } from 'react';
-import { Settings, Cpu, Sliders, Moon, Sun, ArrowLeft } from 'lucide-react';
-import { Timeframe } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Settings, Cpu, Sliders, Moon, Sun, ArrowLeft, Database, Trash2, Keyboard, RotateCcw, Download, Upload, Plus, Copy, Plug, Loader2 } from 'lucide-react';
+import { Timeframe, MarketDataSource, ImportedDataset, TradeCostModel, IntrabarPolicy, HotkeyAction, HotkeyConfig, AppSettings, CoachPersona, LLMConfig, RuleCoachMode } from '../types';
+import { listMarketDataProviders } from '../services/marketDataProvider';
+import { getCandleCacheStats, clearCandleCache, CandleCacheStats } from '../services/candleCache';
+import { listDatasets } from '../services/datasetProvider';
+import { INTRABAR_POLICY_LABELS } from '../services/tradeManagement';
+import { HOTKEY_ACTIONS, DEFAULT_HOTKEYS, eventToCombo, formatCombo, rebindHotkey } from '../services/hotkeys';
+import { exportSettings, parseSettingsImport } from '../services/settingsStore';
+import { listLLMProviders, getLLMProvider, generateText } from '../services/llmProvider';
+import { RULE_COACH_MODES } from '../services/ruleCoach';
+import { PERSONA_TEMPLATE_VARS, DEFAULT_PERSONA_ID, listPersonas, findPersona, createPersona, duplicatePersona } from '../services/coachPersonas';
+import DatasetImportPanel from './DatasetImportPanel';
+
+type SettingsTab = 'general' | 'data' | 'prompt' | 'hotkeys';
 
 interface SettingsModalProps {
   onClose: () => void;
@@ -8,40 +20,214 @@ interface SettingsModalProps {
   setConfigSymbol: (val: string) => void;
   configTimeframe: Timeframe;
   setConfigTimeframe: (val: Timeframe) => void;
-  customPrompt: string;
-  setCustomPrompt: (val: string) => void;
+  configDataSource: MarketDataSource;
+  setConfigDataSource: (val: MarketDataSource) => void;
+  configGameLength: number;
+  setConfigGameLength: (val: number) => void;
+  GAME_LENGTH_OPTIONS: number[];
+  configCostModel: TradeCostModel;
+  setConfigCostModel: (val: TradeCostModel) => void;
+  configIntrabarPolicy: IntrabarPolicy;
+  setConfigIntrabarPolicy: (val: IntrabarPolicy) => void;
+  configHotkeys: HotkeyConfig;
+  setConfigHotkeys: (val: HotkeyConfig) => void;
+  initialTab?: SettingsTab;
+  currentSettings: AppSettings; // Saved settings, for export
+  onImportSettings: (val: AppSettings) => void; // Applied and saved right away
+  configPersonas: CoachPersona[]; // User-created only
+  setConfigPersonas: (val: CoachPersona[]) => void;
+  configPersonaId: string;
+  setConfigPersonaId: (val: string) => void;
+  configLLM: LLMConfig;
+  setConfigLLM: (val: LLMConfig) => void;
+  configPostTradeReview: boolean;
+  setConfigPostTradeReview: (val: boolean) => void;
+  configRuleCoach: RuleCoachMode;
+  setConfigRuleCoach: (val: RuleCoachMode) => void;
   SUPPORTED_SYMBOLS: string[];
   SUPPORTED_TIMEFRAMES: Timeframe[];
   theme: 'dark' | 'light';
   setTheme: (val: 'dark' | 'light') => void;
 }
 
+const COST_FIELDS: { key: keyof TradeCostModel; label: string; step: number }[] = [
+  { key: 'makerFeePercent', label: 'Maker 费率 %', step: 0.005 },
+  { key: 'takerFeePercent', label: 'Taker 费率 %', step: 0.005 },
+  { key: 'fundingRatePercent', label: '资金费率 % / 周期', step: 0.005 },
+  { key: 'fundingIntervalHours', label: '资金费周期 (小时)', step: 1 },
+  { key: 'slippagePercent', label: '滑点 %', step: 0.005 }
+];
+
 const SettingsPanel: React.FC<SettingsModalProps> = ({
   onClose,
   configSymbol, setConfigSymbol,
   configTimeframe, setConfigTimeframe,
-  customPrompt, setCustomPrompt,
+  configDataSource, setConfigDataSource,
+  configGameLength, setConfigGameLength, GAME_LENGTH_OPTIONS,
+  configCostModel, setConfigCostModel,
+  configIntrabarPolicy, setConfigIntrabarPolicy,
+  configHotkeys, setConfigHotkeys, initialTab = 'general',
+  currentSettings, onImportSettings,
+  configPersonas, setConfigPersonas,
+  configPersonaId, setConfigPersonaId,
+  configLLM, setConfigLLM,
+  configPostTradeReview, setConfigPostTradeReview,
+  configRuleCoach, setConfigRuleCoach,
   SUPPORTED_SYMBOLS, SUPPORTED_TIMEFRAMES,
   theme, setTheme
 }) => {
-  const [activeTab, setActiveTab] = useState<'general' | 'prompt'>('general');
+  const [activeTab, setActiveTab] = useState<SettingsTab>(initialTab);
   
   const [localSymbol, setLocalSymbol] = useState(configSymbol);
   const [localTimeframe, setLocalTimeframe] = useState(configTimeframe);
-  const [localPrompt, setLocalPrompt] = useState(customPrompt);
+  const [localDataSource, setLocalDataSource] = useState(configDataSource);
+  const [localGameLength, setLocalGameLength] = useState(configGameLength);
+  const [localCostModel, setLocalCostModel] = useState(configCostModel);
+  const [localIntrabarPolicy, setLocalIntrabarPolicy] = useState(configIntrabarPolicy);
+  const [localHotkeys, setLocalHotkeys] = useState(configHotkeys);
+  const [capturingAction, setCapturingAction] = useState<HotkeyAction | null>(null);
+  const settingsFileRef = useRef<HTMLInputElement>(null);
+  const [settingsMessage, setSettingsMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const [localPersonas, setLocalPersonas] = useState(configPersonas);
+  const [localPersonaId, setLocalPersonaId] = useState(configPersonaId);
+  const [localLLM, setLocalLLM] = useState(configLLM);
+  const [localPostTradeReview, setLocalPostTradeReview] = useState(configPostTradeReview);
+  const [localRuleCoach, setLocalRuleCoach] = useState(configRuleCoach);
+  const [llmTest, setLlmTest] = useState<{ ok: boolean; text: string } | 'testing' | null>(null);
   const [localTheme, setLocalTheme] = useState(theme);
+  const [cacheStats, setCacheStats] = useState<CandleCacheStats | null>(null);
+  const [isClearingCache, setIsClearingCache] = useState(false);
+  const [datasets, setDatasets] = useState<ImportedDataset[]>([]);
+
+  const refreshCacheStats = () => {
+      getCandleCacheStats().then(setCacheStats).catch(e => console.warn(e));
+  };
+
+  useEffect(() => {
+      refreshCacheStats();
+      listDatasets().then(setDatasets).catch(e => console.warn(e));
+  }, []);
+
+  const handleClearCache = async () => {
+      setIsClearingCache(true);
+      await clearCandleCache();
+      setIsClearingCache(false);
+      refreshCacheStats();
+  };
 
   useEffect(() => {
       setLocalSymbol(configSymbol);
       setLocalTimeframe(configTimeframe);
-      setLocalPrompt(customPrompt);
+      setLocalDataSource(configDataSource);
+      setLocalGameLength(configGameLength);
+      setLocalCostModel(configCostModel);
+      setLocalIntrabarPolicy(configIntrabarPolicy);
+      setLocalHotkeys(configHotkeys);
+      setLocalPersonas(configPersonas);
+      setLocalPersonaId(configPersonaId);
+      setLocalLLM(configLLM);
+      setLocalPostTradeReview(configPostTradeReview);
+      setLocalRuleCoach(configRuleCoach);
       setLocalTheme(theme);
-  }, [configSymbol, configTimeframe, customPrompt, theme]);
+  }, [configSymbol, configTimeframe, configDataSource, configGameLength, configCostModel, configIntrabarPolicy, configHotkeys, configPersonas, configPersonaId, configLLM, configPostTradeReview, configRuleCoach, theme]);
+
+  const llmProvider = getLLMProvider(localLLM.provider);
+
+  const handleTestLLM = async () => {
+      setLlmTest('testing');
+      try {
+          const reply = await generateText({ system: 'You are a connectivity check.', prompt: '只回复 OK' }, localLLM);
+          setLlmTest({ ok: true, text: `连接成功：${reply.trim().slice(0, 60) || '(空回复)'}` });
+      } catch (err: any) {
+          setLlmTest({ ok: false, text: err?.message || '连接失败' });
+      }
+  };
+
+  const selectedPersona = findPersona(localPersonas, localPersonaId);
+
+  const addPersona = (persona: CoachPersona) => {
+      setLocalPersonas(prev => [...prev, persona]);
+      setLocalPersonaId(persona.id);
+  };
+
+  const updatePersona = (changes: Partial<CoachPersona>) => {
+      setLocalPersonas(prev => prev.map(p => p.id === localPersonaId ? { ...p, ...changes } : p));
+  };
+
+  const deletePersona = (id: string) => {
+      setLocalPersonas(prev => prev.filter(p => p.id !== id));
+      if (id === localPersonaId) setLocalPersonaId(DEFAULT_PERSONA_ID);
+  };
+
+  // Imported datasets are addressed by their symbol
+  const symbolOptions = useMemo(() => localDataSource === 'dataset'
+      ? Array.from(new Set(datasets.map(d => d.symbol)))
+      : SUPPORTED_SYMBOLS, [localDataSource, datasets, SUPPORTED_SYMBOLS]);
+
+  useEffect(() => {
+      if (symbolOptions.length > 0 && !symbolOptions.includes(localSymbol)) setLocalSymbol(symbolOptions[0]);
+  }, [symbolOptions, localSymbol]);
+
+  const handleExportSettings = () => {
+      const blob = new Blob([exportSettings(currentSettings)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `kline-master-settings-${new Date().toISOString().slice(0, 10)}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+  };
+
+  const handleImportSettings = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          onImportSettings(parseSettingsImport(await file.text()));
+          setSettingsMessage({ ok: true, text: `已导入 ${file.name}` });
+      } catch (err: any) {
+          setSettingsMessage({ ok: false, text: err?.message || '导入失败' });
+      }
+  };
+
+  // While rebinding, the next key press is captured before the app's shortcuts see it.
+  // Esc cancels, Backspace/Delete unbinds.
+  useEffect(() => {
+      if (!capturingAction) return;
+      const onKeyDown = (e: KeyboardEvent) => {
+          e.preventDefault();
+          e.stopPropagation();
+          if (e.key === 'Escape') return setCapturingAction(null);
+          if (e.key === 'Backspace' || e.key === 'Delete') {
+              setLocalHotkeys(prev => ({ ...prev, bindings: { ...prev.bindings, [capturingAction]: '' } }));
+              return setCapturingAction(null);
+          }
+          const combo = eventToCombo(e);
+          if (!combo) return; // Modifier alone: keep waiting
+          setLocalHotkeys(prev => rebindHotkey(prev, capturingAction, combo));
+          setCapturingAction(null);
+      };
+      window.addEventListener('keydown', onKeyDown, true);
+      return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [capturingAction]);
 
   const handleSave = () => {
     setConfigSymbol(localSymbol);
     setConfigTimeframe(localTimeframe);
-    setCustomPrompt(localPrompt);
+    setConfigDataSource(localDataSource);
+    setConfigGameLength(localGameLength);
+    setConfigCostModel(localCostModel);
+    setConfigIntrabarPolicy(localIntrabarPolicy);
+    setConfigHotkeys(localHotkeys);
+    if (localPersonas.some(p => !p.name.trim() || !p.prompt.trim())) {
+        setActiveTab('prompt');
+        return alert("人设名称和 Prompt 不能为空");
+    }
+    setConfigPersonas(localPersonas);
+    setConfigPersonaId(localPersonaId);
+    setConfigLLM(localLLM);
+    setConfigPostTradeReview(localPostTradeReview);
+    setConfigRuleCoach(localRuleCoach);
     setTheme(localTheme);
     onClose();
   };
@@ -73,6 +259,16 @@ const SettingsPanel: React.FC<SettingsModalProps> = ({
                     >
                         <Sliders size={14} /> General
                     </button>
+                    <button
+                        onClick={() => setActiveTab('data')}
+                        className={`flex-1 p-1.5 rounded transition-all flex items-center justify-center gap-2 text-xs font-bold ${
+                            activeTab === 'data' 
+                            ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow' 
+                            : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+                        }`}
+                    >
+                        <Database size={14} /> Data
+                    </button>
                     <button
                         onClick={() => setActiveTab('prompt')}
                         className={`flex-1 p-1.5 rounded transition-all flex items-center justify-center gap-2 text-xs font-bold ${
@@ -81,7 +277,17 @@ const SettingsPanel: React.FC<SettingsModalProps> = ({
                             : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
                         }`}
                     >
-                        <Cpu size={14} /> AI Prompt
+                        <Cpu size={14} /> AI Coach
+                    </button>
+                    <button
+                        onClick={() => setActiveTab('hotkeys')}
+                        className={`flex-1 p-1.5 rounded transition-all flex items-center justify-center gap-2 text-xs font-bold ${
+                            activeTab === 'hotkeys' 
+                            ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow' 
+                            : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+                        }`}
+                    >
+                        <Keyboard size={14} /> Keys
                     </button>
                 </div>
             </div>
@@ -112,6 +318,20 @@ const SettingsPanel: React.FC<SettingsModalProps> = ({
                         </div>
                     </div>
 
+                    <div className="bg-white dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                        <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">Data Source</label>
+                        <select 
+                            value={localDataSource}
+                            onChange={(e) => setLocalDataSource(e.target.value as MarketDataSource)}
+                            className="w-full bg-gray-50 dark:bg-gray-950 border border-gray-300 dark:border-gray-600 rounded-lg p-3 text-gray-900 dark:text-white focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none transition-all font-mono text-sm"
+                        >
+                            {listMarketDataProviders().map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                        <p className="text-[10px] text-gray-500 mt-2">
+                            {listMarketDataProviders().find(p => p.id === localDataSource)?.description}
+                        </p>
+                    </div>
+
                     <div className="bg-white dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
                         <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">Symbol</label>
                         <select 
@@ -119,7 +339,7 @@ const SettingsPanel: React.FC<SettingsModalProps> = ({
                             onChange={(e) => setLocalSymbol(e.target.value)}
                             className="w-full bg-gray-50 dark:bg-gray-950 border border-gray-300 dark:border-gray-600 rounded-lg p-3 text-gray-900 dark:text-white focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none transition-all font-mono text-sm"
                         >
-                            {SUPPORTED_SYMBOLS.map(s => <option key={s} value={s}>{s}</option>)}
+                            {symbolOptions.map(s => <option key={s} value={s}>{s}</option>)}
                         </select>
                     </div>
 
@@ -133,31 +353,358 @@ const SettingsPanel: React.FC<SettingsModalProps> = ({
                             {SUPPORTED_TIMEFRAMES.map(tf => <option key={tf} value={tf}>{tf}</option>)}
                         </select>
                     </div>
+
+                    <div className="bg-white dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                        <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">Game Length</label>
+                        <div className="grid grid-cols-3 gap-2">
+                            {GAME_LENGTH_OPTIONS.map(len => (
+                                <button
+                                    key={len}
+                                    onClick={() => setLocalGameLength(len)}
+                                    className={`p-2 rounded-lg border text-sm font-mono font-bold transition-all ${localGameLength === len ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-500 text-blue-600 dark:text-blue-300 ring-1 ring-blue-500' : 'bg-gray-50 dark:bg-gray-950 border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                                >
+                                    {len}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-gray-500 mt-2">可交易的 K 线根数 (超过 1000 根时自动分页拉取)</p>
+                    </div>
+
+                    <div className="bg-white dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                        <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">Trading Costs</label>
+                        <div className="grid grid-cols-2 gap-2">
+                            {COST_FIELDS.map(({ key, label, step }) => (
+                                <div key={key} className="bg-gray-50 dark:bg-gray-950 border border-gray-300 dark:border-gray-600 rounded-lg p-2 focus-within:border-blue-500">
+                                    <span className="text-[10px] text-gray-500 block">{label}</span>
+                                    <input
+                                        type="number" step={step}
+                                        value={localCostModel[key]}
+                                        onChange={(e) => setLocalCostModel({ ...localCostModel, [key]: parseFloat(e.target.value) || 0 })}
+                                        className="w-full bg-transparent text-sm font-mono font-bold text-gray-900 dark:text-white outline-none"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-gray-500 mt-2">止盈按 Maker 成交；市价开仓、止损和手动平仓按 Taker 成交并计算滑点。资金费率按持仓 K 线根数折算。</p>
+                    </div>
+
+                    <div className="bg-white dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                        <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">Intrabar Fills</label>
+                        <select
+                            value={localIntrabarPolicy}
+                            onChange={(e) => setLocalIntrabarPolicy(e.target.value as IntrabarPolicy)}
+                            className="w-full bg-gray-50 dark:bg-gray-950 border border-gray-300 dark:border-gray-600 rounded-lg p-3 text-gray-900 dark:text-white focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none transition-all font-mono text-sm"
+                        >
+                            {(Object.keys(INTRABAR_POLICY_LABELS) as IntrabarPolicy[]).map(p => (
+                                <option key={p} value={p}>{INTRABAR_POLICY_LABELS[p]}</option>
+                            ))}
+                        </select>
+                        <p className="text-[10px] text-gray-500 mt-2">同一根 K 线同时触及止损和止盈时的判定方式。OHLC 路径先走离开盘价更近的极值；1m 子K线会拉取该根 K 线内的 1 分钟数据，拉取失败时退回 OHLC 路径。</p>
+                    </div>
                 </div>
                 
                 <div className="p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-500/30 rounded text-xs text-blue-600 dark:text-blue-300">
-                    <p>💡 Gameplay changes (Symbol/Timeframe) will apply to the <strong>next new game</strong>.</p>
+                    <p>💡 Gameplay changes (Data Source/Symbol/Timeframe/Costs) will apply to the <strong>next new game</strong>.</p>
+                </div>
                 </div>
+            ) : activeTab === 'data' ? (
+                <div className="space-y-4">
+                    {/* Candle Cache */}
+                    <div className="bg-white dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                        <div className="flex items-center justify-between mb-3">
+                            <label className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider flex items-center gap-1.5">
+                                <Database size={12} /> K 线缓存
+                            </label>
+                            <button
+                                onClick={handleClearCache}
+                                disabled={isClearingCache || !cacheStats?.totalCandles}
+                                className="flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-40 transition-colors"
+                            >
+                                <Trash2 size={12} /> 清空
+                            </button>
+                        </div>
+                        {cacheStats ? (
+                            <>
+                                <div className="flex justify-between text-xs font-mono text-gray-600 dark:text-gray-300 mb-1">
+                                    <span>{cacheStats.totalCandles.toLocaleString()} / {cacheStats.maxCandles.toLocaleString()}</span>
+                                    <span>{((cacheStats.totalCandles / cacheStats.maxCandles) * 100).toFixed(1)}%</span>
+                                </div>
+                                <div className="h-1.5 bg-gray-200 dark:bg-gray-800 rounded-full overflow-hidden mb-3">
+                                    <div className="h-full bg-blue-500" style={{ width: `${Math.min(100, (cacheStats.totalCandles / cacheStats.maxCandles) * 100)}%` }}></div>
+                                </div>
+                                <div className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+                                    {cacheStats.series.map(s => (
+                                        <div key={`${s.symbol}_${s.interval}`} className="flex justify-between text-[10px] font-mono text-gray-500 dark:text-gray-400">
+                                            <span className="font-bold text-gray-700 dark:text-gray-300">{s.symbol} · {s.interval}</span>
+                                            <span>{s.count} 根 · {new Date(s.from).toLocaleDateString()} → {new Date(s.to).toLocaleDateString()}</span>
+                                        </div>
+                                    ))}
+                                    {cacheStats.series.length === 0 && <p className="text-[10px] text-gray-400">暂无缓存数据</p>}
+                                </div>
+                            </>
+                        ) : (
+                            <p className="text-[10px] text-gray-400">Loading...</p>
+                        )}
+                    </div>
+
+                    <DatasetImportPanel onDatasetsChange={setDatasets} />
+
+                    {/* Settings Backup */}
+                    <div className="bg-white dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                        <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-3">设置备份</label>
+                        <div className="grid grid-cols-2 gap-2">
+                            <button
+                                onClick={handleExportSettings}
+                                className="flex items-center justify-center gap-1.5 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-xs font-bold text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                            >
+                                <Download size={12} /> 导出 JSON
+                            </button>
+                            <button
+                                onClick={() => settingsFileRef.current?.click()}
+                                className="flex items-center justify-center gap-1.5 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-xs font-bold text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                            >
+                                <Upload size={12} /> 导入 JSON
+                            </button>
+                            <input ref={settingsFileRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportSettings} />
+                        </div>
+                        {settingsMessage && (
+                            <p className={`text-[10px] mt-2 ${settingsMessage.ok ? 'text-trade-profit' : 'text-trade-loss'}`}>{settingsMessage.text}</p>
+                        )}
+                        <p className="text-[10px] text-gray-500 mt-2">包含交易参数、成本模型、快捷键、AI 教练人设与主题。设置会自动保存在本地浏览器中。</p>
+                    </div>
+                </div>
+            ) : activeTab === 'hotkeys' ? (
+                <div className="space-y-4">
+                    <div className="bg-white dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                        <div className="flex items-center justify-between mb-3">
+                            <label className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider flex items-center gap-1.5">
+                                <Keyboard size={12} /> 快捷键
+                            </label>
+                            <button
+                                onClick={() => { setCapturingAction(null); setLocalHotkeys(DEFAULT_HOTKEYS); }}
+                                className="flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                            >
+                                <RotateCcw size={12} /> 恢复默认
+                            </button>
+                        </div>
+                        <div className="space-y-1.5">
+                            {HOTKEY_ACTIONS.map(({ action, label }) => (
+                                <div key={action} className="flex items-center justify-between text-xs">
+                                    <span className="text-gray-600 dark:text-gray-300">{label}</span>
+                                    <button
+                                        onClick={() => setCapturingAction(capturingAction === action ? null : action)}
+                                        className={`min-w-[6rem] px-2 py-1 rounded border font-mono font-bold transition-colors ${
+                                            capturingAction === action
+                                            ? 'border-blue-500 text-blue-600 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 animate-pulse'
+                                            : localHotkeys.bindings[action]
+                                                ? 'border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-100 bg-gray-50 dark:bg-gray-950 hover:border-blue-500'
+                                                : 'border-dashed border-gray-300 dark:border-gray-700 text-gray-400 hover:border-blue-500'
+                                        }`}
+                                    >
+                                        {capturingAction === action ? '按下新按键…' : formatCombo(localHotkeys.bindings[action])}
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-gray-500 mt-3">点击后按下新按键；Esc 取消，Backspace 解除绑定。已被占用的按键会从原动作上移除。</p>
+                    </div>
+
+                    <div className="bg-white dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                        <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">快进根数 (N)</label>
+                        <input
+                            type="number" min="1" max="500" step="1"
+                            value={localHotkeys.jumpBars}
+                            onChange={(e) => setLocalHotkeys({ ...localHotkeys, jumpBars: Math.max(1, parseInt(e.target.value) || 1) })}
+                            className="w-full bg-gray-50 dark:bg-gray-950 border border-gray-300 dark:border-gray-600 rounded-lg p-3 text-gray-900 dark:text-white focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none transition-all font-mono text-sm"
+                        />
+                        <p className="text-[10px] text-gray-500 mt-2">“快进 N 根”逐根推进，遇到成交会自动停下。</p>
+                    </div>
                 </div>
             ) : (
-                <div className="h-full flex flex-col">
+                <div className="h-full flex flex-col space-y-4">
+                <div className="bg-white dark:bg-gray-900 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                    <label className="block text-xs font-bold text-blue-500 dark:text-blue-400 uppercase mb-2">
+                        Model
+                    </label>
+                    <select
+                        value={localLLM.provider}
+                        onChange={(e) => { setLocalLLM({ ...localLLM, provider: e.target.value as LLMConfig['provider'], baseUrl: '', model: '' }); setLlmTest(null); }}
+                        className="w-full bg-gray-50 dark:bg-gray-950 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-xs text-gray-900 dark:text-white focus:border-blue-500 outline-none"
+                    >
+                        {listLLMProviders().map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                    <p className="text-[10px] text-gray-500 mt-1 mb-3">{llmProvider.description}</p>
+                    {localLLM.provider !== 'mock' && (
+                        <div className="grid grid-cols-2 gap-2">
+                            <input
+                                value={localLLM.baseUrl}
+                                onChange={(e) => setLocalLLM({ ...localLLM, baseUrl: e.target.value })}
+                                placeholder={llmProvider.defaultBaseUrl || 'Base URL (默认)'}
+                                className="col-span-2 bg-gray-50 dark:bg-gray-950 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-xs font-mono text-gray-900 dark:text-white focus:border-blue-500 outline-none"
+                            />
+                            <input
+                                value={localLLM.model}
+                                onChange={(e) => setLocalLLM({ ...localLLM, model: e.target.value })}
+                                placeholder={llmProvider.defaultModel}
+                                className="bg-gray-50 dark:bg-gray-950 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-xs font-mono text-gray-900 dark:text-white focus:border-blue-500 outline-none"
+                            />
+                            <input
+                                type="number" min="0" max="2" step="0.1"
+                                value={localLLM.temperature}
+                                onChange={(e) => setLocalLLM({ ...localLLM, temperature: Math.min(2, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                                title="Temperature"
+                                className="bg-gray-50 dark:bg-gray-950 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-xs font-mono text-gray-900 dark:text-white focus:border-blue-500 outline-none"
+                            />
+                            <input
+                                type="password" autoComplete="off"
+                                value={localLLM.apiKey}
+                                onChange={(e) => setLocalLLM({ ...localLLM, apiKey: e.target.value })}
+                                placeholder={llmProvider.requiresApiKey ? 'API Key' : 'API Key (可选)'}
+                                className="col-span-2 bg-gray-50 dark:bg-gray-950 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-xs font-mono text-gray-900 dark:text-white focus:border-blue-500 outline-none"
+                            />
+                            {/* 单价用于估算每局 AI 花费 (USD / 1M tokens，0 = 不计费) */}
+                            <input
+                                type="number" min="0" step="0.01"
+                                value={localLLM.inputPrice}
+                                onChange={(e) => setLocalLLM({ ...localLLM, inputPrice: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                title="输入单价 (USD / 1M tokens)"
+                                className="bg-gray-50 dark:bg-gray-950 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-xs font-mono text-gray-900 dark:text-white focus:border-blue-500 outline-none"
+                            />
+                            <input
+                                type="number" min="0" step="0.01"
+                                value={localLLM.outputPrice}
+                                onChange={(e) => setLocalLLM({ ...localLLM, outputPrice: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                title="输出单价 (USD / 1M tokens)"
+                                className="bg-gray-50 dark:bg-gray-950 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-xs font-mono text-gray-900 dark:text-white focus:border-blue-500 outline-none"
+                            />
+                            <p className="col-span-2 text-[10px] text-gray-500">上面两项为输入 / 输出单价 (USD 每百万 tokens)，用于估算每局 AI 花费；0 表示不计费。</p>
+                        </div>
+                    )}
+                    <button
+                        onClick={handleTestLLM}
+                        disabled={llmTest === 'testing'}
+                        className="mt-3 flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-700 text-xs font-bold text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 transition-colors"
+                    >
+                        {llmTest === 'testing' ? <Loader2 size={12} className="animate-spin" /> : <Plug size={12} />} 测试连接
+                    </button>
+                    {llmTest && llmTest !== 'testing' && (
+                        <p className={`text-[10px] mt-2 break-all ${llmTest.ok ? 'text-green-600 dark:text-green-400' : 'text-red-500'}`}>{llmTest.text}</p>
+                    )}
+                    <p className="text-[10px] text-gray-500 mt-2">API Key 只保存在本机浏览器，导出设置时不会包含。</p>
+                    <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300 cursor-pointer mt-3 pt-3 border-t border-gray-100 dark:border-gray-800">
+                        <input type="checkbox" checked={localPostTradeReview} onChange={(e) => setLocalPostTradeReview(e.target.checked)} />
+                        平仓后自动 AI 离场复盘 (结合价格路径与 MFE/MAE)
+                    </label>
+                    <div className="mt-3 pt-3 border-t border-gray-100 dark:border-gray-800">
+                        <label className="block text-xs text-gray-600 dark:text-gray-300 mb-1">离线规则教练</label>
+                        <select
+                            value={localRuleCoach}
+                            onChange={(e) => setLocalRuleCoach(e.target.value as RuleCoachMode)}
+                            className="w-full bg-gray-50 dark:bg-gray-950 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-xs text-gray-900 dark:text-white focus:border-blue-500 outline-none"
+                        >
+                            {(Object.keys(RULE_COACH_MODES) as RuleCoachMode[]).map(mode => <option key={mode} value={mode}>{RULE_COACH_MODES[mode]}</option>)}
+                        </select>
+                        <p className="text-[10px] text-gray-500 mt-1">按均线趋势、区间位置、成交量与盈亏比给出固定规则的点评和评分，不联网。始终使用时不支持追问与离场复盘。</p>
+                    </div>
+                </div>
+
+                <div>
+                    <div className="mb-2 flex justify-between items-end">
+                        <label className="block text-xs font-bold text-blue-500 dark:text-blue-400 uppercase">
+                            Coach Personas
+                        </label>
+                        <div className="flex gap-1">
+                            <button
+                                onClick={() => addPersona(createPersona())}
+                                className="flex items-center gap-1 px-2 py-1 rounded border border-gray-300 dark:border-gray-700 text-[10px] font-bold text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                            >
+                                <Plus size={12} /> 新建
+                            </button>
+                            <button
+                                onClick={() => addPersona(duplicatePersona(selectedPersona))}
+                                className="flex items-center gap-1 px-2 py-1 rounded border border-gray-300 dark:border-gray-700 text-[10px] font-bold text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                            >
+                                <Copy size={12} /> 复制
+                            </button>
+                        </div>
+                    </div>
+                    <div className="space-y-1.5">
+                        {listPersonas(localPersonas).map(p => (
+                            <div
+                                key={p.id}
+                                onClick={() => setLocalPersonaId(p.id)}
+                                className={`flex items-center justify-between gap-2 p-2.5 rounded-lg border cursor-pointer transition-all ${
+                                    p.id === localPersonaId
+                                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                                    : 'border-gray-200 dark:border-gray-800 hover:border-gray-300 dark:hover:border-gray-600'
+                                }`}
+                            >
+                                <div className="min-w-0">
+                                    <div className="text-xs font-bold text-gray-900 dark:text-white flex items-center gap-1.5">
+                                        {p.name || '未命名'}
+                                        {p.builtIn && <span className="text-[9px] font-normal text-gray-500 bg-gray-200 dark:bg-gray-800 px-1 rounded">内置</span>}
+                                    </div>
+                                    {p.description && <div className="text-[10px] text-gray-500 truncate">{p.description}</div>}
+                                </div>
+                                {!p.builtIn && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); deletePersona(p.id); }}
+                                        className="p-1 rounded text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 shrink-0"
+                                        title="删除"
+                                    >
+                                        <Trash2 size={12} />
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                    <p className="text-[10px] text-gray-500 mt-2">选中的人设用于新开的对局；进行中的对局可在看板里切换。</p>
+                </div>
+
+                {!selectedPersona.builtIn && (
+                    <div className="grid grid-cols-2 gap-2">
+                        <input
+                            value={selectedPersona.name}
+                            onChange={(e) => updatePersona({ name: e.target.value })}
+                            placeholder="名称"
+                            className="bg-gray-50 dark:bg-gray-950 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-xs text-gray-900 dark:text-white focus:border-blue-500 outline-none"
+                        />
+                        <input
+                            value={selectedPersona.description || ''}
+                            onChange={(e) => updatePersona({ description: e.target.value })}
+                            placeholder="简介 (可选)"
+                            className="bg-gray-50 dark:bg-gray-950 border border-gray-300 dark:border-gray-600 rounded-lg p-2 text-xs text-gray-900 dark:text-white focus:border-blue-500 outline-none"
+                        />
+                    </div>
+                )}
+
+                <div className="flex-1 flex flex-col">
                 <div className="mb-2 flex justify-between items-end">
                     <label className="block text-xs font-bold text-blue-500 dark:text-blue-400 uppercase">
                         System Prompt
                     </label>
                     <span className="text-[10px] text-gray-500 bg-gray-200 dark:bg-gray-800 px-1.5 py-0.5 rounded border border-gray-300 dark:border-gray-700">
-                        Markdown
+                        {selectedPersona.builtIn ? '只读 · 复制后可编辑' : 'Markdown'}
                     </span>
                 </div>
                 
                 <div className="flex-1 relative group min-h-[300px]">
                     <textarea
-                        className="w-full h-full bg-white dark:bg-gray-950 border border-gray-300 dark:border-gray-700 rounded-lg p-3 text-xs sm:text-sm font-mono text-gray-900 dark:text-gray-300 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none leading-relaxed resize-none shadow-inner custom-scrollbar"
+                        className="w-full h-full bg-white dark:bg-gray-950 border border-gray-300 dark:border-gray-700 rounded-lg p-3 text-xs sm:text-sm font-mono text-gray-900 dark:text-gray-300 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none leading-relaxed resize-none shadow-inner custom-scrollbar read-only:opacity-70"
                         placeholder="# Role Setup..."
-                        value={localPrompt}
-                        onChange={(e) => setLocalPrompt(e.target.value)}
+                        value={selectedPersona.prompt}
+                        readOnly={selectedPersona.builtIn}
+                        onChange={(e) => updatePersona({ prompt: e.target.value })}
                     />
                 </div>
+                <div className="mt-2 flex flex-wrap gap-1.5">
+                    {PERSONA_TEMPLATE_VARS.map(v => (
+                        <span key={v.key} className="text-[10px] text-gray-500" title={v.label}>
+                            <code className="font-mono text-blue-600 dark:text-blue-400 bg-gray-100 dark:bg-gray-800 px-1 rounded">{`{{${v.key}}}`}</code> {v.label}
+                        </span>
+                    ))}
+                </div>
+                </div>
                 </div>
             )}
             </div>
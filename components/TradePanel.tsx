@@ -1,20 +1,47 @@
 import React, { useState, useEffect } from 'react';
-import { FileText, TrendingUp, TrendingDown, Bot, Target, Hash, Percent, ArrowLeft, ChevronUp, ChevronDown, Zap, Sparkles } from 'lucide-react';
-import { Trade } from '../types';
+import { FileText, TrendingUp, TrendingDown, Bot, Target, Hash, Percent, ArrowLeft, ChevronUp, ChevronDown, Zap, Sparkles, Scale, Plus, X, CheckCircle2, XCircle, Repeat, Square, History, Loader2, AlertTriangle, RotateCw } from 'lucide-react';
+import { Trade, TradeTicket, AIResponse, CoachMessage, SizingMode, MarginMode, EntryOrderType, TrailingStopConfig } from '../types';
+import { SIZING_MODES, DEFAULT_SIZING_MODE, calcPositionSize, describeSizing } from '../services/positionSizing';
+import { ORDER_TYPE_LABELS } from '../services/orderBook';
+import { getTakeProfits, ATR_PERIOD, INTRABAR_POLICY_LABELS, EXIT_REASON_LABELS, describeModification, validateTicketLevels } from '../services/tradeManagement';
+import { initialStopDistance } from '../services/tradeExcursion';
+import { LEVERAGE_OPTIONS, DEFAULT_LEVERAGE, DEFAULT_MARGIN_MODE, MAINTENANCE_MARGIN_PERCENT, calcInitialMargin, calcIsolatedLiquidationPrice } from '../services/margin';
 import MarkdownRenderer from './MarkdownRenderer';
+import ScoreBreakdown from './ScoreBreakdown';
+import CoachChat from './CoachChat';
 
 interface TradePanelProps {
   onClose: () => void; // Now acts as "Back"
   // Create Mode Props
-  onConfirm?: (reason: string, tp: number, sl: number, preAnalysis?: string) => void;
-  onAnalyze?: (reason: string, tp: number, sl: number) => Promise<string>;
+  onConfirm?: (ticket: TradeTicket, preAnalysis?: AIResponse) => void;
+  onAnalyze?: (ticket: TradeTicket) => Promise<AIResponse>;
   currentPrice?: number;
   direction?: 'LONG' | 'SHORT';
   balance?: number; 
+  winRate?: number; // Historical win rate for Kelly sizing
+  freeMargin?: number;
+  entryFeePercent?: number; // Taker fee, counted in the liquidation preview
   // View Mode Props
   viewingTrade?: Trade | null;
+  onModifyTrade?: (field: 'TP' | 'SL', price: number) => void; // Open position, replay paused
+  onClosePosition?: (fraction: number, note?: string) => void; // Open position
+  onReversePosition?: (note?: string) => void;
   // AI Status
   isLoading?: boolean;
+  streamingText?: string; // AI answer received so far while isLoading
+  onCancelAnalysis?: () => void;
+  // Follow-up chat about the trade (view mode)
+  chatMessages?: CoachMessage[];
+  chatStreamText?: string;
+  isChatting?: boolean;
+  onAskCoach?: (question: string) => void;
+  onCancelChat?: () => void;
+  chatError?: string;
+  onRetryChat?: () => void;
+  // Post-trade review (closed trades)
+  isPostReviewing?: boolean;
+  onRequestPostReview?: () => void;
+  onRetryAnalysis?: () => void; // Trade whose entry review failed (view mode)
 }
 
 const DEFAULT_REASON_TEMPLATE = `# 交易计划\n\n**结构/形态**：\n\n**入场理由**：\n`;
@@ -26,17 +53,49 @@ const TradePanel: React.FC<TradePanelProps> = ({
   currentPrice = 0, 
   direction = 'LONG',
   balance = 0,
+  winRate = 0.5,
+  freeMargin = 0,
+  entryFeePercent = 0,
   viewingTrade,
-  isLoading = false
+  onModifyTrade,
+  onClosePosition,
+  onReversePosition,
+  isLoading = false,
+  streamingText = '',
+  onCancelAnalysis,
+  chatMessages = [],
+  chatStreamText = '',
+  isChatting = false,
+  onAskCoach,
+  onCancelChat,
+  chatError,
+  onRetryChat,
+  isPostReviewing = false,
+  onRequestPostReview,
+  onRetryAnalysis
 }) => {
   const [reason, setReason] = useState(DEFAULT_REASON_TEMPLATE);
   const [tp, setTp] = useState('');
   const [sl, setSl] = useState('');
+  const [sizingMode, setSizingMode] = useState<SizingMode>(DEFAULT_SIZING_MODE);
+  const [sizingValue, setSizingValue] = useState(String(SIZING_MODES.find(m => m.mode === DEFAULT_SIZING_MODE)!.defaultValue));
+  const [leverage, setLeverage] = useState(DEFAULT_LEVERAGE);
+  const [marginMode, setMarginMode] = useState<MarginMode>(DEFAULT_MARGIN_MODE);
+  const [orderType, setOrderType] = useState<EntryOrderType>('MARKET');
+  const [limitPrice, setLimitPrice] = useState('');
+  const [stopPrice, setStopPrice] = useState('');
+  const [expiryBars, setExpiryBars] = useState('');
+  // Exit management: partial TPs before the final `tp`, breakeven and trailing
+  const [partialTps, setPartialTps] = useState<{ price: string; percent: string }[]>([]);
+  const [breakevenAfterTp1, setBreakevenAfterTp1] = useState(true);
+  const [trailingMode, setTrailingMode] = useState<'NONE' | TrailingStopConfig['mode']>('NONE');
+  const [trailingValue, setTrailingValue] = useState('1');
+  const [exitNote, setExitNote] = useState('');
   
   // UI States
   // 默认展开，分析完后自动收起以展示 AI 结果
   const [isFormExpanded, setIsFormExpanded] = useState(true);
-  const [localAnalysis, setLocalAnalysis] = useState<string | null>(null);
+  const [localAnalysis, setLocalAnalysis] = useState<AIResponse | null>(null);
 
   // Loading Animation State
   const [loadingMsg, setLoadingMsg] = useState('Initializing AI...');
@@ -65,8 +124,13 @@ const TradePanel: React.FC<TradePanelProps> = ({
   }, [isLoading]);
 
   const isViewMode = !!viewingTrade;
+  const canModify = isViewMode && !!onModifyTrade;
   const activeDirection = isViewMode ? viewingTrade.direction : direction;
-  const activePrice = isViewMode ? viewingTrade.entryPrice : currentPrice;
+  // Pending orders are previewed at the level they will fill
+  const orderPrice = orderType === 'STOP' ? parseFloat(stopPrice) : orderType === 'MARKET' ? currentPrice : parseFloat(limitPrice);
+  const activePrice = isViewMode ? viewingTrade.entryPrice : (orderPrice || currentPrice);
+  const needsLimit = orderType === 'LIMIT' || orderType === 'STOP_LIMIT';
+  const needsStop = orderType === 'STOP' || orderType === 'STOP_LIMIT';
 
   // Calculate Derived Stats
   const numTp = parseFloat(tp) || activePrice;
@@ -77,9 +141,51 @@ const TradePanel: React.FC<TradePanelProps> = ({
   const rrRatio = risk > 0 ? (reward / risk).toFixed(2) : '0.00';
   
   // Position Size (Quantity)
-  const quantity = isViewMode 
-    ? viewingTrade.quantity 
-    : (balance * 0.5) / activePrice;
+  const preview = calcPositionSize({
+      mode: sizingMode, value: parseFloat(sizingValue) || 0, equity: balance,
+      entryPrice: activePrice, sl: numSl, tp: numTp, winRate
+  });
+  const quantity = isViewMode ? viewingTrade.quantity : preview.quantity;
+  const sizing = isViewMode ? viewingTrade.sizing : preview.sizing;
+
+  // Margin
+  const activeLeverage = isViewMode ? viewingTrade.leverage : leverage;
+  const activeMarginMode = isViewMode ? viewingTrade.marginMode : marginMode;
+  const requiredMargin = isViewMode ? viewingTrade.margin : calcInitialMargin(activePrice, quantity, leverage);
+  const liquidationPrice = isViewMode
+      ? viewingTrade.liquidationPrice
+      : marginMode === 'ISOLATED' ? calcIsolatedLiquidationPrice(direction, activePrice, leverage, MAINTENANCE_MARGIN_PERCENT, activePrice * entryFeePercent / 100) : undefined;
+
+  const partialLevels = partialTps
+      .map(p => ({ price: parseFloat(p.price), percent: parseFloat(p.percent) }))
+      .filter(l => l.price > 0 && l.percent > 0);
+  const partialPercent = partialLevels.reduce((acc, l) => acc + l.percent, 0);
+  const finalPercent = Math.max(0, 100 - partialPercent);
+
+  const buildTicket = (): TradeTicket => ({
+      takeProfits: partialLevels.length > 0
+          ? [...partialLevels, ...(finalPercent > 0 ? [{ price: parseFloat(tp), percent: finalPercent }] : [])]
+          : undefined,
+      breakevenAfterTp1: partialLevels.length > 0 && breakevenAfterTp1,
+      trailingStop: trailingMode !== 'NONE' && parseFloat(trailingValue) > 0 ? { mode: trailingMode, value: parseFloat(trailingValue) } : undefined,
+      reason, tp: parseFloat(tp), sl: parseFloat(sl),
+      sizingMode, sizingValue: parseFloat(sizingValue) || 0,
+      leverage, marginMode, orderType,
+      limitPrice: needsLimit ? parseFloat(limitPrice) : undefined,
+      stopPrice: needsStop ? parseFloat(stopPrice) : undefined,
+      expiryBars: orderType !== 'MARKET' && parseInt(expiryBars) > 0 ? parseInt(expiryBars) : undefined
+  });
+
+  const handleOrderTypeChange = (type: EntryOrderType) => {
+      setOrderType(type);
+      if (!limitPrice) setLimitPrice(currentPrice.toFixed(2));
+      if (!stopPrice) setStopPrice(currentPrice.toFixed(2));
+  };
+
+  const handleSizingModeChange = (mode: SizingMode) => {
+      setSizingMode(mode);
+      setSizingValue(String(SIZING_MODES.find(m => m.mode === mode)!.defaultValue));
+  };
 
   // Initialize Data
   useEffect(() => {
@@ -87,7 +193,10 @@ const TradePanel: React.FC<TradePanelProps> = ({
           setReason(viewingTrade.reason);
           setTp(viewingTrade.tp.toString());
           setSl(viewingTrade.sl.toString());
-          setLocalAnalysis(viewingTrade.aiComment || null);
+          setLocalAnalysis(viewingTrade.aiComment || viewingTrade.aiError
+              ? { comment: viewingTrade.aiComment || '', score: viewingTrade.aiScore, error: viewingTrade.aiError }
+              : null);
+          if (viewingTrade.status !== 'OPEN') setExitNote('');
           setIsFormExpanded(false); // 查看模式下默认收起表单，展示 AI 结果
       } else {
           // Reset for new trade only if we don't have a local analysis (prevent reset during re-renders)
@@ -110,7 +219,8 @@ const TradePanel: React.FC<TradePanelProps> = ({
       if (onAnalyze && !isLoading) {
           try {
             // 先展开表单让用户感觉是在基于当前输入分析（其实这里不用操作UI，只需调用逻辑）
-            const result = await onAnalyze(reason, parseFloat(tp), parseFloat(sl));
+            const result = await onAnalyze(buildTicket());
+            if (!result.comment && !result.error) return; // 还没出字就被取消了
             setLocalAnalysis(result);
             setIsFormExpanded(false); // 分析完成后，自动收起表单，最大化 AI 区域
           } catch (e) {
@@ -119,13 +229,53 @@ const TradePanel: React.FC<TradePanelProps> = ({
       }
   };
 
+  // TP edits the final target; partial levels are moved on the chart
+  const tpChanged = canModify && parseFloat(tp) !== viewingTrade!.tp;
+  const slChanged = canModify && parseFloat(sl) !== viewingTrade!.sl;
+  const handleModifyClick = () => {
+      if (!onModifyTrade) return;
+      if (tpChanged) onModifyTrade('TP', parseFloat(tp));
+      if (slChanged) onModifyTrade('SL', parseFloat(sl));
+  };
+
   // Handle "Execute" click
   const handleExecuteClick = () => {
     if (onConfirm) {
-        onConfirm(reason, parseFloat(tp), parseFloat(sl), localAnalysis || undefined);
+        const ticket = buildTicket();
+        const error = validateTicketLevels(ticket, direction, activePrice, liquidationPrice);
+        if (error) return alert(error);
+        // A failed analysis isn't passed on, so the trade gets reviewed again once opened
+        onConfirm(ticket, localAnalysis && !localAnalysis.error ? localAnalysis : undefined);
     }
   };
 
+  // 离场复盘: MFE / MAE in price and R, then the AI's verdict on the exit and the thesis
+  const postReview = viewingTrade?.postReview;
+  const stopDistance = viewingTrade ? initialStopDistance(viewingTrade) : 0;
+  const fmtExcursion = (v: number) => `${v.toFixed(2)}${stopDistance > 0 ? ` (${(v / stopDistance).toFixed(2)}R)` : ''}`;
+  const postReviewSection = isPostReviewing ? (
+      <div className="flex items-center gap-2 text-xs text-indigo-500 border-t border-indigo-100 dark:border-indigo-900/40 pt-3">
+          <Loader2 size={12} className="animate-spin" /> AI 正在离场复盘...
+      </div>
+  ) : postReview ? (
+      <div className="border-t border-indigo-100 dark:border-indigo-900/40 pt-3 space-y-2">
+          <div className="flex items-center justify-between text-[10px]">
+              <span className="font-bold text-gray-500 uppercase tracking-wider flex items-center gap-1"><History size={12} /> 离场复盘</span>
+              <span className="font-mono text-gray-500">
+                  MFE <span className="text-trade-profit font-bold">{fmtExcursion(postReview.mfe)}</span> · MAE <span className="text-trade-loss font-bold">{fmtExcursion(postReview.mae)}</span>
+              </span>
+          </div>
+          <MarkdownRenderer content={postReview.comment} />
+      </div>
+  ) : onRequestPostReview ? (
+      <button
+          onClick={onRequestPostReview}
+          className="w-full flex items-center justify-center gap-1.5 py-2 rounded-lg border border-dashed border-indigo-300 dark:border-indigo-700 text-xs font-bold text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 transition-colors"
+      >
+          <History size={12} /> AI 离场复盘
+      </button>
+  ) : null;
+
   const themeColor = activeDirection === 'LONG' ? 'text-trade-profit' : 'text-trade-loss';
   const themeBg = activeDirection === 'LONG' ? 'bg-trade-profit' : 'bg-trade-loss';
   const themeBorder = activeDirection === 'LONG' ? 'border-trade-profit' : 'border-trade-loss';
@@ -164,7 +314,7 @@ const TradePanel: React.FC<TradePanelProps> = ({
                         className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg ${themeBg} text-white font-bold text-xs hover:opacity-90 transition-all shadow-md active:scale-95 disabled:opacity-50`}
                      >
                         <Zap size={14} fill="currentColor"/>
-                        <span>执行下单</span>
+                        <span>{orderType === 'MARKET' ? '执行下单' : '提交挂单'}</span>
                      </button>
                  </div>
              )}
@@ -196,6 +346,121 @@ const TradePanel: React.FC<TradePanelProps> = ({
                             </div>
                         </div>
 
+                        {/* Order Type */}
+                        {!isViewMode && (
+                            <div className="bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-2">
+                                <label className="text-[10px] font-bold text-gray-500 uppercase">订单类型</label>
+                                <div className="grid grid-cols-4 gap-1">
+                                    {(Object.keys(ORDER_TYPE_LABELS) as EntryOrderType[]).map(type => (
+                                        <button
+                                            key={type}
+                                            onClick={() => handleOrderTypeChange(type)}
+                                            className={`py-1 rounded text-[10px] font-bold transition-colors ${orderType === type ? 'bg-blue-600 text-white' : 'bg-gray-200 dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-gray-300 dark:hover:bg-gray-700'}`}
+                                        >
+                                            {ORDER_TYPE_LABELS[type]}
+                                        </button>
+                                    ))}
+                                </div>
+                                {orderType !== 'MARKET' && (
+                                    <div className="grid grid-cols-3 gap-2">
+                                        {needsStop && (
+                                            <div>
+                                                <span className="text-[10px] text-gray-500 block">触发价</span>
+                                                <input type="number" step="0.0001" value={stopPrice} onChange={(e) => setStopPrice(e.target.value)}
+                                                    className="w-full bg-transparent text-sm font-mono font-bold text-gray-900 dark:text-white outline-none border-b border-gray-300 dark:border-gray-700 focus:border-blue-500" />
+                                            </div>
+                                        )}
+                                        {needsLimit && (
+                                            <div>
+                                                <span className="text-[10px] text-gray-500 block">限价</span>
+                                                <input type="number" step="0.0001" value={limitPrice} onChange={(e) => setLimitPrice(e.target.value)}
+                                                    className="w-full bg-transparent text-sm font-mono font-bold text-gray-900 dark:text-white outline-none border-b border-gray-300 dark:border-gray-700 focus:border-blue-500" />
+                                            </div>
+                                        )}
+                                        <div>
+                                            <span className="text-[10px] text-gray-500 block">有效 K 线数</span>
+                                            <input type="number" min="0" step="1" placeholder="GTC" value={expiryBars} onChange={(e) => setExpiryBars(e.target.value)}
+                                                className="w-full bg-transparent text-sm font-mono font-bold text-gray-900 dark:text-white outline-none border-b border-gray-300 dark:border-gray-700 focus:border-blue-500" />
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Position Sizing */}
+                        <div className="bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-2">
+                            <label className="text-[10px] font-bold text-gray-500 uppercase flex items-center gap-1"><Scale size={10}/> 仓位模式</label>
+                            {!isViewMode && (
+                                <>
+                                    <div className="grid grid-cols-4 gap-1">
+                                        {SIZING_MODES.map(m => (
+                                            <button
+                                                key={m.mode}
+                                                onClick={() => handleSizingModeChange(m.mode)}
+                                                className={`py-1 rounded text-[10px] font-bold transition-colors ${sizingMode === m.mode ? 'bg-blue-600 text-white' : 'bg-gray-200 dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-gray-300 dark:hover:bg-gray-700'}`}
+                                            >
+                                                {m.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            type="number" min="0"
+                                            step={SIZING_MODES.find(m => m.mode === sizingMode)!.step}
+                                            value={sizingValue} onChange={(e) => setSizingValue(e.target.value)}
+                                            className="flex-1 min-w-0 bg-transparent text-sm font-mono font-bold text-gray-900 dark:text-white outline-none border-b border-gray-300 dark:border-gray-700 focus:border-blue-500"
+                                        />
+                                        <span className="text-[10px] text-gray-500 shrink-0">{SIZING_MODES.find(m => m.mode === sizingMode)!.unit}</span>
+                                    </div>
+                                </>
+                            )}
+                            <p className="text-[10px] font-mono text-gray-500 dark:text-gray-400">
+                                {sizing ? describeSizing(sizing) : '旧版记录 (无仓位信息)'}
+                            </p>
+                        </div>
+
+                        {/* Leverage / Margin */}
+                        <div className="bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-2">
+                            <div className="flex items-center justify-between">
+                                <label className="text-[10px] font-bold text-gray-500 uppercase">杠杆 / 保证金</label>
+                                {!isViewMode && (
+                                    <div className="flex bg-gray-200 dark:bg-gray-800 rounded p-0.5">
+                                        {(['ISOLATED', 'CROSS'] as MarginMode[]).map(m => (
+                                            <button
+                                                key={m}
+                                                onClick={() => setMarginMode(m)}
+                                                className={`px-2 py-0.5 rounded text-[10px] font-bold transition-colors ${marginMode === m ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow' : 'text-gray-500'}`}
+                                            >
+                                                {m === 'ISOLATED' ? '逐仓' : '全仓'}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                            {!isViewMode && (
+                                <div className="grid grid-cols-8 gap-1">
+                                    {LEVERAGE_OPTIONS.map(l => (
+                                        <button
+                                            key={l}
+                                            onClick={() => setLeverage(l)}
+                                            className={`py-1 rounded text-[10px] font-mono font-bold transition-colors ${leverage === l ? 'bg-orange-500 text-white' : 'bg-gray-200 dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-gray-300 dark:hover:bg-gray-700'}`}
+                                        >
+                                            {l}x
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                            <p className="text-[10px] font-mono text-gray-500 dark:text-gray-400">
+                                {activeLeverage ? (
+                                    <>
+                                        {activeLeverage}x {activeMarginMode === 'CROSS' ? '全仓' : '逐仓'} · 保证金 ${(requiredMargin || 0).toFixed(2)}
+                                        {!isViewMode && <span className={(requiredMargin || 0) > freeMargin ? 'text-trade-loss' : ''}> / 可用 ${freeMargin.toFixed(2)}</span>}
+                                        {' · '}强平 <span className="text-orange-500">{liquidationPrice ? liquidationPrice.toFixed(2) : activeMarginMode === 'CROSS' ? '随账户权益浮动' : '-'}</span>
+                                    </>
+                                ) : '旧版记录 (无杠杆信息)'}
+                            </p>
+                        </div>
+
                         {/* View Mode PNL Display */}
                         {isViewMode && viewingTrade && (
                             <div className="grid grid-cols-2 gap-3 animate-in fade-in">
@@ -208,31 +473,206 @@ const TradePanel: React.FC<TradePanelProps> = ({
                                 <div className="p-3 rounded border border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-900/50">
                                     <span className="text-[10px] text-gray-500 block">状态</span>
                                     <span className="text-sm font-bold text-gray-900 dark:text-white">{viewingTrade.status}</span>
+                                    {viewingTrade.exitReason && <span className="text-[10px] text-gray-500 ml-1">· {EXIT_REASON_LABELS[viewingTrade.exitReason]}</span>}
+                                </div>
+                                {viewingTrade.entryFee !== undefined && (
+                                    <div className="col-span-2 grid grid-cols-4 gap-2 text-[10px] font-mono text-gray-500 dark:text-gray-400">
+                                        <span>毛利 <b className="text-gray-700 dark:text-gray-300">{(viewingTrade.grossPnl ?? 0).toFixed(2)}</b></span>
+                                        <span>手续费 <b className="text-gray-700 dark:text-gray-300">{((viewingTrade.entryFee || 0) + (viewingTrade.exitFee || 0)).toFixed(2)}</b></span>
+                                        <span>资金费 <b className="text-gray-700 dark:text-gray-300">{(viewingTrade.fundingFee || 0).toFixed(2)}</b></span>
+                                        <span>滑点 <b className="text-gray-700 dark:text-gray-300">{(viewingTrade.slippage || 0).toFixed(2)}</b></span>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Manual Exit */}
+                        {isViewMode && onClosePosition && (
+                            <div className="bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-2">
+                                <label className="text-[10px] font-bold text-gray-500 uppercase block">手动离场 (按当前收盘价)</label>
+                                <input
+                                    type="text" value={exitNote} onChange={(e) => setExitNote(e.target.value)}
+                                    placeholder="离场理由 (可选)，如：跌破结构 / 量能衰竭"
+                                    className="w-full bg-transparent text-xs text-gray-900 dark:text-white outline-none border-b border-gray-300 dark:border-gray-700 focus:border-blue-500 py-1"
+                                />
+                                <div className="grid grid-cols-3 gap-2">
+                                    <button
+                                        onClick={() => onClosePosition(1, exitNote.trim() || undefined)}
+                                        className="flex items-center justify-center gap-1 py-1.5 rounded-lg bg-gray-800 dark:bg-gray-200 text-white dark:text-gray-900 text-xs font-bold hover:opacity-90 transition-opacity"
+                                    >
+                                        <XCircle size={12} /> 平仓
+                                    </button>
+                                    <button
+                                        onClick={() => onClosePosition(0.5, exitNote.trim() || undefined)}
+                                        className="py-1.5 rounded-lg bg-gray-200 dark:bg-gray-800 text-gray-700 dark:text-gray-300 text-xs font-bold hover:bg-gray-300 dark:hover:bg-gray-700 transition-colors"
+                                    >
+                                        平 50%
+                                    </button>
+                                    {onReversePosition && (
+                                        <button
+                                            onClick={() => onReversePosition(exitNote.trim() || undefined)}
+                                            className="flex items-center justify-center gap-1 py-1.5 rounded-lg bg-orange-500 text-white text-xs font-bold hover:bg-orange-600 transition-colors"
+                                        >
+                                            <Repeat size={12} /> 反手
+                                        </button>
+                                    )}
                                 </div>
                             </div>
                         )}
 
                         {/* Inputs Row */}
                         <div className="grid grid-cols-2 gap-4">
-                            <div className={`bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-gray-200 dark:border-gray-700 p-3 ${!isViewMode && 'focus-within:border-trade-profit transition-colors'}`}>
+                            <div className={`bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-gray-200 dark:border-gray-700 p-3 ${(!isViewMode || canModify) && 'focus-within:border-trade-profit transition-colors'}`}>
                                 <label className="text-[10px] font-bold text-gray-500 uppercase block mb-1">止盈 (TP)</label>
                                 <input
-                                    disabled={isViewMode}
+                                    disabled={isViewMode && !canModify}
                                     type="number" step="0.0001" required
                                     value={tp} onChange={(e) => setTp(e.target.value)}
                                     className="bg-transparent text-lg font-mono font-bold text-trade-profit outline-none w-full disabled:cursor-not-allowed"
                                 />
                             </div>
-                            <div className={`bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-gray-200 dark:border-gray-700 p-3 ${!isViewMode && 'focus-within:border-trade-loss transition-colors'}`}>
+                            <div className={`bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-gray-200 dark:border-gray-700 p-3 ${(!isViewMode || canModify) && 'focus-within:border-trade-loss transition-colors'}`}>
                                 <label className="text-[10px] font-bold text-gray-500 uppercase block mb-1">止损 (SL)</label>
                                 <input
-                                    disabled={isViewMode}
+                                    disabled={isViewMode && !canModify}
                                     type="number" step="0.0001" required
                                     value={sl} onChange={(e) => setSl(e.target.value)}
                                     className="bg-transparent text-lg font-mono font-bold text-trade-loss outline-none w-full disabled:cursor-not-allowed"
                                 />
                             </div>
                         </div>
+                        {(tpChanged || slChanged) && (
+                            <div className="flex gap-2 -mt-2">
+                                <button
+                                    onClick={handleModifyClick}
+                                    className="flex-1 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-xs font-bold transition-colors"
+                                >
+                                    更新止盈/止损
+                                </button>
+                                <button
+                                    onClick={() => { setTp(viewingTrade!.tp.toString()); setSl(viewingTrade!.sl.toString()); }}
+                                    className="px-3 py-1.5 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 text-xs font-bold hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                                >
+                                    还原
+                                </button>
+                            </div>
+                        )}
+                        {canModify && !tpChanged && !slChanged && (
+                            <p className="text-[10px] text-gray-500 -mt-2">暂停中：可直接修改，或在图表上拖动止盈/止损线</p>
+                        )}
+
+                        {/* Modification History */}
+                        {isViewMode && viewingTrade.modifications && viewingTrade.modifications.length > 0 && (
+                            <div className="bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+                                <label className="text-[10px] font-bold text-gray-500 uppercase block mb-1">改单记录</label>
+                                <div className="space-y-0.5 text-[10px] font-mono text-gray-600 dark:text-gray-400">
+                                    {viewingTrade.modifications.map((m, i) => (
+                                        <div key={i} className="flex justify-between">
+                                            <span>{describeModification(m)}</span>
+                                            <span className="text-gray-400">{new Date(m.time).toLocaleString([], { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' })}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Exit Management */}
+                        <div className="bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-2">
+                            <div className="flex items-center justify-between">
+                                <label className="text-[10px] font-bold text-gray-500 uppercase">出场管理</label>
+                                {!isViewMode && (
+                                    <button
+                                        onClick={() => setPartialTps([...partialTps, { price: tp, percent: '50' }])}
+                                        className="flex items-center gap-1 text-[10px] font-bold text-blue-600 dark:text-blue-400 hover:underline"
+                                    >
+                                        <Plus size={10} /> 分批止盈
+                                    </button>
+                                )}
+                            </div>
+                            {isViewMode ? (
+                                <div className="space-y-1 text-[10px] font-mono text-gray-600 dark:text-gray-400">
+                                    {getTakeProfits(viewingTrade).map((level, i) => (
+                                        <div key={i} className="flex items-center gap-1">
+                                            {level.filled ? <CheckCircle2 size={10} className="text-trade-profit" /> : <span className="w-2.5" />}
+                                            TP{i + 1} {level.price.toFixed(2)} · {level.percent.toFixed(0)}%
+                                        </div>
+                                    ))}
+                                    {viewingTrade.breakevenAfterTp1 && <div>TP1 后止损移至保本</div>}
+                                    {viewingTrade.trailingStop && (
+                                        <div>移动止损: {viewingTrade.trailingStop.mode === 'PERCENT' ? `${viewingTrade.trailingStop.value}%` : `${viewingTrade.trailingStop.value} × ATR(${ATR_PERIOD})`} · 当前止损 {viewingTrade.sl.toFixed(2)}</div>
+                                    )}
+                                </div>
+                            ) : (
+                                <>
+                                    {partialTps.map((row, i) => (
+                                        <div key={i} className="flex items-center gap-2 text-xs font-mono">
+                                            <span className="text-[10px] text-gray-500 w-8 shrink-0">TP{i + 1}</span>
+                                            <input type="number" step="0.0001" value={row.price}
+                                                onChange={(e) => setPartialTps(partialTps.map((r, j) => j === i ? { ...r, price: e.target.value } : r))}
+                                                className="flex-1 min-w-0 bg-transparent font-bold text-trade-profit outline-none border-b border-gray-300 dark:border-gray-700 focus:border-blue-500" />
+                                            <input type="number" min="0" max="100" step="5" value={row.percent}
+                                                onChange={(e) => setPartialTps(partialTps.map((r, j) => j === i ? { ...r, percent: e.target.value } : r))}
+                                                className="w-12 bg-transparent font-bold text-gray-900 dark:text-white outline-none border-b border-gray-300 dark:border-gray-700 focus:border-blue-500" />
+                                            <span className="text-[10px] text-gray-500">%</span>
+                                            <button onClick={() => setPartialTps(partialTps.filter((_, j) => j !== i))} className="text-gray-400 hover:text-red-500"><X size={12} /></button>
+                                        </div>
+                                    ))}
+                                    {partialTps.length > 0 && (
+                                        <>
+                                            <p className={`text-[10px] font-mono ${partialPercent > 100 ? 'text-trade-loss' : 'text-gray-500'}`}>
+                                                {partialPercent > 100 ? '分批比例合计超过 100%' : `最终 TP 平剩余 ${finalPercent.toFixed(0)}%`}
+                                            </p>
+                                            <label className="flex items-center gap-2 text-[10px] text-gray-600 dark:text-gray-400 cursor-pointer">
+                                                <input type="checkbox" checked={breakevenAfterTp1} onChange={(e) => setBreakevenAfterTp1(e.target.checked)} />
+                                                TP1 成交后止损移至保本
+                                            </label>
+                                        </>
+                                    )}
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-[10px] text-gray-500 shrink-0">移动止损</span>
+                                        <select
+                                            value={trailingMode}
+                                            onChange={(e) => setTrailingMode(e.target.value as typeof trailingMode)}
+                                            className="bg-transparent text-[10px] font-bold text-gray-700 dark:text-gray-300 outline-none border-b border-gray-300 dark:border-gray-700"
+                                        >
+                                            <option value="NONE">关闭</option>
+                                            <option value="PERCENT">百分比</option>
+                                            <option value="ATR">ATR 倍数</option>
+                                        </select>
+                                        {trailingMode !== 'NONE' && (
+                                            <>
+                                                <input type="number" min="0" step="0.1" value={trailingValue} onChange={(e) => setTrailingValue(e.target.value)}
+                                                    className="w-14 bg-transparent text-xs font-mono font-bold text-gray-900 dark:text-white outline-none border-b border-gray-300 dark:border-gray-700 focus:border-blue-500" />
+                                                <span className="text-[10px] text-gray-500">{trailingMode === 'PERCENT' ? '%' : `× ATR(${ATR_PERIOD})`}</span>
+                                            </>
+                                        )}
+                                    </div>
+                                </>
+                            )}
+                        </div>
+
+                        {/* Execution Legs */}
+                        {isViewMode && viewingTrade.legs && viewingTrade.legs.length > 0 && (
+                            <div className="bg-gray-50 dark:bg-gray-900/50 rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+                                <div className="flex justify-between items-center mb-1">
+                                    <label className="text-[10px] font-bold text-gray-500 uppercase">成交明细</label>
+                                    {viewingTrade.exitResolution && (
+                                        <span className="text-[10px] text-gray-400" title="同根 K 线止盈/止损的判定方式">判定: {INTRABAR_POLICY_LABELS[viewingTrade.exitResolution]}</span>
+                                    )}
+                                </div>
+                                <div className="space-y-0.5 text-[10px] font-mono text-gray-600 dark:text-gray-400">
+                                    {viewingTrade.legs.map((leg, i) => {
+                                        const legPnl = leg.grossPnl - leg.fee - leg.funding;
+                                        return (
+                                            <div key={i} className="flex justify-between">
+                                                <span title={leg.note || (leg.resolution ? INTRABAR_POLICY_LABELS[leg.resolution] : undefined)}>{leg.reason}{leg.tpIndex !== undefined ? leg.tpIndex + 1 : ''} · {leg.quantity.toFixed(4)} @ {leg.price.toFixed(2)}</span>
+                                                <span className={legPnl >= 0 ? 'text-trade-profit' : 'text-trade-loss'}>{legPnl >= 0 ? '+' : ''}{legPnl.toFixed(2)}</span>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        )}
                     </div>
                     
                     {/* Gap */}
@@ -275,10 +715,22 @@ const TradePanel: React.FC<TradePanelProps> = ({
                             Ready
                         </span>
                     )}
+                    {isLoading && onCancelAnalysis && (
+                        <button
+                            onClick={onCancelAnalysis}
+                            className="ml-auto flex items-center gap-1 text-[10px] font-bold text-gray-500 hover:text-red-500 border border-gray-300 dark:border-gray-700 px-2 py-0.5 rounded-full transition-colors"
+                        >
+                            <Square size={8} className="fill-current" /> 停止
+                        </button>
+                    )}
                 </div>
                 
                 <div className="flex-1 p-4 overflow-y-auto custom-scrollbar bg-gray-50/50 dark:bg-gray-900/50">
-                    {isLoading ? (
+                    {isLoading && streamingText ? (
+                        <div className="text-gray-800 dark:text-gray-200 text-sm leading-relaxed">
+                             <MarkdownRenderer content={streamingText} streaming />
+                        </div>
+                    ) : isLoading ? (
                         <div className="h-full flex flex-col items-center justify-center gap-6 p-6">
                             <div className="relative">
                                 <div className="absolute inset-0 bg-indigo-500 blur-2xl opacity-20 animate-pulse rounded-full"></div>
@@ -295,9 +747,34 @@ const TradePanel: React.FC<TradePanelProps> = ({
                                 </div>
                             </div>
                         </div>
-                    ) : (localAnalysis || (isViewMode && viewingTrade?.aiComment)) ? (
-                        <div className="text-gray-800 dark:text-gray-200 text-sm leading-relaxed animate-in fade-in slide-in-from-bottom-2">
-                             <MarkdownRenderer content={localAnalysis || viewingTrade?.aiComment || ""} />
+                    ) : localAnalysis || (isViewMode && postReviewSection) ? (
+                        <div className="text-gray-800 dark:text-gray-200 text-sm leading-relaxed animate-in fade-in slide-in-from-bottom-2 space-y-3">
+                             {localAnalysis?.score && (
+                                 <ScoreBreakdown overall={localAnalysis.score.overall} criteria={localAnalysis.score.criteria} verdict={localAnalysis.score.verdict} />
+                             )}
+                             {localAnalysis?.error ? (
+                                 <div className="rounded-lg border border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-900/20 p-3 space-y-2">
+                                     <p className="text-xs text-red-600 dark:text-red-400 flex items-start gap-1.5">
+                                         <AlertTriangle size={14} className="shrink-0 mt-0.5" /> AI 分析失败：{localAnalysis.error}
+                                     </p>
+                                     {(isViewMode ? onRetryAnalysis : onAnalyze) && (
+                                         <button
+                                             onClick={isViewMode ? onRetryAnalysis : handleAnalyzeClick}
+                                             className="flex items-center gap-1 text-[10px] font-bold px-2 py-1 rounded border border-red-300 dark:border-red-800 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors"
+                                         >
+                                             <RotateCw size={10} /> 重新分析
+                                         </button>
+                                     )}
+                                 </div>
+                             ) : localAnalysis ? <MarkdownRenderer content={localAnalysis.comment} /> : <p className="text-xs text-gray-400">暂无入场 AI 分析记录</p>}
+                             {isViewMode && postReviewSection}
+                             {isViewMode && localAnalysis?.comment && onAskCoach && (
+                                 <CoachChat
+                                     messages={chatMessages} streamingText={chatStreamText} loading={isChatting}
+                                     onSend={onAskCoach} onCancel={onCancelChat}
+                                     error={chatError} onRetry={onRetryChat}
+                                 />
+                             )}
                         </div>
                     ) : (
                         <div className="h-full flex flex-col items-center justify-center text-gray-400 dark:text-gray-600 gap-2 opacity-60">
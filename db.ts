@@ -1,9 +1,16 @@
 import Dexie, { Table } from 'dexie';
-import { GameSession, Trade } from './types';
+import { GameSession, Trade, CachedCandle, ImportedDataset, DatasetCandle, PendingOrder, SettingsRecord, CoachThread, GameAssessment } from './types';
 
 export class TradingSimDB extends Dexie {
   games!: Table<GameSession>;
   trades!: Table<Trade>;
+  candles!: Table<CachedCandle>;
+  datasets!: Table<ImportedDataset>;
+  datasetCandles!: Table<DatasetCandle>;
+  orders!: Table<PendingOrder>;
+  settings!: Table<SettingsRecord>;
+  threads!: Table<CoachThread>;
+  assessments!: Table<GameAssessment>;
 
   constructor() {
     super('KLineMasterDB');
@@ -12,8 +19,64 @@ export class TradingSimDB extends Dexie {
       games: '++id, startTime, status, symbol, marketEndTime, parentSessionId',
       trades: 'id, gameId, status, entryTime' 
     });
+    // Version 3: Local K-line cache in front of the market data API
+    (this as any).version(3).stores({
+      games: '++id, startTime, status, symbol, marketEndTime, parentSessionId',
+      trades: 'id, gameId, status, entryTime',
+      candles: '[symbol+interval+timestamp], [symbol+interval], cachedAt'
+    });
+    // Version 4: User-imported OHLCV datasets
+    (this as any).version(4).stores({
+      games: '++id, startTime, status, symbol, marketEndTime, parentSessionId',
+      trades: 'id, gameId, status, entryTime',
+      candles: '[symbol+interval+timestamp], [symbol+interval], cachedAt',
+      datasets: '++id, symbol, [symbol+interval], createdAt',
+      datasetCandles: '[datasetId+timestamp], datasetId'
+    });
+    // Version 5: Pending limit/stop entry orders
+    (this as any).version(5).stores({
+      games: '++id, startTime, status, symbol, marketEndTime, parentSessionId',
+      trades: 'id, gameId, status, entryTime',
+      candles: '[symbol+interval+timestamp], [symbol+interval], cachedAt',
+      datasets: '++id, symbol, [symbol+interval], createdAt',
+      datasetCandles: '[datasetId+timestamp], datasetId',
+      orders: 'id, gameId, status'
+    });
+    // Version 6: Persisted settings profile (field-level upgrades live in services/settingsStore.ts)
+    (this as any).version(6).stores({
+      games: '++id, startTime, status, symbol, marketEndTime, parentSessionId',
+      trades: 'id, gameId, status, entryTime',
+      candles: '[symbol+interval+timestamp], [symbol+interval], cachedAt',
+      datasets: '++id, symbol, [symbol+interval], createdAt',
+      datasetCandles: '[datasetId+timestamp], datasetId',
+      orders: 'id, gameId, status',
+      settings: 'id'
+    });
+    // Version 7: Follow-up chat threads with the AI coach
+    (this as any).version(7).stores({
+      games: '++id, startTime, status, symbol, marketEndTime, parentSessionId',
+      trades: 'id, gameId, status, entryTime',
+      candles: '[symbol+interval+timestamp], [symbol+interval], cachedAt',
+      datasets: '++id, symbol, [symbol+interval], createdAt',
+      datasetCandles: '[datasetId+timestamp], datasetId',
+      orders: 'id, gameId, status',
+      settings: 'id',
+      threads: 'id, gameId, tradeId'
+    });
+    // Version 8: Per-game weakness assessments (cross-game coaching profile)
+    (this as any).version(8).stores({
+      games: '++id, startTime, status, symbol, marketEndTime, parentSessionId',
+      trades: 'id, gameId, status, entryTime',
+      candles: '[symbol+interval+timestamp], [symbol+interval], cachedAt',
+      datasets: '++id, symbol, [symbol+interval], createdAt',
+      datasetCandles: '[datasetId+timestamp], datasetId',
+      orders: 'id, gameId, status',
+      settings: 'id',
+      threads: 'id, gameId, tradeId',
+      assessments: 'gameId, time'
+    });
     // Keep version 1 for backward compatibility if needed (Dexie handles upgrades usually)
   }
 }
 
-export const db = new TradingSimDB();
\ No newline at end of file
+export const db = new TradingSimDB();
@@ -1,6 +1,8 @@
 import { KLineData, Timeframe } from '../types';
+import { getCachedCandles, putCachedCandles } from './candleCache';
+import type { MarketDataProvider } from './marketDataProvider';
 
-const BASE_URL = 'https://api.binance.com/api/v3';
+export const BINANCE_BASE_URL = 'https://api.binance.com/api/v3';
 
 // 强制默认使用 BTCUSDT
 const SYMBOLS = ['BTCUSDT'];
@@ -14,6 +16,7 @@ export const getRandomTimeframe = (): Timeframe => {
 
 export const getHigherTimeframe = (tf: Timeframe): Timeframe => {
   switch (tf) {
+    case Timeframe.M1: return Timeframe.M15;
     case Timeframe.M5: return Timeframe.M30;
     case Timeframe.M15: return Timeframe.H1;
     case Timeframe.M30: return Timeframe.H4;
@@ -25,6 +28,7 @@ export const getHigherTimeframe = (tf: Timeframe): Timeframe => {
 export const timeframeToMs = (tf: Timeframe): number => {
   const minute = 60 * 1000;
   switch (tf) {
+    case Timeframe.M1: return minute;
     case Timeframe.M5: return 5 * minute;
     case Timeframe.M15: return 15 * minute;
     case Timeframe.M30: return 30 * minute;
@@ -41,33 +45,80 @@ export const generateRandomMarketEndTime = (): number => {
   return Date.now() - Math.floor(Math.random() * (TWO_YEARS_MS * 0.8));
 };
 
+// Binance kline layout: [openTime, open, high, low, close, volume, closeTime, quoteVolume, ...]
+export const parseBinanceKlines = (rawData: any[][]): KLineData[] => rawData.map((d: any[]) => ({
+  timestamp: d[0],
+  open: parseFloat(d[1]),
+  high: parseFloat(d[2]),
+  low: parseFloat(d[3]),
+  close: parseFloat(d[4]),
+  volume: parseFloat(d[5]),
+  turnover: parseFloat(d[7])
+}));
+
+const fetchKlinesFromNetwork = async (baseUrl: string, symbol: string, interval: Timeframe, limit: number, startTime: number, endTime: number): Promise<KLineData[]> => {
+  const url = `${baseUrl}/klines?symbol=${symbol}&interval=${interval}&limit=${limit}&startTime=${startTime}&endTime=${endTime}`;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error('Network response was not ok');
+  return parseBinanceKlines(await response.json());
+};
+
 /**
  * 获取 K 线数据
  * If endTime is provided, it fetches data ending at or before that time.
+ * Reads the local candle cache first and only requests the missing range from Binance.
  */
-export const fetchMarketData = async (symbol: string, interval: Timeframe, limit: number = 1000, endTime?: number): Promise<KLineData[]> => {
+export const fetchMarketData = async (symbol: string, interval: Timeframe, limit: number = 1000, endTime?: number, baseUrl: string = BINANCE_BASE_URL): Promise<KLineData[]> => {
   
   // Use provided endTime or default to Now (should be handled by caller usually for consistency)
   const finalEndTime = endTime || Date.now();
+
+  // Binance klines are aligned to the interval, so the window is fully determined by endTime + limit
+  const intervalMs = timeframeToMs(interval);
+  const lastOpenTime = Math.floor(finalEndTime / intervalMs) * intervalMs;
+  const firstOpenTime = lastOpenTime - (limit - 1) * intervalMs;
+
+  const cached = await getCachedCandles(symbol, interval, firstOpenTime, lastOpenTime);
+  if (cached.length >= limit) return cached;
+
+  // Find the span of missing candles (gaps anywhere in the window)
+  const cachedTimes = new Set(cached.map(c => c.timestamp));
+  let gapStart = -1;
+  let gapEnd = -1;
+  for (let t = firstOpenTime; t <= lastOpenTime; t += intervalMs) {
+    if (cachedTimes.has(t)) continue;
+    if (gapStart === -1) gapStart = t;
+    gapEnd = t;
+  }
   
   try {
-    const url = `${BASE_URL}/klines?symbol=${symbol}&interval=${interval}&limit=${limit}&endTime=${finalEndTime}`;
-    const response = await fetch(url);
-    if (!response.ok) throw new Error('Network response was not ok');
-    
-    const rawData = await response.json();
-    
-    return rawData.map((d: any[]) => ({
-      timestamp: d[0],
-      open: parseFloat(d[1]),
-      high: parseFloat(d[2]),
-      low: parseFloat(d[3]),
-      close: parseFloat(d[4]),
-      volume: parseFloat(d[5]),
-      turnover: parseFloat(d[7])
-    }));
+    const gapLimit = Math.floor((gapEnd - gapStart) / intervalMs) + 1;
+    const fetched = await fetchKlinesFromNetwork(baseUrl, symbol, interval, gapLimit, gapStart, gapEnd);
+
+    // Never cache the candle that is still forming
+    const now = Date.now();
+    await putCachedCandles(symbol, interval, fetched.filter(c => c.timestamp + intervalMs <= now));
+
+    const merged = new Map<number, KLineData>();
+    cached.forEach(c => merged.set(c.timestamp, c));
+    fetched.forEach(c => merged.set(c.timestamp, c));
+    return Array.from(merged.values()).sort((a, b) => a.timestamp - b.timestamp);
   } catch (error) {
     console.error("Failed to fetch binance data", error);
-    return [];
+    // Offline: fall back to whatever the cache has
+    return cached;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Binance 现货行情 (baseUrl 可指向镜像或兼容接口)
+ */
+export const createBinanceProvider = (baseUrl: string = BINANCE_BASE_URL): MarketDataProvider => ({
+  id: 'binance',
+  name: 'Binance',
+  description: '真实 Binance 历史 K 线 (带本地缓存)',
+  fetchMarketData: (symbol, interval, limit, endTime) => fetchMarketData(symbol, interval, limit, endTime, baseUrl),
+  generateRandomMarketEndTime: async () => generateRandomMarketEndTime()
+});
+
+export const binanceProvider = createBinanceProvider();
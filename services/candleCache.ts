@@ -0,0 +1,74 @@
+import Dexie from 'dexie';
+import { db } from '../db';
+import { CachedCandle, KLineData, Timeframe } from '../types';
+
+// 超过上限后按写入时间淘汰最旧的 K 线 (约 20 万根 ≈ 数十 MB)
+export const MAX_CACHED_CANDLES = 200000;
+
+export interface CandleCacheStats {
+  totalCandles: number;
+  maxCandles: number;
+  series: { symbol: string; interval: Timeframe; count: number; from: number; to: number }[];
+}
+
+const toKLine = ({ symbol, interval, cachedAt, ...candle }: CachedCandle): KLineData => candle;
+
+/**
+ * 读取缓存中 [from, to] 区间内的 K 线 (按时间升序)
+ */
+export const getCachedCandles = async (symbol: string, interval: Timeframe, from: number, to: number): Promise<KLineData[]> => {
+  try {
+    const rows = await db.candles
+      .where('[symbol+interval+timestamp]')
+      .between([symbol, interval, from], [symbol, interval, to], true, true)
+      .toArray();
+    return rows.map(toKLine);
+  } catch (error) {
+    console.warn("Failed to read candle cache", error);
+    return [];
+  }
+};
+
+/**
+ * 写入 K 线，并在超过容量时淘汰最旧的记录
+ */
+export const putCachedCandles = async (symbol: string, interval: Timeframe, candles: KLineData[]): Promise<void> => {
+  if (candles.length === 0) return;
+  const cachedAt = Date.now();
+  try {
+    await db.candles.bulkPut(candles.map(c => ({ ...c, symbol, interval, cachedAt })));
+    await enforceCacheLimit();
+  } catch (error) {
+    console.warn("Failed to write candle cache", error);
+  }
+};
+
+const enforceCacheLimit = async () => {
+  const total = await db.candles.count();
+  if (total <= MAX_CACHED_CANDLES) return;
+  // Evict a little more than needed so we don't prune on every write
+  const overflow = total - Math.floor(MAX_CACHED_CANDLES * 0.9);
+  const staleKeys = await db.candles.orderBy('cachedAt').limit(overflow).primaryKeys();
+  await db.candles.bulkDelete(staleKeys);
+};
+
+export const getCandleCacheStats = async (): Promise<CandleCacheStats> => {
+  const totalCandles = await db.candles.count();
+  const seriesKeys = await db.candles.orderBy('[symbol+interval]').uniqueKeys();
+
+  const series = await Promise.all(seriesKeys.map(async (key) => {
+    const [symbol, interval] = key as unknown as [string, Timeframe];
+    const collection = db.candles.where('[symbol+interval+timestamp]')
+      .between([symbol, interval, Dexie.minKey], [symbol, interval, Dexie.maxKey]);
+    const count = await collection.count();
+    const first = await collection.first();
+    const last = await collection.last();
+    return { symbol, interval, count, from: first?.timestamp || 0, to: last?.timestamp || 0 };
+  }));
+
+  return { totalCandles, maxCandles: MAX_CACHED_CANDLES, series };
+};
+
+export const clearCandleCache = async (): Promise<void> => {
+  await db.candles.clear();
+};
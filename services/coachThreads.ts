@@ -0,0 +1,56 @@
+import { db } from '../db';
+import { CoachMessage, CoachThread } from '../types';
+
+/**
+ * AI 教练追问对话
+ * A thread opens with the original review (request incl. screenshots + answer) as hidden
+ * context turns, so follow-up questions are answered with the same charts and candles in view.
+ */
+
+export const tradeThreadId = (tradeId: string) => `trade_${tradeId}`;
+export const gameThreadId = (gameId: number) => `game_${gameId}`;
+
+// New thread seeded with the review it follows up on
+export const createThread = (
+  id: string,
+  gameId: number,
+  context: CoachMessage,
+  answer: string,
+  tradeId?: string
+): CoachThread => ({
+  id,
+  gameId,
+  tradeId,
+  messages: [
+    { ...context, hidden: true },
+    { role: 'assistant', text: answer, time: context.time, hidden: true }
+  ],
+  updatedAt: Date.now()
+});
+
+export const appendMessages = (thread: CoachThread, ...messages: CoachMessage[]): CoachThread => ({
+  ...thread,
+  messages: [...thread.messages, ...messages],
+  updatedAt: Date.now()
+});
+
+// Turns shown in the chat (the seeded review is already displayed above it)
+export const visibleMessages = (thread?: CoachThread): CoachMessage[] =>
+  thread ? thread.messages.filter(m => !m.hidden) : [];
+
+export const loadThread = async (id: string): Promise<CoachThread | null> => {
+  try {
+    return (await db.threads.get(id)) || null;
+  } catch (error) {
+    console.warn("Failed to load coach thread", error);
+    return null;
+  }
+};
+
+export const saveThread = async (thread: CoachThread): Promise<void> => {
+  try {
+    await db.threads.put(thread);
+  } catch (error) {
+    console.warn("Failed to save coach thread", error);
+  }
+};
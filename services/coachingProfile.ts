@@ -0,0 +1,169 @@
+import { db } from '../db';
+import { CoachingProfile, GameAssessment, GameStats, ScoreCriterion, Trade, WeaknessId, WeaknessObservation, WeaknessTrend } from '../types';
+import { isRecord, summarizeScores } from './tradeScoring';
+import { calcPlannedRR } from './positionSizing';
+
+/**
+ * 跨局教练记忆
+ * Every finished game gets an assessment: weaknesses tagged by the AI from its final report,
+ * plus ones derived from the rubric scores and stats. The profile aggregates them over games
+ * (how often, getting better or worse) and goes into the coach's prompts.
+ */
+
+export const WEAKNESSES: { id: WeaknessId; label: string; hint: string }[] = [
+  { id: 'CHASING', label: '追涨杀跌', hint: '追突破 / 大阳线后才进场' },
+  { id: 'COUNTER_TREND', label: '逆大周期', hint: '与大周期趋势反向开仓' },
+  { id: 'POOR_LOCATION', label: '入场位置差', hint: '在区间中部或远离关键位入场' },
+  { id: 'LOW_RR', label: '盈亏比低', hint: '计划盈亏比不足' },
+  { id: 'TIGHT_STOPS', label: '止损过紧', hint: '止损放在噪音范围内，被扫后行情按原方向走' },
+  { id: 'WIDENING_STOPS', label: '放宽止损', hint: '持仓中把止损往不利方向挪' },
+  { id: 'EARLY_EXIT', label: '过早离场', hint: '拿不住利润，提前手动平仓' },
+  { id: 'OVERSIZING', label: '仓位过重', hint: '单笔风险超出纪律' },
+  { id: 'IGNORING_VOLUME', label: '忽视成交量', hint: '量能不配合仍然入场' },
+  { id: 'VAGUE_REASONING', label: '理由模糊', hint: '入场理由不清晰、不可验证' },
+  { id: 'OVERTRADING', label: '过度交易', hint: '频繁开单 / 报复性交易' }
+];
+
+const WEAKNESS_IDS = WEAKNESSES.map(w => w.id);
+export const weaknessLabel = (id: WeaknessId) => WEAKNESSES.find(w => w.id === id)?.label || id;
+
+export const TREND_WINDOW = 8; // Latest games shown / compared
+const RULE_SCORE_THRESHOLD = 5; // Average rubric score below this counts as a weakness
+const MAX_RISK_PERCENT = 3; // Single-trade risk above this counts as oversizing
+const MIN_PLANNED_RR = 1.5;
+
+// JSON Schema for the AI tagging pass over a final report
+export const WEAKNESS_SCHEMA = {
+  type: 'object',
+  properties: {
+    weaknesses: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', enum: WEAKNESS_IDS },
+          severity: { type: 'integer', minimum: 1, maximum: 3 },
+          evidence: { type: 'string', description: '报告中的依据 (一句话)' }
+        },
+        required: ['id', 'severity', 'evidence']
+      }
+    }
+  },
+  required: ['weaknesses']
+};
+
+// Keeps well-formed tags from the model's answer (already parsed JSON)
+export const pickWeaknessTags = (json: unknown): WeaknessObservation[] => {
+  if (!isRecord(json) || !Array.isArray(json.weaknesses)) return [];
+  return json.weaknesses.flatMap((w: unknown): WeaknessObservation[] => {
+    if (!isRecord(w)) return [];
+    const id = WEAKNESS_IDS.find(known => known === w.id);
+    if (!id) return [];
+    const severity = typeof w.severity === 'number' && isFinite(w.severity) ? Math.min(3, Math.max(1, Math.round(w.severity))) : 1;
+    return [{ id, severity, evidence: typeof w.evidence === 'string' ? w.evidence.trim() : undefined, source: 'AI' }];
+  });
+};
+
+const CRITERION_WEAKNESS: Record<ScoreCriterion, WeaknessId> = {
+  trendAlignment: 'COUNTER_TREND',
+  location: 'POOR_LOCATION',
+  riskReward: 'LOW_RR',
+  volume: 'IGNORING_VOLUME',
+  reasoning: 'VAGUE_REASONING'
+};
+
+// Weaknesses that follow from the numbers alone (no model involved)
+export const ruleBasedWeaknesses = (trades: Trade[], stats?: GameStats): WeaknessObservation[] => {
+  const found: WeaknessObservation[] = [];
+  const scores = summarizeScores(trades);
+  if (scores) {
+    (Object.keys(CRITERION_WEAKNESS) as ScoreCriterion[]).forEach(key => {
+      const avg = scores.criteria[key];
+      if (avg < RULE_SCORE_THRESHOLD) {
+        found.push({ id: CRITERION_WEAKNESS[key], severity: avg < 3 ? 3 : avg < 4 ? 2 : 1, evidence: `AI 评分均值 ${avg.toFixed(1)}/10`, source: 'RULE' });
+      }
+    });
+  }
+  if (stats?.htfTrendFollowRate != null && stats.htfTrendChecked >= 3 && stats.htfTrendFollowRate < 0.5) {
+    found.push({ id: 'COUNTER_TREND', severity: stats.htfTrendFollowRate < 0.3 ? 3 : 2, evidence: `顺大周期比例 ${(stats.htfTrendFollowRate * 100).toFixed(0)}%`, source: 'RULE' });
+  }
+  const widened = trades.filter(t => t.modifications?.some(m => m.field === 'SL' && (t.direction === 'LONG' ? m.to < m.from : m.to > m.from)));
+  if (widened.length) found.push({ id: 'WIDENING_STOPS', severity: Math.min(3, widened.length), evidence: `${widened.length} 笔放宽过止损`, source: 'RULE' });
+  const oversized = trades.filter(t => (t.sizing?.riskPercent || 0) > MAX_RISK_PERCENT);
+  if (oversized.length) found.push({ id: 'OVERSIZING', severity: Math.min(3, oversized.length), evidence: `${oversized.length} 笔单笔风险超过 ${MAX_RISK_PERCENT}%`, source: 'RULE' });
+  const planned = trades.map(t => calcPlannedRR(t.entryPrice, t.sl, t.tp)).filter(rr => rr > 0);
+  const avgRR = planned.length ? planned.reduce((acc, rr) => acc + rr, 0) / planned.length : null;
+  if (avgRR !== null && avgRR < MIN_PLANNED_RR) found.push({ id: 'LOW_RR', severity: avgRR < 1 ? 2 : 1, evidence: `平均计划盈亏比 ${avgRR.toFixed(2)}`, source: 'RULE' });
+  return found;
+};
+
+// One observation per weakness: highest severity wins, the AI's evidence is preferred
+export const mergeWeaknesses = (...lists: WeaknessObservation[][]): WeaknessObservation[] => {
+  const merged = new Map<WeaknessId, WeaknessObservation>();
+  lists.flat().forEach(w => {
+    const prev = merged.get(w.id);
+    if (!prev) return merged.set(w.id, w);
+    merged.set(w.id, {
+      ...prev,
+      severity: Math.max(prev.severity, w.severity),
+      evidence: prev.source === 'AI' ? prev.evidence || w.evidence : w.evidence || prev.evidence,
+      source: prev.source === 'AI' || w.source === 'AI' ? 'AI' : 'RULE'
+    });
+  });
+  return Array.from(merged.values());
+};
+
+export const buildCoachingProfile = (assessments: GameAssessment[]): CoachingProfile => {
+  const sorted = [...assessments].sort((a, b) => a.time - b.time);
+  const window = sorted.slice(-TREND_WINDOW);
+  const weaknesses: WeaknessTrend[] = WEAKNESS_IDS.flatMap(id => {
+    const hits = sorted.flatMap(a => a.weaknesses.filter(w => w.id === id));
+    if (!hits.length) return [];
+    const recent = window.map(a => a.weaknesses.some(w => w.id === id));
+    // Older half vs newer half of the window
+    const half = Math.floor(recent.length / 2);
+    const rate = (xs: boolean[]) => xs.length ? xs.filter(Boolean).length / xs.length : 0;
+    const delta = rate(recent.slice(half)) - rate(recent.slice(0, half));
+    return [{
+      id,
+      count: sorted.filter(a => a.weaknesses.some(w => w.id === id)).length,
+      maxSeverity: Math.max(...hits.map(w => w.severity)),
+      recent,
+      trend: recent.length < 4 || Math.abs(delta) < 0.25 ? 'STABLE' : delta > 0 ? 'WORSE' : 'BETTER',
+      lastEvidence: hits[hits.length - 1].evidence
+    }];
+  });
+  weaknesses.sort((a, b) => b.count - a.count || b.maxSeverity - a.maxSeverity);
+  return { assessedGames: sorted.length, weaknesses };
+};
+
+const TREND_LABELS: Record<WeaknessTrend['trend'], string> = { WORSE: '加重', BETTER: '改善中', STABLE: '持平' };
+export const trendLabel = (trend: WeaknessTrend['trend']) => TREND_LABELS[trend];
+
+/**
+ * Prompt section with the learner's recurring weaknesses ('' until one shows up in 2+ games).
+ */
+export const describeCoachingProfile = (profile?: CoachingProfile | null, limit = 5): string => {
+  const recurring = (profile?.weaknesses || []).filter(w => w.count >= 2).slice(0, limit);
+  if (!recurring.length) return '';
+  return `学员的历史常见弱点 (跨 ${profile!.assessedGames} 局的教练记忆)：
+${recurring.map(w => `- ${weaknessLabel(w.id)}：${w.count} 局出现，近期${trendLabel(w.trend)}${w.lastEvidence ? `（上次：${w.lastEvidence}）` : ''}`).join('\n')}
+如果这次又犯了，请直接点名是老毛病；如果有改善，请明确肯定。`;
+};
+
+export const loadAssessments = async (): Promise<GameAssessment[]> => {
+  try {
+    return await db.assessments.toArray();
+  } catch (error) {
+    console.warn("Failed to load assessments", error);
+    return [];
+  }
+};
+
+export const saveAssessment = async (assessment: GameAssessment): Promise<void> => {
+  try {
+    await db.assessments.put(assessment);
+  } catch (error) {
+    console.warn("Failed to save assessment", error);
+  }
+};
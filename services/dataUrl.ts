@@ -0,0 +1,11 @@
+/**
+ * Data URL 解析 (图表截图)
+ */
+export const parseDataUrl = (dataUrl: string): { mimeType: string; data: string } => {
+  // Data URL format: data:[<mediatype>][;base64],<data>
+  const matches = dataUrl.match(/^data:(.+);base64,(.+)$/);
+  if (matches) return { mimeType: matches[1], data: matches[2] };
+  // Fallback if regex fails (shouldn't happen for valid Data URLs)
+  const parts = dataUrl.split(',');
+  return { mimeType: 'image/jpeg', data: parts[1] || '' };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { parseDatasetFile, parseJsonDataset } from './datasetImport';
+
+describe('parseJsonDataset', () => {
+  it('rejects JSON without a candle array', () => {
+    ['null', '42', '"text"', '{}', '{"data": 1}', '[]'].forEach(text => {
+      expect(() => parseJsonDataset(text)).toThrow('JSON 中没有找到 K 线数组');
+    });
+  });
+
+  it('counts non-object rows as invalid', () => {
+    const rows = [null, 7, { time: 1704067200000, open: 1, high: 2, low: 0.5, close: 1.5 }, { time: 1704070800000, open: 1.5, high: 2, low: 1, close: 1.8 }];
+    const result = parseJsonDataset(JSON.stringify({ candles: rows }));
+    expect(result.candles).toHaveLength(2);
+    expect(result.invalidRows).toBe(2);
+    expect(result.interval).toBe('1h');
+  });
+
+  it('reads the Binance array layout', () => {
+    const result = parseJsonDataset(JSON.stringify([[1704067200000, '1', '2', '0.5', '1.5', '10'], 'junk']));
+    expect(result.candles[0]).toEqual({ timestamp: 1704067200000, open: 1, high: 2, low: 0.5, close: 1.5, volume: 10 });
+    expect(result.invalidRows).toBe(1);
+  });
+});
+
+describe('parseDatasetFile', () => {
+  it('reads compact date columns as dates, not epoch seconds', () => {
+    const csv = 'date,open,high,low,close\n20240101,1,2,0.5,1.5\n20240102,1.5,2,1,1.8';
+    const result = parseDatasetFile('daily.csv', csv);
+    expect(result.timestampUnit).toBe('compact');
+    expect(result.candles[0].timestamp).toBe(Date.UTC(2024, 0, 1));
+    expect(result.interval).toBe('1d');
+  });
+});
@@ -0,0 +1,220 @@
+import { KLineData, Timeframe } from '../types';
+import { timeframeToMs } from './binanceService';
+
+/**
+ * CSV / JSON OHLCV 解析
+ * Detects the column layout and timestamp unit, then normalizes rows into KLineData[].
+ */
+
+export type TimestampUnit = 's' | 'ms' | 'us' | 'iso' | 'compact'; // compact = YYYYMMDD[HHmm[ss]] (UTC)
+
+type OhlcvField = 'timestamp' | 'open' | 'high' | 'low' | 'close' | 'volume';
+
+export interface DatasetGap {
+  from: number; // timestamp of the candle before the gap
+  to: number; // timestamp of the candle after the gap
+  missing: number; // number of missing candles
+}
+
+export interface DatasetParseResult {
+  candles: KLineData[];
+  format: 'csv' | 'json';
+  columns: Partial<Record<OhlcvField, string>>; // detected source column for every field
+  timestampUnit: TimestampUnit;
+  intervalMs: number;
+  interval?: Timeframe; // undefined when the spacing matches no supported timeframe
+  duplicates: number;
+  invalidRows: number;
+  gaps: DatasetGap[];
+}
+
+const FIELD_ALIASES: Record<OhlcvField, string[]> = {
+  timestamp: ['timestamp', 'time', 'date', 'datetime', 'open_time', 'opentime', 'open time', 'ts', 't', 'unix'],
+  open: ['open', 'o', 'open_price'],
+  high: ['high', 'h', 'high_price'],
+  low: ['low', 'l', 'low_price'],
+  close: ['close', 'c', 'close_price', 'last'],
+  volume: ['volume', 'vol', 'v', 'base_volume']
+};
+
+// Column order used when there is no header (same as Binance klines)
+const POSITIONAL_FIELDS: OhlcvField[] = ['timestamp', 'open', 'high', 'low', 'close', 'volume'];
+
+const normalizeKey = (key: string) => key.trim().toLowerCase().replace(/^"|"$/g, '');
+
+const detectColumns = (keys: string[]): Partial<Record<OhlcvField, string>> => {
+  const columns: Partial<Record<OhlcvField, string>> = {};
+  (Object.keys(FIELD_ALIASES) as OhlcvField[]).forEach(field => {
+    const match = keys.find(k => FIELD_ALIASES[field].includes(normalizeKey(k)));
+    if (match !== undefined) columns[field] = match;
+  });
+  return columns;
+};
+
+// Earlier timestamps mean the unit was guessed wrong (e.g. a date column read as epoch seconds)
+const MIN_TIMESTAMP = Date.UTC(1990, 0, 1);
+
+// 20240101 / 202401010930 / 20240101093000 as UTC ms, NaN when it isn't a valid compact date
+const parseCompactDate = (value: unknown): number => {
+  const match = String(value).trim().match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?$/);
+  if (!match) return NaN;
+  const [year, month, day, hour, minute, second] = match.slice(1).map(v => Number(v || 0));
+  if (year < 1900 || month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 59) return NaN;
+  return Date.UTC(year, month - 1, day, hour, minute, second);
+};
+
+const detectTimestampUnit = (sample: unknown): TimestampUnit => {
+  const num = typeof sample === 'number' ? sample : Number(sample);
+  if (sample === '' || sample === null || sample === undefined || isNaN(num)) return 'iso';
+  // Compact date columns are numeric too, but would read as 1970 epoch seconds
+  if (isFinite(parseCompactDate(sample))) return 'compact';
+  if (num < 1e11) return 's';
+  if (num < 1e14) return 'ms';
+  return 'us';
+};
+
+const toMs = (value: unknown, unit: TimestampUnit): number => {
+  switch (unit) {
+    case 's': return Number(value) * 1000;
+    case 'ms': return Number(value);
+    case 'us': return Math.floor(Number(value) / 1000);
+    case 'iso': return Date.parse(String(value));
+    case 'compact': return parseCompactDate(value);
+  }
+};
+
+const splitCsvLine = (line: string, delimiter: string): string[] =>
+  line.split(delimiter).map(cell => cell.trim().replace(/^"|"$/g, ''));
+
+const detectDelimiter = (line: string): string => {
+  const candidates = [',', ';', '\t', '|'];
+  return candidates.reduce((best, d) => line.split(d).length > line.split(best).length ? d : best, ',');
+};
+
+const TIMEFRAME_VALUES = Object.values(Timeframe) as Timeframe[];
+
+export const inferTimeframe = (intervalMs: number): Timeframe | undefined =>
+  TIMEFRAME_VALUES.find(tf => timeframeToMs(tf) === intervalMs);
+
+// Most frequent spacing, so weekend/holiday gaps in stock data don't skew the result
+const typicalDelta = (candles: KLineData[]): number => {
+  const counts = new Map<number, number>();
+  for (let i = 1; i < candles.length; i++) {
+    const delta = candles[i].timestamp - candles[i - 1].timestamp;
+    counts.set(delta, (counts.get(delta) || 0) + 1);
+  }
+  let best = 0;
+  let bestCount = 0;
+  counts.forEach((count, delta) => {
+    if (count > bestCount || (count === bestCount && delta < best)) { best = delta; bestCount = count; }
+  });
+  return best;
+};
+
+const buildResult = (
+  rows: Record<OhlcvField, unknown>[],
+  format: 'csv' | 'json',
+  columns: Partial<Record<OhlcvField, string>>
+): DatasetParseResult => {
+  if (!columns.timestamp || !columns.open || !columns.high || !columns.low || !columns.close) {
+    throw new Error('无法识别 OHLC 列 (需要 timestamp/open/high/low/close)');
+  }
+  const timestampUnit = detectTimestampUnit(rows.find(r => r.timestamp !== undefined && r.timestamp !== '')?.timestamp);
+
+  let invalidRows = 0;
+  const byTime = new Map<number, KLineData>();
+  let duplicates = 0;
+  rows.forEach(r => {
+    const candle: KLineData = {
+      timestamp: toMs(r.timestamp, timestampUnit),
+      open: Number(r.open),
+      high: Number(r.high),
+      low: Number(r.low),
+      close: Number(r.close),
+      volume: r.volume !== undefined && r.volume !== '' ? Number(r.volume) : 0
+    };
+    const values = [candle.timestamp, candle.open, candle.high, candle.low, candle.close, candle.volume];
+    if (values.some(v => !isFinite(v)) || candle.high < candle.low || candle.timestamp < MIN_TIMESTAMP) {
+      invalidRows++;
+      return;
+    }
+    if (byTime.has(candle.timestamp)) duplicates++;
+    byTime.set(candle.timestamp, candle); // later rows win
+  });
+
+  const candles = Array.from(byTime.values()).sort((a, b) => a.timestamp - b.timestamp);
+  const intervalMs = typicalDelta(candles);
+
+  const gaps: DatasetGap[] = [];
+  if (intervalMs > 0) {
+    for (let i = 1; i < candles.length; i++) {
+      const delta = candles[i].timestamp - candles[i - 1].timestamp;
+      if (delta > intervalMs) {
+        gaps.push({ from: candles[i - 1].timestamp, to: candles[i].timestamp, missing: Math.round(delta / intervalMs) - 1 });
+      }
+    }
+  }
+
+  return { candles, format, columns, timestampUnit, intervalMs, interval: inferTimeframe(intervalMs), duplicates, invalidRows, gaps };
+};
+
+export const parseCsvDataset = (text: string): DatasetParseResult => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim().length > 0);
+  if (lines.length === 0) throw new Error('文件为空');
+
+  const delimiter = detectDelimiter(lines[0]);
+  const firstRow = splitCsvLine(lines[0], delimiter);
+  // Header rows have non-numeric cells after the first (timestamp) column
+  const hasHeader = firstRow.slice(1).some(cell => cell !== '' && isNaN(Number(cell)));
+
+  const header = hasHeader ? firstRow : firstRow.map((_, i) => POSITIONAL_FIELDS[i] || `col${i}`);
+  const columns = hasHeader
+    ? detectColumns(header)
+    : POSITIONAL_FIELDS.reduce((acc, f) => ({ ...acc, [f]: f }), {} as Partial<Record<OhlcvField, string>>);
+
+  const indexOf = (field: OhlcvField) => columns[field] !== undefined ? header.indexOf(columns[field]!) : -1;
+  const fieldIndex = POSITIONAL_FIELDS.map(f => [f, indexOf(f)] as const);
+
+  const rows = lines.slice(hasHeader ? 1 : 0).map(line => {
+    const cells = splitCsvLine(line, delimiter);
+    const row = {} as Record<OhlcvField, unknown>;
+    fieldIndex.forEach(([f, i]) => { row[f] = i >= 0 ? cells[i] : undefined; });
+    return row;
+  });
+
+  return buildResult(rows, 'csv', columns);
+};
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Rows that aren't arrays / objects become empty rows, which buildResult counts as invalid
+const EMPTY_ROW = {} as Record<OhlcvField, unknown>;
+
+export const parseJsonDataset = (text: string): DatasetParseResult => {
+  const parsed: unknown = JSON.parse(text);
+  const list = Array.isArray(parsed) ? parsed : isRecord(parsed) ? (parsed.data || parsed.candles || parsed.klines) : undefined;
+  if (!Array.isArray(list) || list.length === 0) throw new Error('JSON 中没有找到 K 线数组');
+
+  if (list.some(d => Array.isArray(d))) {
+    const columns = POSITIONAL_FIELDS.reduce((acc, f, i) => ({ ...acc, [f]: `[${i}]` }), {} as Partial<Record<OhlcvField, string>>);
+    const rows = list.map((d: unknown) => Array.isArray(d) ? { timestamp: d[0], open: d[1], high: d[2], low: d[3], close: d[4], volume: d[5] } : EMPTY_ROW);
+    return buildResult(rows, 'json', columns);
+  }
+
+  const first = list.find(isRecord);
+  if (!first) throw new Error('JSON 中没有找到 K 线数组');
+  const columns = detectColumns(Object.keys(first));
+  const rows = list.map((d: unknown) => {
+    if (!isRecord(d)) return EMPTY_ROW;
+    const row = {} as Record<OhlcvField, unknown>;
+    POSITIONAL_FIELDS.forEach(f => { row[f] = columns[f] !== undefined ? d[columns[f]!] : undefined; });
+    return row;
+  });
+  return buildResult(rows, 'json', columns);
+};
+
+export const parseDatasetFile = (fileName: string, text: string): DatasetParseResult => {
+  const trimmed = text.trimStart();
+  const looksLikeJson = fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('[') || trimmed.startsWith('{');
+  return looksLikeJson ? parseJsonDataset(text) : parseCsvDataset(text);
+};
@@ -0,0 +1,109 @@
+import Dexie from 'dexie';
+import { db } from '../db';
+import { ImportedDataset, KLineData, Timeframe } from '../types';
+import { generateRandomMarketEndTime, timeframeToMs } from './binanceService';
+import { DatasetParseResult } from './datasetImport';
+import type { MarketDataProvider } from './marketDataProvider';
+
+/**
+ * 导入数据集的存储与行情读取
+ * A dataset is stored at its native interval; coarser timeframes (e.g. the HTF chart)
+ * are resampled on the fly.
+ */
+
+export const saveDataset = async (
+  meta: { name: string; symbol: string; interval: Timeframe; sourceFileName: string },
+  parsed: DatasetParseResult
+): Promise<number> => {
+  const { candles } = parsed;
+  if (candles.length === 0) throw new Error('数据集为空');
+
+  return db.transaction('rw', db.datasets, db.datasetCandles, async () => {
+    // Re-importing a symbol + interval replaces the old dataset, so resolveDataset never has to pick between copies
+    const previous = await db.datasets.where('[symbol+interval]').equals([meta.symbol, meta.interval]).primaryKeys() as number[];
+    await db.datasetCandles.where('datasetId').anyOf(previous).delete();
+    await db.datasets.bulkDelete(previous);
+    const id = await db.datasets.add({
+      ...meta,
+      createdAt: Date.now(),
+      candleCount: candles.length,
+      firstTimestamp: candles[0].timestamp,
+      lastTimestamp: candles[candles.length - 1].timestamp,
+      gapCount: parsed.gaps.length
+    }) as number;
+    await db.datasetCandles.bulkAdd(candles.map(c => ({ ...c, datasetId: id })));
+    return id;
+  });
+};
+
+export const listDatasets = (): Promise<ImportedDataset[]> => db.datasets.orderBy('createdAt').reverse().toArray();
+
+export const deleteDataset = async (id: number): Promise<void> => {
+  await db.transaction('rw', db.datasets, db.datasetCandles, async () => {
+    await db.datasetCandles.where('datasetId').equals(id).delete();
+    await db.datasets.delete(id);
+  });
+};
+
+/**
+ * Finds the dataset for a symbol that can serve the requested interval:
+ * an exact match, otherwise the coarsest finer dataset that divides the interval evenly.
+ */
+const resolveDataset = async (symbol: string, interval: Timeframe): Promise<ImportedDataset | undefined> => {
+  const candidates = await db.datasets.where('symbol').equals(symbol).toArray();
+  const targetMs = timeframeToMs(interval);
+  return candidates
+    .filter(d => timeframeToMs(d.interval) <= targetMs && targetMs % timeframeToMs(d.interval) === 0)
+    .sort((a, b) => timeframeToMs(b.interval) - timeframeToMs(a.interval))[0];
+};
+
+const resample = (candles: KLineData[], intervalMs: number): KLineData[] => {
+  const buckets: KLineData[] = [];
+  candles.forEach(c => {
+    const start = Math.floor(c.timestamp / intervalMs) * intervalMs;
+    const last = buckets[buckets.length - 1];
+    if (last && last.timestamp === start) {
+      last.high = Math.max(last.high, c.high);
+      last.low = Math.min(last.low, c.low);
+      last.close = c.close;
+      last.volume += c.volume;
+    } else {
+      buckets.push({ timestamp: start, open: c.open, high: c.high, low: c.low, close: c.close, volume: c.volume });
+    }
+  });
+  return buckets;
+};
+
+export const datasetProvider: MarketDataProvider = {
+  id: 'dataset',
+  name: 'Imported Dataset',
+  description: '使用在设置中导入的 CSV/JSON 数据集 (Symbol 对应数据集名称)',
+  fetchMarketData: async (symbol, interval, limit, endTime) => {
+    try {
+      const dataset = await resolveDataset(symbol, interval);
+      if (!dataset) return [];
+      const ratio = timeframeToMs(interval) / timeframeToMs(dataset.interval);
+      const rows = await db.datasetCandles
+        .where('[datasetId+timestamp]')
+        .between([dataset.id!, Dexie.minKey], [dataset.id!, endTime || Date.now()], true, true)
+        .reverse()
+        .limit((limit + 1) * ratio)
+        .toArray();
+      const candles: KLineData[] = rows.reverse().map(({ datasetId, ...c }) => c);
+      return (ratio === 1 ? candles : resample(candles, timeframeToMs(interval))).slice(-limit);
+    } catch (error) {
+      console.error("Failed to read imported dataset", error);
+      return [];
+    }
+  },
+  generateRandomMarketEndTime: async (symbol, interval, limit) => {
+    const dataset = await resolveDataset(symbol, interval);
+    if (!dataset) return generateRandomMarketEndTime();
+    const ratio = timeframeToMs(interval) / timeframeToMs(dataset.interval);
+    // Same idea as generateRandomMarketEndTime: keep a full window of history before the anchor
+    const minIndex = Math.min(limit * ratio - 1, dataset.candleCount - 1);
+    const index = minIndex + Math.floor(Math.random() * (dataset.candleCount - minIndex));
+    const anchor = await db.datasetCandles.where('datasetId').equals(dataset.id!).offset(index).first();
+    return anchor ? anchor.timestamp : dataset.lastTimestamp;
+  }
+};
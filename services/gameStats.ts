@@ -0,0 +1,111 @@
+import { DirectionStats, GameStats, KLineData, Trade } from '../types';
+import { initialStopDistance } from './tradeExcursion';
+
+/**
+ * 对局统计
+ * Numbers behind the final report: computed over the closed trades (in exit order) and fed to
+ * the AI prompt, so the grade rests on real figures rather than the model's arithmetic.
+ */
+
+export const HTF_TREND_PERIOD = 20; // SMA length for the HTF trend at entry
+
+const mean = (values: number[]) => values.length ? values.reduce((acc, v) => acc + v, 0) / values.length : 0;
+
+const holdMs = (t: Trade) => (t.exitTime ?? t.entryTime) - t.entryTime;
+
+const directionStats = (trades: Trade[]): DirectionStats => ({
+  count: trades.length,
+  winRate: trades.length ? trades.filter(t => t.pnl > 0).length / trades.length : 0,
+  pnl: trades.reduce((acc, t) => acc + t.pnl, 0)
+});
+
+/**
+ * HTF trend at `time`: last closed HTF close vs the SMA of the closes before it.
+ * Null when there isn't enough history.
+ */
+export const htfTrendAt = (htfCandles: KLineData[], time: number, htfIntervalMs: number, period = HTF_TREND_PERIOD): 'UP' | 'DOWN' | null => {
+  const closed = htfCandles.filter(c => c.timestamp + htfIntervalMs <= time).slice(-period);
+  if (closed.length < period) return null;
+  const sma = mean(closed.map(c => c.close));
+  const last = closed[closed.length - 1].close;
+  return last > sma ? 'UP' : last < sma ? 'DOWN' : null;
+};
+
+export const calcGameStats = (trades: Trade[], initialBalance: number, htfCandles: KLineData[] = [], htfIntervalMs = 0): GameStats => {
+  const closed = trades.filter(t => t.status !== 'OPEN').sort((a, b) => (a.exitTime ?? 0) - (b.exitTime ?? 0));
+  const wins = closed.filter(t => t.pnl > 0);
+  const losses = closed.filter(t => t.pnl <= 0);
+  const grossProfit = wins.reduce((acc, t) => acc + t.pnl, 0);
+  const grossLoss = -losses.reduce((acc, t) => acc + t.pnl, 0);
+
+  const rMultiples = closed.flatMap(t => {
+    const risk = initialStopDistance(t) * t.quantity;
+    return risk > 0 ? [t.pnl / risk] : [];
+  });
+
+  let equity = initialBalance;
+  let peak = initialBalance;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent = 0;
+  let streak = 0;
+  let longestLosingStreak = 0;
+  closed.forEach(t => {
+    equity += t.pnl;
+    peak = Math.max(peak, equity);
+    if (peak - equity > maxDrawdown) {
+      maxDrawdown = peak - equity;
+      maxDrawdownPercent = peak > 0 ? (maxDrawdown / peak) * 100 : 0;
+    }
+    streak = t.pnl <= 0 ? streak + 1 : 0;
+    longestLosingStreak = Math.max(longestLosingStreak, streak);
+  });
+
+  const trends = htfIntervalMs > 0 ? closed.map(t => ({ t, trend: htfTrendAt(htfCandles, t.entryTime, htfIntervalMs) })).filter(x => x.trend) : [];
+  const followed = trends.filter(({ t, trend }) => (t.direction === 'LONG') === (trend === 'UP')).length;
+
+  return {
+    tradeCount: closed.length,
+    winRate: closed.length ? wins.length / closed.length : 0,
+    totalPnl: grossProfit - grossLoss,
+    avgWin: mean(wins.map(t => t.pnl)),
+    avgLoss: mean(losses.map(t => t.pnl)),
+    expectancy: mean(closed.map(t => t.pnl)),
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    avgR: rMultiples.length ? mean(rMultiples) : null,
+    maxDrawdown,
+    maxDrawdownPercent,
+    longestLosingStreak,
+    avgHoldMs: mean(closed.map(holdMs)),
+    avgWinHoldMs: mean(wins.map(holdMs)),
+    avgLossHoldMs: mean(losses.map(holdMs)),
+    long: directionStats(closed.filter(t => t.direction === 'LONG')),
+    short: directionStats(closed.filter(t => t.direction === 'SHORT')),
+    htfTrendFollowRate: trends.length ? followed / trends.length : null,
+    htfTrendChecked: trends.length
+  };
+};
+
+export const formatDuration = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h${minutes % 60 ? ` ${minutes % 60}m` : ''}` : `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+const pct = (v: number) => `${(v * 100).toFixed(0)}%`;
+
+// Label / value pairs, shared by the prompt and the dashboard table
+export const describeGameStats = (s: GameStats): { label: string; value: string }[] => [
+  { label: '已平仓交易', value: `${s.tradeCount}` },
+  { label: '胜率', value: pct(s.winRate) },
+  { label: '期望值 / 笔', value: s.expectancy.toFixed(2) },
+  { label: '盈亏因子', value: s.profitFactor === null ? '∞ (无亏损)' : s.profitFactor.toFixed(2) },
+  { label: '平均 R', value: s.avgR === null ? '-' : `${s.avgR.toFixed(2)}R` },
+  { label: '平均盈利 / 亏损', value: `${s.avgWin.toFixed(2)} / ${s.avgLoss.toFixed(2)}` },
+  { label: '最大回撤', value: `${s.maxDrawdown.toFixed(2)} (${s.maxDrawdownPercent.toFixed(1)}%)` },
+  { label: '最长连亏', value: `${s.longestLosingStreak} 笔` },
+  { label: '平均持仓', value: `${formatDuration(s.avgHoldMs)} (盈 ${formatDuration(s.avgWinHoldMs)} / 亏 ${formatDuration(s.avgLossHoldMs)})` },
+  { label: '多单', value: `${s.long.count} 笔 · 胜率 ${pct(s.long.winRate)} · ${s.long.pnl.toFixed(2)}` },
+  { label: '空单', value: `${s.short.count} 笔 · 胜率 ${pct(s.short.winRate)} · ${s.short.pnl.toFixed(2)}` },
+  { label: '顺大周期趋势', value: s.htfTrendFollowRate === null ? '-' : `${pct(s.htfTrendFollowRate)} (${s.htfTrendChecked} 笔可判断)` }
+];
@@ -0,0 +1,61 @@
+import { GoogleGenAI } from "@google/genai";
+import type { LLMImage, LLMProvider } from './llmProvider';
+import { parseDataUrl } from './dataUrl';
+
+/**
+ * Google Gemini (默认)
+ * Clients are cached per key/base URL so settings changes take effect without a reload.
+ */
+
+const clients = new Map<string, GoogleGenAI>();
+
+const getClient = (apiKey: string, baseUrl: string): GoogleGenAI => {
+  const key = `${apiKey}|${baseUrl}`;
+  if (!clients.has(key)) {
+    clients.set(key, new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined }));
+  }
+  return clients.get(key)!;
+};
+
+const toParts = (text: string, images: LLMImage[] = []) => [
+  { text },
+  ...images.flatMap(img => [{ text: img.label }, { inlineData: parseDataUrl(img.dataUrl) }])
+];
+
+export const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  description: '默认。未填 Key 时使用构建时的 GEMINI_API_KEY',
+  defaultBaseUrl: '',
+  defaultModel: 'gemini-3-flash-preview',
+  requiresApiKey: true,
+  supportsImages: true,
+  generate: async ({ system, history = [], prompt, images = [], responseSchema }, config, { signal, onToken, onUsage } = {}) => {
+    const ai = getClient(config.apiKey || process.env.API_KEY || '', config.baseUrl);
+    const contents = [
+      ...history.map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: toParts(m.text, m.images) })),
+      { role: 'user', parts: toParts(prompt, images) }
+    ];
+
+    const stream = await ai.models.generateContentStream({
+      model: config.model,
+      contents,
+      config: {
+        systemInstruction: system,
+        temperature: config.temperature,
+        abortSignal: signal,
+        ...(responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: responseSchema } : {})
+      }
+    });
+    let text = '';
+    for await (const chunk of stream) {
+      if (signal?.aborted) throw new Error('Aborted');
+      // Running totals; the last chunk has the final counts
+      if (chunk.usageMetadata) onUsage?.({ inputTokens: chunk.usageMetadata.promptTokenCount || 0, outputTokens: chunk.usageMetadata.candidatesTokenCount || 0 });
+      const delta = chunk.text || '';
+      text += delta;
+      if (delta) onToken?.(delta);
+    }
+    return text;
+  }
+};
@@ -1,146 +1,320 @@
-import { GoogleGenAI } from "@google/genai";
-import { Trade, KLineData } from '../types';
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const DEFAULT_SYSTEM_INSTRUCTION = `
-你是一位拥有20年经验的华尔街职业加密货币交易教练。你的风格是：
-1. **犀利直接**：不要说废话，直接指出操作的优缺点。
-2. **幽默风趣**：适当使用俏皮话、Emoji，让枯燥的交易变得有趣。
-3. **Markdown高手**：使用 Markdown 格式美化输出。
-    *   **加粗**重点内容。
-    *   使用列表清晰表达。
-    *   如果操作很烂，可以用 > 引用块嘲讽一下。
-    *   如果操作很棒，用 🎉 庆祝。
-4. **多模态分析**：我会提供 K 线图的截图，请结合图片中的形态（如均线排列、成交量变化、支撑阻力位）进行分析。
-5. **注重结构位置**： 结构位置和趋势是否合理更加重要。
-6. **关注盈亏比与逻辑**：不仅看结果，更看入场逻辑是否符合 K 线形态（如吞没、Pinbar、突破等）和趋势。
-7. **预测未来**：如果接下来价格走到 xx，形成yy，并出现 zz 信号那么可以做(多/空)，（止盈价格|止损价格)理由..
-`;
-
-// Helper to extract MIME type and data from Data URL
-const getInlineData = (dataUrl: string) => {
-    // Data URL format: data:[<mediatype>][;base64],<data>
-    const matches = dataUrl.match(/^data:(.+);base64,(.+)$/);
-    if (matches) {
-        return { mimeType: matches[1], data: matches[2] };
-    }
-    // Fallback if regex fails (shouldn't happen for valid Data URLs)
-    const parts = dataUrl.split(',');
-    return { mimeType: 'image/jpeg', data: parts[1] };
+import { Trade, KLineData, CoachPersona, Timeframe, LLMConfig, AIResponse, CoachReply, CoachMessage, CoachThread, GameStats, CoachingProfile, WeaknessObservation, RuleCoachMode } from '../types';
+import { describeGameStats } from './gameStats';
+import { describeSizing, calcPlannedRR } from './positionSizing';
+import { totalCosts } from './tradeCosts';
+import { ORDER_TYPE_LABELS } from './orderBook';
+import { getTakeProfits, describeModification, EXIT_REASON_LABELS } from './tradeManagement';
+import { BUILT_IN_PERSONAS, PersonaTemplateValues, renderPersonaPrompt } from './coachPersonas';
+import { LLMImage, LLMResult, LLMStreamOptions, generateText, streamText } from './llmProvider';
+import { describeLLMError } from './llmRequestManager';
+import { ruleBasedEvaluation, ruleBasedGameReport } from './ruleCoach';
+import { WEAKNESSES, WEAKNESS_SCHEMA, describeCoachingProfile, pickWeaknessTags } from './coachingProfile';
+import { calcExcursion, samplePricePath } from './tradeExcursion';
+import { TRADE_EVALUATION_SCHEMA, TRADE_EVALUATION_FORMAT, SCORE_CRITERIA, parseTradeEvaluation, streamCommentTokens, parseJsonObject } from './tradeScoring';
+
+// Who coaches and through which model; everything falls back to the defaults.
+// onToken streams the answer as it is written, signal cancels it.
+export interface CoachOptions extends LLMStreamOptions {
+  persona?: CoachPersona;
+  timeframe?: Timeframe;
+  llm?: LLMConfig;
+  profile?: CoachingProfile | null; // Recurring weaknesses from earlier games
+  ruleCoach?: RuleCoachMode; // Offline rule-based review instead of / after a failed model call
+}
+
+// Put in front of a rule-based answer that stands in for a failed model call
+const fallbackNote = (error: unknown) => `> ⚠️ ${describeLLMError(error)} 以下为离线规则点评。\n\n`;
+
+// The model finished without writing anything
+const EMPTY_ANSWER = '模型没有返回内容，请重试。';
+
+// A cancelled or broken stream keeps its partial text, marked as such
+const finishStream = ({ text, status }: LLMResult): string => {
+  if (status === 'ABORTED') return text && `${text.trimEnd()}\n\n> ⏹ 已停止生成，以上为部分内容`;
+  if (status === 'INTERRUPTED') return `${text.trimEnd()}\n\n> ⚠️ 连接中断，以上为部分内容`;
+  return text;
+};
+
+// Persona prompt with its template variables filled in (default coach when none is given),
+// followed by what the coach remembers about the learner
+const buildSystemInstruction = (persona: CoachPersona | undefined, vars: PersonaTemplateValues, profile?: CoachingProfile | null) => {
+  const prompt = renderPersonaPrompt((persona || BUILT_IN_PERSONAS[0]).prompt, vars);
+  const memory = describeCoachingProfile(profile);
+  return memory ? `${prompt}\n\n${memory}` : prompt;
 };
 
-export const analyzeTrade = async (
+const tradeTemplateVars = (trade: Trade, timeframe?: Timeframe): PersonaTemplateValues => ({
+  symbol: trade.symbol,
+  timeframe,
+  rr: calcPlannedRR(trade.entryPrice, trade.sl, trade.tp).toFixed(2),
+  direction: trade.direction
+});
+
+const gameTemplateVars = (trades: Trade[], timeframe?: Timeframe): PersonaTemplateValues => ({
+  symbol: trades[0]?.symbol,
+  timeframe,
+  rr: trades.length ? (trades.reduce((acc, t) => acc + calcPlannedRR(t.entryPrice, t.sl, t.tp), 0) / trades.length).toFixed(2) : undefined,
+  direction: new Set(trades.map(t => t.direction)).size === 1 ? trades[0].direction : '多空皆有'
+});
+
+/**
+ * The entry review request (prompt + chart screenshots) as a chat turn.
+ * Also rebuilds the context of older trades whose request wasn't kept (then without screenshots).
+ */
+export const tradeReviewContext = (
   trade: Trade,
   recentCandles: KLineData[],
   ltfImage?: string,
   htfImage?: string,
-  customPrompt?: string
-): Promise<string> => {
-  
+  timeframe?: Timeframe
+): CoachMessage => {
   // 提取最近 10 根 K 线作为上下文 (Text backup)
   const context = recentCandles.slice(-10).map(c => 
     `T:${new Date(c.timestamp).toISOString().slice(11,16)} O:${c.open} H:${c.high} L:${c.low} C:${c.close} V:${c.volume}`
   ).join('\n');
 
-  // 如果用户提供了 customPrompt，则完全使用用户的 Prompt 作为 System Instruction
-  // 否则使用默认的 DEFAULT_SYSTEM_INSTRUCTION
-  const activeSystemInstruction = customPrompt && customPrompt.trim().length > 0 
-      ? customPrompt 
-      : DEFAULT_SYSTEM_INSTRUCTION;
-
   const textPrompt = `
-  请结合提供的 K 线图截图（包含大小周期）和数据，对这笔交易进行评价并打分(x/10)。
+  请结合提供的 K 线图截图（包含大小周期）和数据，对这笔交易进行评价，并按评分标准逐项打分 (0-10)。
   
   **交易环境**:
   - 标的: ${trade.symbol}
-  - 交易周期: ${"参见截图"} (LTF)
+  - 交易周期: ${timeframe || "参见截图"} (LTF)
   
   **交易详情**:
   - 方向: ${trade.direction}
   - 入场价: ${trade.entryPrice}
   - 止盈: ${trade.tp}
   - 止损: ${trade.sl}
-  - 理由: ${trade.reason}
+  - 出场计划: ${getTakeProfits(trade).map((l, i) => `TP${i + 1} ${l.price} (${l.percent}%)`).join(', ')}${trade.breakevenAfterTp1 ? ', TP1 后保本' : ''}${trade.trailingStop ? `, 移动止损 ${trade.trailingStop.value}${trade.trailingStop.mode === 'PERCENT' ? '%' : '×ATR'}` : ''}
+  - 入场方式: ${ORDER_TYPE_LABELS[trade.entryOrderType || 'MARKET']}
+  - 仓位: ${trade.sizing ? describeSizing(trade.sizing) : `${trade.quantity}`}
+  - 杠杆: ${trade.leverage ? `${trade.leverage}x ${trade.marginMode === 'CROSS' ? '全仓' : '逐仓'}, 强平价 ${trade.liquidationPrice?.toFixed(2) ?? '随账户浮动'}` : '无'}
+  - 理由: ${trade.reason}${trade.modifications?.length ? `\n  - 改单记录: ${trade.modifications.map(describeModification).join('; ')}` : ''}
   
   **最近数据**:
   ${context}
   
-  重点关注：
-  1. 大周期趋势是否配合？
-  2. 入场位置是否合理？
-  3. 成交量是否有异常？
-  4. 盈亏比是否合适？
+  评分标准：
+  ${SCORE_CRITERIA.map((c, i) => `${i + 1}. ${c.label} (${c.key})：${c.hint}`).join('\n  ')}
+  另外在点评中说明仓位与风险控制是否合理（单笔风险占权益比例）。
+
+  ${TRADE_EVALUATION_FORMAT}
   `;
 
-  const parts: any[] = [{ text: textPrompt }];
+  const images: LLMImage[] = [];
+  if (htfImage) images.push({ label: "【大周期趋势图 (Context)】：", dataUrl: htfImage });
+  if (ltfImage) images.push({ label: "【交易周期图 (Trading)】：", dataUrl: ltfImage });
 
-  if (htfImage) {
-    parts.push({ text: "【大周期趋势图 (Context)】：" });
-    const { mimeType, data } = getInlineData(htfImage);
-    if (data) {
-        parts.push({ inlineData: { mimeType, data } });
-    }
-  }
+  return { role: 'user', text: textPrompt, images, time: Date.now() };
+};
 
-  if (ltfImage) {
-    parts.push({ text: "【交易周期图 (Trading)】：" });
-    const { mimeType, data } = getInlineData(ltfImage);
-    if (data) {
-        parts.push({ inlineData: { mimeType, data } });
+export const analyzeTrade = (
+  trade: Trade,
+  recentCandles: KLineData[],
+  ltfImage?: string,
+  htfImage?: string,
+  options: CoachOptions = {}
+): Promise<AIResponse> => evaluateTrade(trade, tradeReviewContext(trade, recentCandles, ltfImage, htfImage, options.timeframe), options, recentCandles);
+
+/**
+ * Sends an entry review request (see tradeReviewContext). A failed request or an empty answer
+ * comes back as `error` with an empty comment (cancelled before any text: just the empty comment),
+ * keeping the context so it can be retried with the same screenshots.
+ * With `candles` (up to the entry) the rule coach can answer instead, see CoachOptions.ruleCoach.
+ */
+export const evaluateTrade = async (
+  trade: Trade,
+  context: CoachMessage,
+  { persona, timeframe, llm, profile, ruleCoach, signal, onToken }: CoachOptions = {},
+  candles?: KLineData[]
+): Promise<AIResponse> => {
+  if (ruleCoach === 'ALWAYS' && candles) return { ...ruleBasedEvaluation(trade, candles), context };
+  // 教练人设作为 System Instruction，模板变量按这笔交易填充
+  const activeSystemInstruction = buildSystemInstruction(persona, tradeTemplateVars(trade, timeframe), profile);
+
+  try {
+    const result = await streamText(
+      { system: activeSystemInstruction, prompt: context.text, images: context.images, responseSchema: TRADE_EVALUATION_SCHEMA },
+      llm,
+      { signal, onToken: onToken && streamCommentTokens(onToken) }
+    );
+    const { comment, score } = parseTradeEvaluation(result.text);
+    const finished = finishStream({ ...result, text: comment });
+    // Cancelled before the first token: nothing worth keeping
+    if (result.status === 'ABORTED') return { comment: finished, context };
+    if (!finished) return { comment: '', error: EMPTY_ANSWER, context };
+    // A cut-off answer has no trustworthy rubric
+    return { comment: finished, score: result.status === 'DONE' ? score : undefined, context };
+  } catch (error) {
+    console.error("LLM API Error:", error);
+    if (ruleCoach === 'FALLBACK' && candles) {
+      const review = ruleBasedEvaluation(trade, candles);
+      return { ...review, comment: fallbackNote(error) + review.comment, context };
     }
+    return { comment: '', error: describeLLMError(error), context };
   }
+};
+
+/**
+ * The post-trade review request: entry review, price path, MFE/MAE and the charts at entry
+ * (when the entry review kept them) and at exit.
+ */
+export const postTradeReviewContext = (
+  trade: Trade,
+  holdingCandles: KLineData[],
+  entryImages: LLMImage[] = [],
+  exitLtfImage?: string,
+  exitHtfImage?: string,
+  timeframe?: Timeframe
+): CoachMessage => {
+  const { mfe, mae, mfeR, maeR } = calcExcursion(trade, holdingCandles);
+  const fmtR = (r: number | null) => r === null ? '' : ` (${r.toFixed(2)}R)`;
+  const path = samplePricePath(holdingCandles).map(c =>
+    `T:${new Date(c.timestamp).toISOString().slice(5,16).replace('T', ' ')} O:${c.open} H:${c.high} L:${c.low} C:${c.close}`
+  ).join('\n');
+
+  const textPrompt = `
+  这笔交易已经结束，请结合结果做离场复盘。
+  
+  **交易**: ${trade.direction} ${trade.symbol} (${timeframe || "参见截图"})
+  - 入场: ${trade.entryPrice} @ ${new Date(trade.entryTime).toISOString().slice(0,16)}
+  - 离场: ${trade.exitPrice ?? '-'} @ ${trade.exitTime ? new Date(trade.exitTime).toISOString().slice(0,16) : '-'}，方式: ${trade.exitReason ? EXIT_REASON_LABELS[trade.exitReason] : trade.status}
+  - 止盈 / 止损 (最终): ${trade.tp} / ${trade.sl}
+  - 成交明细: ${trade.legs?.map(l => `${l.reason} ${l.quantity}@${l.price}${l.note ? ` (${l.note})` : ''}`).join('; ') || '无'}${trade.modifications?.length ? `\n  - 改单记录: ${trade.modifications.map(describeModification).join('; ')}` : ''}
+  - 盈亏 (已扣成本): ${trade.pnl.toFixed(2)}
+  - 持仓期间 MFE (最大有利): ${mfe.toFixed(2)}${fmtR(mfeR)}，MAE (最大不利): ${mae.toFixed(2)}${fmtR(maeR)}
+  - 入场理由: ${trade.reason}
+  
+  **入场时的 AI 点评**:
+  ${trade.aiComment || '无'}
+  
+  **持仓期间价格路径 (抽样)**:
+  ${path || '无 (同一根 K 线内进出)'}
+  
+  请用 Markdown 回答：
+  1. 离场管理是否得当（是否拿住了利润、是否过早/过晚离场，对照 MFE/MAE）。
+  2. 入场逻辑本身是错的，还是逻辑成立但运气不好？给出明确结论。
+  3. 下次遇到同样的形态应该怎么做。
+  `;
 
+  const images: LLMImage[] = [
+    ...entryImages.map(img => ({ ...img, label: `【入场时】${img.label}` })),
+    ...(exitHtfImage ? [{ label: "【离场时】【大周期趋势图 (Context)】：", dataUrl: exitHtfImage }] : []),
+    ...(exitLtfImage ? [{ label: "【离场时】【交易周期图 (Trading)】：", dataUrl: exitLtfImage }] : [])
+  ];
+
+  return { role: 'user', text: textPrompt, images, time: Date.now() };
+};
+
+// Runs in the background after a close; null when the model failed (the review can be retried)
+export const reviewClosedTrade = async (trade: Trade, context: CoachMessage, { persona, timeframe, llm, profile, ruleCoach, signal, onToken }: CoachOptions = {}): Promise<string | null> => {
+  if (ruleCoach === 'ALWAYS') return null; // Needs a model
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview', // Updated to Gemini 3 Flash
-      contents: parts.length > 1 ? { parts } : textPrompt, 
-      config: {
-        systemInstruction: activeSystemInstruction,
-        temperature: 0.7,
-      }
-    });
-    
-    return response.text || "AI 正在思考人生，暂时无法评价...";
+    const result = await streamText(
+      { system: buildSystemInstruction(persona, tradeTemplateVars(trade, timeframe), profile), prompt: context.text, images: context.images },
+      llm,
+      { signal, onToken }
+    );
+    return finishStream(result) || null;
   } catch (error) {
-    console.error("Gemini API Error:", error);
-    return "AI 教练掉线了 (API Error)，请检查网络或 Key。";
+    console.error("LLM API Error:", error);
+    return null;
   }
 };
 
-export const generateGameReport = async (trades: Trade[], customPrompt?: string): Promise<string> => {
-    if (trades.length === 0) return "你还没有做任何交易，这就是所谓 '空仓是最高的智慧' 吗？😂";
-
+// The final report request as a chat turn (text only)
+export const gameReportContext = (trades: Trade[], stats?: GameStats): CoachMessage => {
     const wins = trades.filter(t => t.pnl > 0).length;
     const totalPnl = trades.reduce((acc, t) => acc + t.pnl, 0);
-    
-    const activeSystemInstruction = customPrompt && customPrompt.trim().length > 0 
-      ? customPrompt 
-      : DEFAULT_SYSTEM_INSTRUCTION;
+    const costs = trades.reduce((acc, t) => acc + totalCosts(t), 0);
 
     const prompt = `
     复盘总结时间！
     
     总交易数: ${trades.length}
     胜场: ${wins}
-    总盈亏: ${totalPnl.toFixed(2)}
-    
+    总盈亏 (已扣成本): ${totalPnl.toFixed(2)}
+    交易成本 (手续费+资金费+滑点): ${costs.toFixed(2)}
+    ${stats ? `
+    统计指标 (程序已算好，请直接引用，不要自行重算):
+    ${describeGameStats(stats).map(r => `- ${r.label}: ${r.value}`).join('\n    ')}
+    ` : ''}
     交易记录摘要:
-    ${trades.map((t, i) => `${i+1}. ${t.direction} ${t.symbol} PnL:${t.pnl} 原因:${t.reason}`).join('\n')}
+    ${trades.map((t, i) => `${i+1}. ${t.direction} ${t.symbol} PnL:${t.pnl} 状态:${t.status}${t.exitReason ? ` 离场:${EXIT_REASON_LABELS[t.exitReason]}` : ''}${t.legs?.some(l => l.note) ? ` 离场理由:${t.legs.filter(l => l.note).map(l => l.note).join('; ')}` : ''}${t.leverage ? ` 杠杆:${t.leverage}x` : ''} 风险:${t.sizing ? `${t.sizing.riskPercent.toFixed(2)}% (${t.sizing.mode})` : '未知'}${t.modifications?.length ? ` 改单:${t.modifications.map(describeModification).join('; ')}` : ''} 原因:${t.reason}`).join('\n')}
     
-    请给这位交易员写一份终局总结报告，包含评分（S/A/B/C/D）和改进建议。
+    请给这位交易员写一份终局总结报告，包含评分（S/A/B/C/D，依据上面的统计指标：期望值、盈亏因子、回撤、连亏、顺势率）和改进建议，并点评仓位与风险纪律是否一致；如果有改单记录，点评止损管理（是否放宽止损、过早移动止盈等）；对手动离场/反手，评价离场理由是否站得住。
     `;
 
+    return { role: 'user', text: prompt, time: Date.now() };
+};
+
+// A failed model call comes back as `error` and a report cancelled before any text as empty
+// text (nothing to keep either way), so the report can be regenerated
+export const generateGameReport = async (trades: Trade[], stats: GameStats | undefined, { persona, timeframe, llm, profile, ruleCoach, signal, onToken }: CoachOptions = {}): Promise<CoachReply> => {
+    if (trades.length === 0) return { text: "你还没有做任何交易，这就是所谓 '空仓是最高的智慧' 吗？😂" };
+    if (ruleCoach === 'ALWAYS') return { text: ruleBasedGameReport(trades, stats) };
+
+    const activeSystemInstruction = buildSystemInstruction(persona, gameTemplateVars(trades, timeframe), profile);
+    const prompt = gameReportContext(trades, stats).text;
+
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-flash-preview',
-            contents: prompt,
-            config: {
-                systemInstruction: activeSystemInstruction
-            }
-        });
-        return response.text || "无法生成报告。";
+        const result = await streamText({ system: activeSystemInstruction, prompt }, llm, { signal, onToken });
+        const text = finishStream(result);
+        return result.status === 'ABORTED' || text ? { text } : { text: '', error: EMPTY_ANSWER };
     } catch (e) {
-        return "报告生成失败。";
+        console.error("LLM API Error:", e);
+        if (ruleCoach === 'FALLBACK') return { text: fallbackNote(e) + ruleBasedGameReport(trades, stats) };
+        return { text: '', error: describeLLMError(e) };
     }
-}
\ No newline at end of file
+}
+
+const FOLLOW_UP_NOTE = `
+
+现在是复盘追问环节：学员会针对上面的点评继续提问。结合之前的截图和数据，直接用 Markdown 回答，不要再输出 JSON 或重新打分。`;
+
+/**
+ * Answers a follow-up question in a trade / game thread. The thread's earlier turns (incl. the
+ * original screenshots) are sent as history. Empty text when cancelled before any text,
+ * `error` when the request failed.
+ */
+export const chatWithCoach = async (
+  thread: CoachThread,
+  question: string,
+  trades: Trade[],
+  { persona, timeframe, llm, profile, signal, onToken }: CoachOptions = {}
+): Promise<CoachReply> => {
+  const trade = thread.tradeId ? trades.find(t => t.id === thread.tradeId) : undefined;
+  const vars = trade ? tradeTemplateVars(trade, timeframe) : gameTemplateVars(trades, timeframe);
+  const history = thread.messages.map(({ role, text, images }) => ({ role, text, images }));
+
+  try {
+    const result = await streamText({ system: buildSystemInstruction(persona, vars, profile) + FOLLOW_UP_NOTE, history, prompt: question }, llm, { signal, onToken });
+    return { text: finishStream(result) };
+  } catch (error) {
+    console.error("LLM API Error:", error);
+    return { text: '', error: describeLLMError(error) };
+  }
+};
+
+/**
+ * Tags the recurring-mistake catalogue in a final report, for the cross-game coaching profile.
+ * Not streamed; [] when the model fails or finds nothing. `gameId` is the game the report belongs to.
+ */
+export const extractWeaknesses = async (report: string, llm?: LLMConfig, gameId?: number): Promise<WeaknessObservation[]> => {
+  const prompt = `下面是一份交易复盘报告。请从中找出交易员犯的错误，只能使用下列标签：
+${WEAKNESSES.map(w => `- ${w.id}: ${w.label} (${w.hint})`).join('\n')}
+
+每个标签给出严重程度 severity (1 轻微 / 2 明显 / 3 严重) 和一句报告中的依据 evidence。报告没提到的不要标。
+请只返回 JSON：{"weaknesses": [{"id": "...", "severity": 1-3, "evidence": "..."}]}
+
+报告：
+${report}`;
+
+  try {
+    const raw = await generateText({ system: '你是交易教练的助理，负责把复盘报告整理成结构化的错误标签。', prompt, responseSchema: WEAKNESS_SCHEMA }, llm, { gameId });
+    return pickWeaknessTags(parseJsonObject(raw));
+  } catch (error) {
+    console.error("LLM API Error:", error);
+    return [];
+  }
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_HOTKEYS, eventToCombo, findHotkeyAction, formatCombo } from './hotkeys';
+
+const key = (k: string, mods: Partial<Record<'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey', boolean>> = {}) =>
+  ({ key: k, ctrlKey: false, metaKey: false, altKey: false, shiftKey: false, ...mods });
+
+describe('eventToCombo', () => {
+  it('ignores a lone modifier', () => {
+    expect(eventToCombo(key('Shift', { shiftKey: true }))).toBeNull();
+  });
+
+  it('keeps Shift for named keys and letters', () => {
+    expect(eventToCombo(key('ArrowRight', { shiftKey: true }))).toBe('Shift+ArrowRight');
+    expect(eventToCombo(key('B', { shiftKey: true }))).toBe('Shift+b');
+    expect(eventToCombo(key('B'))).toBe('b'); // Caps Lock
+  });
+
+  it('leaves Shift out of shifted symbols', () => {
+    expect(eventToCombo(key('?', { shiftKey: true }))).toBe('?');
+    expect(eventToCombo(key('+', { shiftKey: true, ctrlKey: true }))).toBe('Ctrl++');
+  });
+});
+
+describe('findHotkeyAction', () => {
+  it('does not open a long on Shift+B', () => {
+    expect(findHotkeyAction(DEFAULT_HOTKEYS, 'b')).toBe('OPEN_LONG');
+    expect(findHotkeyAction(DEFAULT_HOTKEYS, 'Shift+b')).toBeNull();
+  });
+});
+
+describe('formatCombo', () => {
+  it('formats a trailing plus key', () => {
+    expect(formatCombo('Ctrl++')).toBe('Ctrl + +');
+    expect(formatCombo('Shift+b')).toBe('Shift + B');
+  });
+});
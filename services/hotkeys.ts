@@ -0,0 +1,86 @@
+import { HotkeyAction, HotkeyConfig } from '../types';
+
+/**
+ * 快捷键
+ * Combos are written as "Ctrl+Alt+Shift+Key". Shift is part of the combo for named keys (arrows,
+ * Space...) and letters, so Shift+B is not B; for other printable characters it is already in the
+ * character ("+", "?").
+ */
+
+export const HOTKEY_ACTIONS: { action: HotkeyAction; label: string }[] = [
+  { action: 'PLAY_PAUSE', label: '播放 / 暂停' },
+  { action: 'NEXT_CANDLE', label: '下一根 K 线' },
+  { action: 'JUMP_BARS', label: '快进 N 根' },
+  { action: 'OPEN_LONG', label: '开多 (打开交易面板)' },
+  { action: 'OPEN_SHORT', label: '开空 (打开交易面板)' },
+  { action: 'CLOSE_PANEL', label: '关闭面板 / 弹窗' },
+  { action: 'CLOSE_POSITION', label: '平掉当前仓位' },
+  { action: 'SPEED_UP', label: '加快自动播放' },
+  { action: 'SPEED_DOWN', label: '减慢自动播放' },
+  { action: 'SHOW_HELP', label: '快捷键一览' }
+];
+
+export const DEFAULT_HOTKEYS: HotkeyConfig = {
+  bindings: {
+    PLAY_PAUSE: 'Space',
+    NEXT_CANDLE: 'ArrowRight',
+    JUMP_BARS: 'Shift+ArrowRight',
+    OPEN_LONG: 'b',
+    OPEN_SHORT: 's',
+    CLOSE_PANEL: 'Escape',
+    CLOSE_POSITION: 'c',
+    SPEED_UP: '+',
+    SPEED_DOWN: '-',
+    SHOW_HELP: '?'
+  },
+  jumpBars: 10
+};
+
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta'];
+
+// Normalized combo for a key event, or null for a lone modifier press
+export const eventToCombo = (e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const key = e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toLowerCase() : e.key;
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  const isLetter = e.key.toLowerCase() !== e.key.toUpperCase();
+  if (e.shiftKey && (e.key.length > 1 || isLetter)) parts.push('Shift');
+  return [...parts, key].join('+');
+};
+
+export const findHotkeyAction = (config: HotkeyConfig, combo: string): HotkeyAction | null => {
+  const match = HOTKEY_ACTIONS.find(({ action }) => config.bindings[action] === combo);
+  return match ? match.action : null;
+};
+
+const KEY_SYMBOLS: Record<string, string> = {
+  ArrowRight: '→', ArrowLeft: '←', ArrowUp: '↑', ArrowDown: '↓', Escape: 'Esc', Space: 'Space'
+};
+
+export const formatCombo = (combo: string): string => {
+  if (!combo) return '未绑定';
+  // "Ctrl++" splits into a trailing empty part: the key itself is "+"
+  const parts = combo.endsWith('++') ? [...combo.slice(0, -2).split('+'), '+'] : combo.split('+');
+  return parts.map(p => KEY_SYMBOLS[p] || (p.length === 1 ? p.toUpperCase() : p)).join(' + ');
+};
+
+/**
+ * Binds `combo` to `action`; any other action that used the same combo becomes unbound.
+ */
+export const rebindHotkey = (config: HotkeyConfig, action: HotkeyAction, combo: string): HotkeyConfig => {
+  const bindings = { ...config.bindings };
+  (Object.keys(bindings) as HotkeyAction[]).forEach(a => {
+    if (a !== action && bindings[a] === combo) bindings[a] = '';
+  });
+  bindings[action] = combo;
+  return { ...config, bindings };
+};
+
+// Typing in a form field must not trigger shortcuts
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  const el = target as HTMLElement | null;
+  if (!el) return false;
+  return el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName);
+};
@@ -0,0 +1,27 @@
+/**
+ * 流式响应按行读取 (SSE / NDJSON)
+ * Calls onLine for every complete, non-empty line; a trailing line without newline is flushed at the end.
+ */
+export const readLines = async (response: Response, onLine: (line: string) => void): Promise<void> => {
+  if (!response.body) throw new Error('Response has no body to stream');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(line => line.trim() && onLine(line.trim()));
+    }
+  } catch (error) {
+    // A throwing onLine would otherwise leave the connection open
+    reader.cancel().catch(() => {});
+    throw error;
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) onLine(buffer.trim());
+};
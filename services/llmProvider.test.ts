@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { LLMConfig } from '../types';
+import { DEFAULT_LLM_CONFIG, generateText, getLLMProvider, registerLLMProvider, streamText } from './llmProvider';
+import { LLMCallReport, LLMHttpError, onLLMCall } from './llmRequestManager';
+import { createMockLLMProvider, mockLLMProvider } from './mockLLMProvider';
+import { TRADE_EVALUATION_SCHEMA, parseTradeEvaluation } from './tradeScoring';
+
+const MOCK_CONFIG: LLMConfig = { ...DEFAULT_LLM_CONFIG, provider: 'mock', inputPrice: 1, outputPrice: 2 };
+const IMAGE = { label: '【交易周期图】', dataUrl: 'data:image/png;base64,AAAA' };
+
+const recordCalls = () => {
+  const reports: LLMCallReport[] = [];
+  const unsubscribe = onLLMCall(report => reports.push(report));
+  return { reports, unsubscribe };
+};
+
+afterEach(() => registerLLMProvider(mockLLMProvider));
+
+describe('generateText', () => {
+  it('sends the request to the configured provider with its defaults filled in', async () => {
+    const provider = createMockLLMProvider('你好');
+    registerLLMProvider(provider);
+    const text = await generateText({ system: 'sys', prompt: 'hi', images: [IMAGE] }, MOCK_CONFIG);
+    expect(text).toBe('你好');
+    expect(provider.calls).toHaveLength(1);
+    expect(provider.calls[0].prompt).toBe('hi');
+    expect(provider.calls[0].images).toEqual([IMAGE]);
+  });
+
+  it('drops images for providers without image support', async () => {
+    const provider = { ...createMockLLMProvider('ok'), supportsImages: false };
+    registerLLMProvider(provider);
+    await generateText({ system: 'sys', prompt: 'hi', images: [IMAGE], history: [{ role: 'user', text: 'before', images: [IMAGE] }] }, MOCK_CONFIG);
+    expect(provider.calls[0].images).toBeUndefined();
+    expect(provider.calls[0].history?.[0].images).toBeUndefined();
+  });
+
+  it('fills a response schema so the answer parses as an evaluation', async () => {
+    registerLLMProvider(createMockLLMProvider('点评'));
+    const raw = await generateText({ system: 'sys', prompt: 'hi', responseSchema: TRADE_EVALUATION_SCHEMA }, MOCK_CONFIG);
+    const result = parseTradeEvaluation(raw);
+    expect(result.comment).toBe('点评');
+    expect(result.score?.overall).toBe(5);
+  });
+
+  it('reports each call with an estimated usage and cost', async () => {
+    registerLLMProvider(createMockLLMProvider('abcdef'));
+    const { reports, unsubscribe } = recordCalls();
+    await generateText({ system: 'abc', prompt: 'abc' }, MOCK_CONFIG);
+    unsubscribe();
+    expect(reports).toEqual([{ inputTokens: 2, outputTokens: 2, estimated: true, cost: 6 / 1e6, retries: 0, failed: false }]);
+  });
+
+  it('reports the game a call concerns', async () => {
+    registerLLMProvider(createMockLLMProvider('ok'));
+    const { reports, unsubscribe } = recordCalls();
+    await generateText({ system: 'sys', prompt: 'hi' }, MOCK_CONFIG, { gameId: 7 });
+    await generateText({ system: 'sys', prompt: 'hi' }, MOCK_CONFIG);
+    unsubscribe();
+    expect(reports.map(r => r.gameId)).toEqual([7, undefined]);
+  });
+
+  it('retries transient failures before giving up', async () => {
+    const mock = createMockLLMProvider('ok');
+    let attempts = 0;
+    registerLLMProvider({
+      ...mock,
+      generate: (request, config, options) => {
+        attempts++;
+        if (attempts < 3) return Promise.reject(new LLMHttpError('busy', 503, 0));
+        return mock.generate(request, config, options);
+      }
+    });
+    const { reports, unsubscribe } = recordCalls();
+    expect(await generateText({ system: 'sys', prompt: 'hi' }, MOCK_CONFIG)).toBe('ok');
+    unsubscribe();
+    expect(attempts).toBe(3);
+    expect(reports[0].retries).toBe(2);
+  });
+
+  it('reports the failed attempts when cancelled during the backoff', async () => {
+    const controller = new AbortController();
+    registerLLMProvider({
+      ...createMockLLMProvider(),
+      generate: () => {
+        setTimeout(() => controller.abort(), 10);
+        return Promise.reject(new LLMHttpError('busy', 503, 5000));
+      }
+    });
+    const { reports, unsubscribe } = recordCalls();
+    await expect(generateText({ system: 'sys', prompt: 'hi' }, MOCK_CONFIG, { signal: controller.signal })).rejects.toThrow('Aborted');
+    unsubscribe();
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({ failed: true, retries: 0 });
+  });
+
+  it('does not retry a bad key', async () => {
+    let attempts = 0;
+    registerLLMProvider({ ...createMockLLMProvider(), generate: () => { attempts++; return Promise.reject(new LLMHttpError('denied', 401)); } });
+    const { reports, unsubscribe } = recordCalls();
+    await expect(generateText({ system: 'sys', prompt: 'hi' }, MOCK_CONFIG)).rejects.toThrow('denied');
+    unsubscribe();
+    expect(attempts).toBe(1);
+    expect(reports[0].failed).toBe(true);
+  });
+
+  it('falls back to the default provider for an unknown id', () => {
+    expect(getLLMProvider('nope' as LLMConfig['provider']).id).toBe(DEFAULT_LLM_CONFIG.provider);
+  });
+});
+
+describe('streamText', () => {
+  it('streams the mock answer in pieces', async () => {
+    registerLLMProvider(createMockLLMProvider('第一行\n第二行'));
+    const pieces: string[] = [];
+    const result = await streamText({ system: 'sys', prompt: 'hi' }, MOCK_CONFIG, { onToken: delta => pieces.push(delta) });
+    expect(result).toEqual({ text: '第一行\n第二行', status: 'DONE' });
+    expect(pieces.join('')).toBe('第一行\n第二行');
+    expect(pieces.length).toBeGreaterThan(1);
+  });
+
+  it('returns the partial answer when aborted', async () => {
+    registerLLMProvider(createMockLLMProvider('a'.repeat(24) + 'b'.repeat(24)));
+    const controller = new AbortController();
+    const result = await streamText({ system: 'sys', prompt: 'hi' }, MOCK_CONFIG, {
+      signal: controller.signal,
+      onToken: () => controller.abort()
+    });
+    expect(result).toEqual({ text: 'a'.repeat(24), status: 'ABORTED' });
+  });
+});
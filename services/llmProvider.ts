@@ -0,0 +1,139 @@
+import { LLMConfig, LLMProviderKind } from '../types';
+import { geminiProvider } from './geminiProvider';
+import { openAIProvider, llamaCppProvider } from './openaiCompatibleProvider';
+import { ollamaProvider } from './ollamaProvider';
+import { mockLLMProvider } from './mockLLMProvider';
+import { parseDataUrl } from './dataUrl';
+import { runLLMRequest } from './llmRequestManager';
+
+/**
+ * 大模型接口
+ * One request = a system instruction, a text prompt and optional chart screenshots,
+ * optionally preceded by earlier turns of a conversation.
+ * Providers stream tokens through onToken, report token usage through onUsage when the API
+ * returns it, and throw on transport/API errors (or abort); streamText keeps whatever arrived
+ * before a failure. Calls are queued and retried by services/llmRequestManager.ts.
+ */
+
+export interface LLMImage {
+  label: string; // Caption sent right before the image, e.g. 【交易周期图】
+  dataUrl: string; // data:image/...;base64,...
+}
+
+// Earlier turn of a conversation
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  images?: LLMImage[];
+}
+
+export interface LLMRequest {
+  system: string;
+  history?: LLMMessage[]; // Previous turns, oldest first; prompt + images form the next user turn
+  prompt: string;
+  images?: LLMImage[];
+  responseSchema?: Record<string, unknown>; // JSON Schema; providers that support it return matching JSON
+}
+
+export interface LLMStreamOptions {
+  signal?: AbortSignal;
+  onToken?: (delta: string) => void; // Called with each new piece of text
+  onUsage?: (usage: LLMUsage) => void; // Token counts reported by the API (estimated otherwise)
+  gameId?: number; // Game the call's usage is tallied on (absent = the running game)
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// DONE = full answer, ABORTED = cancelled by the user, INTERRUPTED = stream broke after some text
+export type LLMResultStatus = 'DONE' | 'ABORTED' | 'INTERRUPTED';
+
+export interface LLMResult {
+  text: string;
+  status: LLMResultStatus;
+}
+
+export interface LLMProvider {
+  id: LLMProviderKind;
+  name: string;
+  description: string;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+  supportsImages: boolean; // Images are dropped (not sent) when false
+  generate: (request: LLMRequest, config: LLMConfig, options?: LLMStreamOptions) => Promise<string>;
+}
+
+export const DEFAULT_LLM_CONFIG: LLMConfig = {
+  provider: 'gemini',
+  baseUrl: '',
+  model: '',
+  apiKey: '',
+  temperature: 0.7,
+  inputPrice: 0,
+  outputPrice: 0
+};
+
+const registry = new Map<LLMProviderKind, LLMProvider>();
+
+export const registerLLMProvider = (provider: LLMProvider) => {
+  registry.set(provider.id, provider);
+};
+
+export const getLLMProvider = (id?: LLMProviderKind): LLMProvider => {
+  return registry.get(id || DEFAULT_LLM_CONFIG.provider) || registry.get(DEFAULT_LLM_CONFIG.provider)!;
+};
+
+export const listLLMProviders = (): LLMProvider[] => Array.from(registry.values());
+
+// Built-in providers
+registerLLMProvider(geminiProvider);
+registerLLMProvider(openAIProvider);
+registerLLMProvider(ollamaProvider);
+registerLLMProvider(llamaCppProvider);
+registerLLMProvider(mockLLMProvider);
+
+// Config with the provider defaults filled in
+export const resolveLLMConfig = (config: LLMConfig = DEFAULT_LLM_CONFIG): LLMConfig => {
+  const provider = getLLMProvider(config.provider);
+  return {
+    ...config,
+    provider: provider.id,
+    baseUrl: (config.baseUrl.trim() || provider.defaultBaseUrl).replace(/\/+$/, ''),
+    model: config.model.trim() || provider.defaultModel
+  };
+};
+
+export const generateText = (request: LLMRequest, config: LLMConfig = DEFAULT_LLM_CONFIG, options?: LLMStreamOptions): Promise<string> => {
+  const provider = getLLMProvider(config.provider);
+  const usableImages = (images?: LLMImage[]) => provider.supportsImages ? images?.filter(img => parseDataUrl(img.dataUrl).data) : undefined;
+  const history = request.history?.map(({ role, text, images }) => ({ role, text, images: usableImages(images) }));
+  const prepared = { ...request, history, images: usableImages(request.images) };
+  const resolved = resolveLLMConfig(config);
+  return runLLMRequest(attemptOptions => provider.generate(prepared, resolved, attemptOptions), prepared, resolved, options);
+};
+
+/**
+ * Streams a response. Cancelling or a broken stream resolves with the partial text instead of
+ * throwing; only a failure before the first token throws.
+ */
+export const streamText = async (request: LLMRequest, config: LLMConfig = DEFAULT_LLM_CONFIG, { signal, onToken }: LLMStreamOptions = {}): Promise<LLMResult> => {
+  let partial = '';
+  try {
+    const text = await generateText(request, config, {
+      signal,
+      onToken: delta => {
+        partial += delta;
+        onToken?.(delta);
+      }
+    });
+    return { text: text || partial, status: 'DONE' };
+  } catch (error) {
+    if (signal?.aborted) return { text: partial, status: 'ABORTED' };
+    if (!partial) throw error;
+    console.warn("LLM stream interrupted, keeping partial answer", error);
+    return { text: partial, status: 'INTERRUPTED' };
+  }
+};
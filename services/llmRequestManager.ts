@@ -0,0 +1,197 @@
+import { AIUsageTally, LLMConfig } from '../types';
+import type { LLMRequest, LLMStreamOptions, LLMUsage } from './llmProvider';
+
+/**
+ * AI 请求管理
+ * Every LLM call goes through here: at most MAX_CONCURRENT run at once (the rest wait in line),
+ * transient failures (network, 429, 5xx) are retried with exponential backoff as long as no text
+ * has been streamed yet, and each finished call is reported with its tokens and estimated cost.
+ */
+
+export const MAX_CONCURRENT = 2;
+export const MAX_RETRIES = 2;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 20000;
+const CHARS_PER_TOKEN = 3; // Rough average for mixed Chinese / English / numbers
+const IMAGE_TOKENS = 800; // Rough cost of one chart screenshot
+
+// HTTP error from a provider; status drives the retry decision
+export class LLMHttpError extends Error {
+  constructor(message: string, public status: number, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'LLMHttpError';
+  }
+}
+
+// Throws an LLMHttpError for a non-2xx response (reads the body for the message)
+export const ensureOk = async (response: Response, name: string): Promise<void> => {
+  if (response.ok) return;
+  const retryAfter = parseFloat(response.headers.get('retry-after') || '');
+  throw new LLMHttpError(`${name} HTTP ${response.status}: ${await response.text()}`, response.status, isFinite(retryAfter) ? retryAfter * 1000 : undefined);
+};
+
+// Network failures, timeouts, rate limits and server errors; not bad keys or bad requests
+export const isTransientError = (error: unknown): boolean => {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return status === 408 || status === 429 || status >= 500;
+  return error instanceof TypeError; // fetch() rejects with a TypeError when the network fails
+};
+
+// Short reason shown to the user instead of a comment
+export const describeLLMError = (error: unknown): string => {
+  const status = (error as { status?: unknown })?.status;
+  if (status === 401 || status === 403) return 'API Key 无效或没有权限，请检查模型设置。';
+  if (status === 429) return '请求过于频繁或额度已用完 (429)，请稍后重试。';
+  if (typeof status === 'number' && status >= 500) return `模型服务暂时不可用 (${status})，请稍后重试。`;
+  if (error instanceof TypeError) return '网络连接失败，请检查网络或 Base URL。';
+  const message = error instanceof Error ? error.message : String(error);
+  return `请求失败：${message.slice(0, 200)}`;
+};
+
+// --- Concurrency ---
+let running = 0;
+const waiting: (() => void)[] = [];
+
+const acquireSlot = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new Error('Aborted'));
+  if (running < MAX_CONCURRENT) {
+    running++;
+    return resolve();
+  }
+  const start = () => {
+    signal?.removeEventListener('abort', cancel);
+    running++;
+    resolve();
+  };
+  const cancel = () => {
+    waiting.splice(waiting.indexOf(start), 1);
+    reject(new Error('Aborted'));
+  };
+  waiting.push(start);
+  signal?.addEventListener('abort', cancel, { once: true });
+});
+
+const releaseSlot = () => {
+  running--;
+  waiting.shift()?.();
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', cancel);
+    resolve();
+  }, ms);
+  const cancel = () => {
+    clearTimeout(timer);
+    reject(new Error('Aborted'));
+  };
+  signal?.addEventListener('abort', cancel, { once: true });
+});
+
+// Server's Retry-After when given, otherwise 1s, 2s, 4s... with some jitter
+const retryDelay = (error: unknown, attempt: number): number => {
+  const retryAfter = (error as { retryAfterMs?: unknown })?.retryAfterMs;
+  const base = typeof retryAfter === 'number' ? retryAfter : BASE_DELAY_MS * 2 ** (attempt - 1) * (1 + Math.random() * 0.3);
+  return Math.min(base, MAX_DELAY_MS);
+};
+
+// --- Usage accounting ---
+export interface LLMCallReport {
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean; // Provider didn't report usage, counted from the text length
+  cost: number; // USD
+  retries: number;
+  failed: boolean;
+  gameId?: number; // Set when the call concerns another game than the running one
+}
+
+const listeners = new Set<(report: LLMCallReport) => void>();
+
+// Subscribes to finished calls; returns the unsubscribe function
+export const onLLMCall = (listener: (report: LLMCallReport) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const estimateUsage = (request: LLMRequest, output: string): LLMUsage => {
+  const turns = [...(request.history || []), { text: request.prompt, images: request.images }];
+  return {
+    inputTokens: estimateTokens(request.system) + turns.reduce((acc, t) => acc + estimateTokens(t.text) + (t.images?.length || 0) * IMAGE_TOKENS, 0),
+    outputTokens: estimateTokens(output)
+  };
+};
+
+const report = (request: LLMRequest, config: LLMConfig, output: string, usage: LLMUsage | undefined, retries: number, failed: boolean, gameId?: number) => {
+  // A call that failed before answering is usually not billed
+  const counted = usage || (failed && !output ? { inputTokens: 0, outputTokens: 0 } : estimateUsage(request, output));
+  const cost = (counted.inputTokens * (config.inputPrice || 0) + counted.outputTokens * (config.outputPrice || 0)) / 1e6;
+  const call: LLMCallReport = { ...counted, estimated: !usage && counted.inputTokens > 0, cost, retries, failed, gameId };
+  listeners.forEach(listener => listener(call));
+};
+
+export const EMPTY_USAGE_TALLY: AIUsageTally = { requests: 0, failures: 0, retries: 0, inputTokens: 0, outputTokens: 0, cost: 0, estimated: false };
+
+export const addToTally = (tally: AIUsageTally = EMPTY_USAGE_TALLY, call: LLMCallReport): AIUsageTally => ({
+  requests: tally.requests + 1,
+  failures: tally.failures + (call.failed ? 1 : 0),
+  retries: tally.retries + call.retries,
+  inputTokens: tally.inputTokens + call.inputTokens,
+  outputTokens: tally.outputTokens + call.outputTokens,
+  cost: tally.cost + call.cost,
+  estimated: tally.estimated || call.estimated
+});
+
+export const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+
+/**
+ * Runs one provider call under the concurrency limit, retrying transient failures.
+ * `attempt` performs a single try; a user abort (also while waiting in line) is never retried.
+ */
+export const runLLMRequest = async (
+  attempt: (options: LLMStreamOptions) => Promise<string>,
+  request: LLMRequest,
+  config: LLMConfig,
+  { signal, onToken, gameId }: LLMStreamOptions = {}
+): Promise<string> => {
+  await acquireSlot(signal);
+  let retries = 0;
+  let streamed = '';
+  let usage: LLMUsage | undefined;
+  try {
+    while (true) {
+      try {
+        const text = await attempt({
+          signal,
+          onToken: delta => {
+            streamed += delta;
+            onToken?.(delta);
+          },
+          onUsage: u => { usage = u; }
+        });
+        report(request, config, text || streamed, usage, retries, false, gameId);
+        return text;
+      } catch (error) {
+        // Text already shown can't be taken back, so only a clean failure is retried
+        if (!signal?.aborted && !streamed && retries < MAX_RETRIES && isTransientError(error)) {
+          retries++;
+          console.warn(`LLM request failed, retrying (${retries}/${MAX_RETRIES})`, error);
+          try {
+            await sleep(retryDelay(error, retries), signal);
+          } catch (abort) {
+            // Cancelled while backing off: the failed attempts so far still count
+            report(request, config, streamed, usage, retries - 1, true, gameId);
+            throw abort;
+          }
+          continue;
+        }
+        report(request, config, streamed, usage, retries, !signal?.aborted, gameId);
+        throw error;
+      }
+    }
+  } finally {
+    releaseSlot();
+  }
+};
@@ -0,0 +1,76 @@
+import { KLineData, Timeframe } from '../types';
+import { parseBinanceKlines } from './binanceService';
+import type { MarketDataProvider } from './marketDataProvider';
+
+// Files are served from Vite's public/ directory: public/data/BTCUSDT_5m.json
+export const LOCAL_DATA_PATH = '/data';
+
+const fileCache = new Map<string, Promise<KLineData[]>>();
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const normalizeCandles = (raw: unknown): KLineData[] => {
+  if (!Array.isArray(raw)) throw new Error('Local data file is not a candle array');
+  if (raw.length === 0) return [];
+  // Accept both the Binance array layout and plain KLineData objects; other rows are skipped
+  const candles = Array.isArray(raw[0])
+    ? parseBinanceKlines(raw.filter(Array.isArray))
+    : raw.filter(isRecord).map(d => ({
+        timestamp: Number(d.timestamp),
+        open: Number(d.open),
+        high: Number(d.high),
+        low: Number(d.low),
+        close: Number(d.close),
+        volume: Number(d.volume || 0),
+        turnover: d.turnover !== undefined ? Number(d.turnover) : undefined
+      }));
+  return candles.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+const loadFile = (basePath: string, symbol: string, interval: Timeframe): Promise<KLineData[]> => {
+  const url = `${basePath}/${symbol}_${interval}.json`;
+  if (!fileCache.has(url)) {
+    const request = fetch(url)
+      .then(res => {
+        if (!res.ok) throw new Error(`Local data file not found: ${url}`);
+        return res.json();
+      })
+      .then(normalizeCandles)
+      .catch(error => {
+        fileCache.delete(url); // allow retry after the file is added
+        throw error;
+      });
+    fileCache.set(url, request);
+  }
+  return fileCache.get(url)!;
+};
+
+/**
+ * 本地 JSON 文件行情
+ */
+export const createLocalFileProvider = (basePath: string = LOCAL_DATA_PATH): MarketDataProvider => ({
+  id: 'local',
+  name: 'Local File',
+  description: `读取 public${basePath}/{SYMBOL}_{INTERVAL}.json`,
+  fetchMarketData: async (symbol, interval, limit, endTime) => {
+    try {
+      const candles = await loadFile(basePath, symbol, interval);
+      const finalEndTime = endTime || Date.now();
+      const visible = candles.filter(c => c.timestamp <= finalEndTime);
+      return visible.slice(-limit);
+    } catch (error) {
+      console.error("Failed to load local data file", error);
+      return [];
+    }
+  },
+  generateRandomMarketEndTime: async (symbol, interval, limit) => {
+    const candles = await loadFile(basePath, symbol, interval).catch(() => [] as KLineData[]);
+    if (candles.length === 0) return Date.now();
+    // Leave at least `limit` candles before the anchor when the file is long enough
+    const minIndex = Math.min(limit - 1, candles.length - 1);
+    const index = minIndex + Math.floor(Math.random() * (candles.length - minIndex));
+    return candles[index].timestamp;
+  }
+});
+
+export const localFileProvider = createLocalFileProvider();
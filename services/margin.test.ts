@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { KLineData, Trade } from '../types';
+import { calcIsolatedLiquidationPrice, findLiquidations } from './margin';
+
+const candle = (open: number, high: number, low: number, close: number): KLineData => ({ timestamp: 0, open, high, low, close, volume: 0 });
+
+const isolatedLong = (liquidationPrice: number): Trade => ({
+  id: 't1', gameId: 1, symbol: 'BTCUSDT', direction: 'LONG', entryPrice: 100, tp: 120, sl: 50,
+  quantity: 1, entryTime: 0, status: 'OPEN', pnl: 0, reason: '',
+  leverage: 10, marginMode: 'ISOLATED', margin: 10, maintenanceMarginPercent: 0.5, liquidationPrice
+});
+
+describe('calcIsolatedLiquidationPrice', () => {
+  it('moves the price closer to entry by the entry fee', () => {
+    const withoutFee = calcIsolatedLiquidationPrice('LONG', 100, 10, 0);
+    expect(withoutFee).toBeCloseTo(90);
+    expect(calcIsolatedLiquidationPrice('LONG', 100, 10, 0, 0.5)).toBeCloseTo(90.5);
+    expect(calcIsolatedLiquidationPrice('SHORT', 100, 10, 0, 0.5)).toBeCloseTo(109.5);
+  });
+});
+
+describe('findLiquidations', () => {
+  it('fills at the liquidation price when the candle trades through it', () => {
+    expect(findLiquidations([isolatedLong(90)], 1000, candle(95, 96, 85, 88)).get('t1')).toBe(90);
+  });
+
+  it('fills at the open when the candle gaps past it', () => {
+    expect(findLiquidations([isolatedLong(90)], 1000, candle(80, 82, 78, 81)).get('t1')).toBe(80);
+  });
+});
@@ -0,0 +1,107 @@
+import { KLineData, MarginMode, Trade } from '../types';
+import { calcUnrealizedPnl, getOpenQuantity } from './positionBook';
+
+/**
+ * 保证金与强平
+ * Isolated positions have a fixed liquidation price; cross positions share the wallet,
+ * so their liquidation price is solved for the whole group (single symbol => linear in price).
+ */
+
+export const LEVERAGE_OPTIONS = [1, 2, 3, 5, 10, 20, 50, 100];
+export const DEFAULT_LEVERAGE = 10;
+export const DEFAULT_MARGIN_MODE: MarginMode = 'ISOLATED';
+export const MAINTENANCE_MARGIN_PERCENT = 0.5;
+
+export const calcInitialMargin = (price: number, quantity: number, leverage: number): number =>
+  leverage > 0 ? price * quantity / leverage : price * quantity;
+
+// Margin locked by the open size of a position (legacy trades are fully funded)
+export const getPositionMargin = (trade: Trade): number =>
+  (trade.margin ?? trade.entryPrice * trade.quantity) * getOpenQuantity(trade) / trade.quantity;
+
+/**
+ * Isolated: liquidated when the loss plus the entry fee already owed eats the margin down to
+ * the maintenance requirement (the exit fee and funding are left out).
+ * LONG: (entry - P) * q + fee = entry * q / L - mmr * P * q
+ */
+export const calcIsolatedLiquidationPrice = (
+  direction: Trade['direction'],
+  entryPrice: number,
+  leverage: number,
+  maintenanceMarginPercent: number,
+  entryFeePerUnit = 0
+): number => {
+  const mmr = maintenanceMarginPercent / 100;
+  return direction === 'LONG'
+    ? Math.max(0, (entryPrice * (1 - 1 / leverage) + entryFeePerUnit) / (1 - mmr))
+    : (entryPrice * (1 + 1 / leverage) - entryFeePerUnit) / (1 + mmr);
+};
+
+const isCross = (t: Trade) => t.marginMode === 'CROSS';
+const isIsolated = (t: Trade) => t.marginMode === 'ISOLATED';
+
+/**
+ * Wallet balance backing the cross positions: isolated margins are ring-fenced,
+ * and open entry fees are already owed.
+ */
+export const getCrossCollateral = (walletBalance: number, openTrades: Trade[]): number =>
+  walletBalance
+    - openTrades.filter(t => !isCross(t)).reduce((acc, t) => acc + getPositionMargin(t), 0)
+    - openTrades.filter(isCross).reduce((acc, t) => acc + (t.entryFee || 0), 0);
+
+// Cross account equity minus maintenance margin at `price` (< 0 => liquidation)
+export const calcCrossMarginSurplus = (crossTrades: Trade[], collateral: number, price: number): number =>
+  crossTrades.reduce((acc, t) => {
+    const pricePnl = calcUnrealizedPnl(t, price) + (t.entryFee || 0); // fees are already out of the collateral
+    const maintenance = (t.maintenanceMarginPercent ?? MAINTENANCE_MARGIN_PERCENT) / 100 * price * getOpenQuantity(t);
+    return acc + pricePnl - maintenance;
+  }, collateral);
+
+/**
+ * Price where the cross surplus reaches 0. Returns null when there are no cross
+ * positions or the solution is not a positive price.
+ */
+export const calcCrossLiquidationPrice = (crossTrades: Trade[], collateral: number): number | null => {
+  if (crossTrades.length === 0) return null;
+  // surplus(P) = a + b * P
+  const a = calcCrossMarginSurplus(crossTrades, collateral, 0);
+  const b = calcCrossMarginSurplus(crossTrades, collateral, 1) - a;
+  if (b === 0) return null;
+  const price = -a / b;
+  return price > 0 && isFinite(price) ? price : null;
+};
+
+// Wallet balance plus unrealized PnL, minus the margin already locked by open positions
+export const calcFreeMargin = (walletBalance: number, openTrades: Trade[], price: number): number =>
+  walletBalance
+    + openTrades.reduce((acc, t) => acc + calcUnrealizedPnl(t, price), 0)
+    - openTrades.reduce((acc, t) => acc + getPositionMargin(t), 0);
+
+const isBetween = (value: number, from: number, to: number) => value >= Math.min(from, to) && value <= Math.max(from, to);
+
+/**
+ * Positions liquidated by `candle`, with their fill price: the liquidation price, or the open
+ * when the candle gapped through it. A stop that sits between the open and the liquidation price
+ * fires first and is left to the SL check.
+ */
+export const findLiquidations = (openTrades: Trade[], walletBalance: number, candle: KLineData): Map<string, number> => {
+  const result = new Map<string, number>();
+  const stopFiresFirst = (t: Trade, liqPrice: number) => isBetween(t.sl, candle.open, liqPrice);
+
+  openTrades.filter(isIsolated).forEach(t => {
+    if (t.liquidationPrice === undefined) return;
+    const hit = t.direction === 'LONG' ? candle.low <= t.liquidationPrice : candle.high >= t.liquidationPrice;
+    const gapped = t.direction === 'LONG' ? candle.open <= t.liquidationPrice : candle.open >= t.liquidationPrice;
+    if (hit && !stopFiresFirst(t, t.liquidationPrice)) result.set(t.id, gapped ? candle.open : t.liquidationPrice);
+  });
+
+  const crossTrades = openTrades.filter(isCross);
+  const collateral = getCrossCollateral(walletBalance, openTrades);
+  const liqPrice = calcCrossLiquidationPrice(crossTrades, collateral);
+  const breached = [candle.low, candle.high].some(p => calcCrossMarginSurplus(crossTrades, collateral, p) < 0);
+  if (liqPrice !== null && breached) {
+    const fillPrice = calcCrossMarginSurplus(crossTrades, collateral, candle.open) < 0 ? candle.open : liqPrice;
+    crossTrades.filter(t => !stopFiresFirst(t, liqPrice)).forEach(t => result.set(t.id, fillPrice));
+  }
+  return result;
+};
@@ -0,0 +1,74 @@
+import { KLineData, MarketDataSource, Timeframe } from '../types';
+import { binanceProvider } from './binanceService';
+import { localFileProvider } from './localFileProvider';
+import { syntheticProvider } from './syntheticProvider';
+import { datasetProvider } from './datasetProvider';
+
+/**
+ * 行情数据源
+ * Every provider returns candles in ascending order, ending at or before endTime.
+ */
+export interface MarketDataProvider {
+  id: MarketDataSource;
+  name: string;
+  description: string;
+  fetchMarketData: (symbol: string, interval: Timeframe, limit: number, endTime?: number) => Promise<KLineData[]>;
+  // Picks a random anchor (last candle timestamp) for a new game
+  generateRandomMarketEndTime: (symbol: string, interval: Timeframe, limit: number) => Promise<number>;
+}
+
+export const DEFAULT_MARKET_DATA_SOURCE: MarketDataSource = 'binance';
+
+const registry = new Map<MarketDataSource, MarketDataProvider>();
+
+export const registerMarketDataProvider = (provider: MarketDataProvider) => {
+  registry.set(provider.id, provider);
+};
+
+export const getMarketDataProvider = (id?: MarketDataSource): MarketDataProvider => {
+  return registry.get(id || DEFAULT_MARKET_DATA_SOURCE) || registry.get(DEFAULT_MARKET_DATA_SOURCE)!;
+};
+
+export const listMarketDataProviders = (): MarketDataProvider[] => Array.from(registry.values());
+
+// Built-in providers
+registerMarketDataProvider(binanceProvider);
+registerMarketDataProvider(localFileProvider);
+registerMarketDataProvider(syntheticProvider);
+registerMarketDataProvider(datasetProvider);
+
+// Most exchanges (Binance included) cap a single kline request at 1000 candles
+export const MAX_PAGE_SIZE = 1000;
+
+/**
+ * 分页拉取历史 K 线
+ * Pages backwards from endTime until `total` candles are collected or the source runs dry,
+ * then stitches and de-duplicates the pages.
+ */
+export const fetchMarketHistory = async (
+  provider: MarketDataProvider,
+  symbol: string,
+  interval: Timeframe,
+  total: number,
+  endTime?: number
+): Promise<KLineData[]> => {
+  const byTime = new Map<number, KLineData>();
+  let cursor = endTime || Date.now();
+
+  while (byTime.size < total) {
+    const pageSize = Math.min(MAX_PAGE_SIZE, total - byTime.size);
+    const page = await provider.fetchMarketData(symbol, interval, pageSize, cursor);
+    if (page.length === 0) break;
+
+    const before = byTime.size;
+    page.forEach(c => byTime.set(c.timestamp, c));
+    const earliest = page[0].timestamp;
+    // No new candles or no progress backwards: the source has no older data
+    if (byTime.size === before || earliest >= cursor) break;
+    cursor = earliest - 1;
+  }
+
+  return Array.from(byTime.values())
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(-total);
+};
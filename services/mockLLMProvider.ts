@@ -0,0 +1,84 @@
+import { LLMProviderKind } from '../types';
+import type { LLMProvider, LLMRequest } from './llmProvider';
+
+/**
+ * 离线模拟模型
+ * Answers instantly without network, so the coach flow can be exercised offline.
+ * Providers keep the most recent requests they received for inspection.
+ */
+
+export interface MockLLMProvider extends LLMProvider {
+  calls: LLMRequest[];
+}
+
+const MAX_RECORDED_CALLS = 20; // Requests carry screenshots, don't hoard them
+const STREAM_DELAY_MS = 40;
+
+const defaultReply = (request: LLMRequest): string => [
+  '**🧪 Mock 教练**',
+  '',
+  `- System Prompt: ${request.system.trim().length} 字`,
+  ...(request.history?.length ? [`- 历史消息: ${request.history.length} 条`] : []),
+  `- Prompt: ${request.prompt.trim().length} 字`,
+  `- 图表截图: ${request.images?.length || 0} 张`,
+  '',
+  '> 这是离线模拟回复，切换到真实模型后才会得到点评。'
+].join('\n');
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Fills a JSON Schema with placeholder values: the first string gets the reply text, numbers the middle of their range, enums their first value
+const sampleFromSchema = (value: unknown, text: string, state = { textUsed: false }): unknown => {
+  const schema = isRecord(value) ? value : {};
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+  const bound = (v: unknown, fallback: number) => typeof v === 'number' ? v : fallback;
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(isRecord(schema.properties) ? schema.properties : {}).map(([key, prop]) => [key, sampleFromSchema(prop, text, state)]));
+    case 'array':
+      return [sampleFromSchema(schema.items, text, state)];
+    case 'number':
+    case 'integer':
+      return (bound(schema.minimum, 0) + bound(schema.maximum, 10)) / 2;
+    case 'boolean':
+      return false;
+    default:
+      if (state.textUsed) return 'mock';
+      state.textUsed = true;
+      return text;
+  }
+};
+
+export const createMockLLMProvider = (
+  reply: string | ((request: LLMRequest) => string) = defaultReply,
+  id: LLMProviderKind = 'mock'
+): MockLLMProvider => {
+  const calls: LLMRequest[] = [];
+  return {
+    id,
+    name: 'Mock (离线)',
+    description: '不联网，返回固定的模拟回复',
+    defaultBaseUrl: '',
+    defaultModel: 'mock',
+    requiresApiKey: false,
+    supportsImages: true,
+    calls,
+    generate: async (request, _config, { signal, onToken } = {}) => {
+      calls.push(request);
+      if (calls.length > MAX_RECORDED_CALLS) calls.shift();
+      const answer = typeof reply === 'function' ? reply(request) : reply;
+      const text = request.responseSchema && !answer.trim().startsWith('{') ? JSON.stringify(sampleFromSchema(request.responseSchema, answer)) : answer;
+      if (!onToken) return text;
+      // Emit in small pieces so streaming UIs have something to render
+      for (const piece of text.match(/[^\n]{1,24}\n?|\n/g) || []) {
+        if (!piece) continue;
+        await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+        if (signal?.aborted) throw new Error('Aborted');
+        onToken(piece);
+      }
+      return text;
+    }
+  };
+};
+
+export const mockLLMProvider = createMockLLMProvider();
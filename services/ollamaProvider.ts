@@ -0,0 +1,60 @@
+import type { LLMImage, LLMProvider } from './llmProvider';
+import { parseDataUrl } from './dataUrl';
+import { readLines } from './httpStream';
+import { ensureOk } from './llmRequestManager';
+
+/**
+ * Ollama 本地模型 (/api/chat)
+ * Images go in as raw base64 on the user message; the model must be multimodal (llava, qwen2.5vl...).
+ * The browser origin has to be allowed via OLLAMA_ORIGINS.
+ */
+// Ollama takes a single image list per message, so the captions are folded into the text
+const toMessage = (role: string, text: string, images: LLMImage[] = []) => {
+  const captions = images.map((img, i) => `图 ${i + 1}: ${img.label}`).join('\n');
+  return {
+    role,
+    content: captions ? `${text}\n\n${captions}` : text,
+    ...(images.length ? { images: images.map(img => parseDataUrl(img.dataUrl).data) } : {})
+  };
+};
+
+export const ollamaProvider: LLMProvider = {
+  id: 'ollama',
+  name: 'Ollama',
+  description: '本地 Ollama 服务 (需设置 OLLAMA_ORIGINS 允许跨域)',
+  defaultBaseUrl: 'http://localhost:11434',
+  defaultModel: 'llava',
+  requiresApiKey: false,
+  supportsImages: true,
+  generate: async ({ system, history = [], prompt, images = [], responseSchema }, config, { signal, onToken, onUsage } = {}) => {
+    const response = await fetch(`${config.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.model,
+        stream: true,
+        ...(responseSchema ? { format: responseSchema } : {}),
+        options: { temperature: config.temperature },
+        messages: [
+          { role: 'system', content: system },
+          ...history.map(m => toMessage(m.role, m.text, m.images)),
+          toMessage('user', prompt, images)
+        ]
+      }),
+      signal
+    });
+    await ensureOk(response, 'Ollama');
+
+    // One JSON object per line until `done: true`
+    let text = '';
+    await readLines(response, line => {
+      const json = JSON.parse(line);
+      if (json?.error) throw new Error(`Ollama: ${json.error}`);
+      if (json?.done) onUsage?.({ inputTokens: json.prompt_eval_count || 0, outputTokens: json.eval_count || 0 });
+      const delta = json?.message?.content || '';
+      text += delta;
+      if (delta) onToken?.(delta);
+    });
+    return text;
+  }
+};
@@ -0,0 +1,91 @@
+import { LLMProviderKind } from '../types';
+import type { LLMImage, LLMProvider } from './llmProvider';
+import { readLines } from './httpStream';
+import { ensureOk } from './llmRequestManager';
+
+/**
+ * OpenAI 兼容接口 (/chat/completions)
+ * Also covers the llama.cpp server, vLLM, LM Studio and most hosted gateways.
+ */
+
+interface OpenAICompatibleOptions {
+  id: LLMProviderKind;
+  name: string;
+  description: string;
+  defaultBaseUrl: string; // Up to and including the version segment, e.g. .../v1
+  defaultModel: string;
+  requiresApiKey: boolean;
+}
+
+// Plain string when there are no images, otherwise the multi-part content array
+const toContent = (text: string, images: LLMImage[] = []) => images.length === 0
+  ? text
+  : [
+      { type: 'text', text },
+      ...images.flatMap(img => [
+        { type: 'text', text: img.label },
+        { type: 'image_url', image_url: { url: img.dataUrl } }
+      ])
+    ];
+
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleOptions): LLMProvider => ({
+  ...options,
+  supportsImages: true,
+  generate: async ({ system, history = [], prompt, images = [], responseSchema }, config, { signal, onToken, onUsage } = {}) => {
+    const response = await fetch(`${config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: config.model,
+        temperature: config.temperature,
+        stream: true,
+        stream_options: { include_usage: true }, // Final chunk carries the token counts
+        ...(responseSchema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: responseSchema } } } : {}),
+        messages: [
+          { role: 'system', content: system },
+          // Only user turns may carry images
+          ...history.map(m => ({ role: m.role, content: m.role === 'user' ? toContent(m.text, m.images) : m.text })),
+          { role: 'user', content: toContent(prompt, images) }
+        ]
+      }),
+      signal
+    });
+    await ensureOk(response, options.name);
+
+    // Server-sent events: `data: {json}` per chunk, `data: [DONE]` at the end
+    let text = '';
+    await readLines(response, line => {
+      if (!line.startsWith('data:')) return;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+      const json = JSON.parse(data);
+      if (json?.usage) onUsage?.({ inputTokens: json.usage.prompt_tokens || 0, outputTokens: json.usage.completion_tokens || 0 });
+      const delta = json?.choices?.[0]?.delta?.content || '';
+      text += delta;
+      if (delta) onToken?.(delta);
+    });
+    return text;
+  }
+});
+
+export const openAIProvider = createOpenAICompatibleProvider({
+  id: 'openai',
+  name: 'OpenAI 兼容',
+  description: 'OpenAI 或任意 /chat/completions 兼容网关',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  defaultModel: 'gpt-4o-mini',
+  requiresApiKey: true
+});
+
+// llama-server serves whatever model it was started with, so the model name is informational
+export const llamaCppProvider = createOpenAICompatibleProvider({
+  id: 'llamacpp',
+  name: 'llama.cpp',
+  description: '本地 llama-server (多模态需加载 mmproj)',
+  defaultBaseUrl: 'http://localhost:8080/v1',
+  defaultModel: 'local',
+  requiresApiKey: false
+});
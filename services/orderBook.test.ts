@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { KLineData, PendingOrder } from '../types';
+import { ZERO_COST_MODEL } from './tradeCosts';
+import { evaluateOrder } from './orderBook';
+
+const candle = (open: number, high: number, low: number, close: number): KLineData => ({ timestamp: 0, open, high, low, close, volume: 0 });
+
+// Buy stop at 100 that may pay at most 99 (the limit sits below the stop)
+const stopLimitLong: PendingOrder = {
+  id: 'o1', gameId: 1, symbol: 'BTCUSDT', direction: 'LONG', createdAt: 0, status: 'PENDING',
+  ticket: { reason: '', tp: 120, sl: 90, sizingMode: 'FIXED_UNITS', sizingValue: 1, leverage: 1, marginMode: 'ISOLATED', orderType: 'STOP_LIMIT', stopPrice: 100, limitPrice: 99 }
+};
+
+describe('evaluateOrder STOP_LIMIT', () => {
+  it('only triggers when the candle stays above the limit after the stop', () => {
+    expect(evaluateOrder(stopLimitLong, candle(95, 105, 94, 103), ZERO_COST_MODEL)).toEqual({ type: 'TRIGGER' });
+  });
+
+  it('fills at the limit when the candle closes back through it', () => {
+    const event = evaluateOrder(stopLimitLong, candle(95, 105, 94, 97), ZERO_COST_MODEL);
+    expect(event.type).toBe('FILL');
+    expect(event.type === 'FILL' && event.fill.price).toBe(99);
+  });
+
+  it('fills a triggered order like a limit on later candles', () => {
+    const event = evaluateOrder({ ...stopLimitLong, triggered: true }, candle(102, 103, 98, 101), ZERO_COST_MODEL);
+    expect(event.type === 'FILL' && event.fill.price).toBe(99);
+  });
+
+  it('stays pending when the stop is not reached', () => {
+    expect(evaluateOrder(stopLimitLong, candle(95, 99, 94, 96), ZERO_COST_MODEL)).toEqual({ type: 'NONE' });
+  });
+});
@@ -0,0 +1,83 @@
+import { KLineData, PendingOrder, TradeCostModel, TradeTicket } from '../types';
+import { EntryFill, entryFill } from './tradeCosts';
+
+/**
+ * 挂单撮合
+ * Resolves pending LIMIT / STOP / STOP_LIMIT entry orders against each new candle's OHLC.
+ * Gaps through the order level fill at the open (better for limits, worse for stops).
+ */
+
+export const ORDER_TYPE_LABELS: Record<TradeTicket['orderType'], string> = {
+  MARKET: '市价',
+  LIMIT: '限价',
+  STOP: '止损单',
+  STOP_LIMIT: '止损限价'
+};
+
+export const getPendingOrders = (orders: PendingOrder[]): PendingOrder[] => orders.filter(o => o.status === 'PENDING');
+
+// The price an order line is drawn at (the level that fires next)
+export const getOrderLevel = (order: PendingOrder): number => {
+  const { orderType, limitPrice, stopPrice } = order.ticket;
+  if (orderType === 'LIMIT' || (orderType === 'STOP_LIMIT' && order.triggered)) return limitPrice!;
+  return stopPrice!;
+};
+
+export type OrderEvent =
+  | { type: 'FILL'; fill: EntryFill }
+  | { type: 'TRIGGER' } // STOP_LIMIT stop fired but its limit wasn't reached after the trigger in this candle
+  | { type: 'EXPIRE' }
+  | { type: 'NONE' };
+
+const fillLimit = (order: PendingOrder, candle: KLineData, model: TradeCostModel): EntryFill | null => {
+  const limit = order.ticket.limitPrice!;
+  if (order.direction === 'LONG') {
+    return candle.low <= limit ? entryFill('LONG', Math.min(candle.open, limit), 'MAKER', model) : null;
+  }
+  return candle.high >= limit ? entryFill('SHORT', Math.max(candle.open, limit), 'MAKER', model) : null;
+};
+
+// Price where the stop fires, or null when the candle doesn't reach it
+const stopTriggerPrice = (order: PendingOrder, candle: KLineData): number | null => {
+  const stop = order.ticket.stopPrice!;
+  if (order.direction === 'LONG') return candle.high >= stop ? Math.max(candle.open, stop) : null;
+  return candle.low <= stop ? Math.min(candle.open, stop) : null;
+};
+
+export const evaluateOrder = (order: PendingOrder, candle: KLineData, model: TradeCostModel): OrderEvent => {
+  if (order.status !== 'PENDING') return { type: 'NONE' };
+  const { orderType, limitPrice } = order.ticket;
+
+  if (orderType === 'LIMIT' || (orderType === 'STOP_LIMIT' && order.triggered)) {
+    const fill = fillLimit(order, candle, model);
+    if (fill) return { type: 'FILL', fill };
+  } else {
+    const triggerPrice = stopTriggerPrice(order, candle);
+    if (triggerPrice !== null) {
+      if (orderType === 'STOP') return { type: 'FILL', fill: entryFill(order.direction, triggerPrice, 'TAKER', model) };
+      // STOP_LIMIT: marketable when the trigger price is within the limit, otherwise it rests
+      const marketable = order.direction === 'LONG' ? triggerPrice <= limitPrice! : triggerPrice >= limitPrice!;
+      if (marketable) {
+        // Slippage can't push the fill past the limit
+        const fill = entryFill(order.direction, triggerPrice, 'TAKER', model);
+        const price = order.direction === 'LONG' ? Math.min(fill.price, limitPrice!) : Math.max(fill.price, limitPrice!);
+        return { type: 'FILL', fill: { ...fill, price } };
+      }
+      // The intrabar order is unknown; only a close back through the limit proves it was reached after the trigger
+      const reachedLater = order.direction === 'LONG' ? candle.close <= limitPrice! : candle.close >= limitPrice!;
+      if (reachedLater) return { type: 'FILL', fill: entryFill(order.direction, limitPrice!, 'MAKER', model) };
+      return { type: 'TRIGGER' };
+    }
+  }
+
+  if (order.expiresAt !== undefined && candle.timestamp >= order.expiresAt) return { type: 'EXPIRE' };
+  return { type: 'NONE' };
+};
+
+export const describeOrder = (order: PendingOrder): string => {
+  const { orderType, limitPrice, stopPrice } = order.ticket;
+  const side = order.direction === 'LONG' ? '买入' : '卖出';
+  if (orderType === 'LIMIT') return `${side} ${ORDER_TYPE_LABELS.LIMIT} @ ${limitPrice!.toFixed(2)}`;
+  if (orderType === 'STOP') return `${side} ${ORDER_TYPE_LABELS.STOP} @ ${stopPrice!.toFixed(2)}`;
+  return `${side} ${ORDER_TYPE_LABELS.STOP_LIMIT} ${stopPrice!.toFixed(2)} → ${limitPrice!.toFixed(2)}${order.triggered ? ' (已触发)' : ''}`;
+};
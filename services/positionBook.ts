@@ -0,0 +1,59 @@
+import { Trade } from '../types';
+
+/**
+ * 持仓簿
+ * Aggregates every open position (hedged long/short and scaled-in entries) into one exposure view.
+ */
+
+export interface PositionView {
+  trade: Trade;
+  unrealizedPnl: number;
+}
+
+export interface ExposureSummary {
+  longQuantity: number;
+  shortQuantity: number;
+  netQuantity: number; // > 0 net long, < 0 net short
+  longAvgEntry: number; // quantity-weighted, 0 when flat
+  shortAvgEntry: number;
+  grossNotional: number; // sum of |quantity| * price
+  netNotional: number;
+  unrealizedPnl: number;
+  positions: PositionView[];
+}
+
+export const getOpenPositions = (trades: Trade[]): Trade[] => trades.filter(t => t.status === 'OPEN');
+
+// Size still open after partial exits
+export const getOpenQuantity = (trade: Trade): number => trade.remainingQuantity ?? trade.quantity;
+
+// Mark-to-market PnL of the open size, net of the entry fee already paid
+export const calcUnrealizedPnl = (trade: Trade, price: number): number =>
+  (trade.direction === 'LONG'
+    ? (price - trade.entryPrice) * getOpenQuantity(trade)
+    : (trade.entryPrice - price) * getOpenQuantity(trade)) - (trade.entryFee || 0);
+
+const weightedEntry = (trades: Trade[]): number => {
+  const qty = trades.reduce((acc, t) => acc + getOpenQuantity(t), 0);
+  return qty > 0 ? trades.reduce((acc, t) => acc + t.entryPrice * getOpenQuantity(t), 0) / qty : 0;
+};
+
+export const summarizeExposure = (openTrades: Trade[], price: number): ExposureSummary => {
+  const longs = openTrades.filter(t => t.direction === 'LONG');
+  const shorts = openTrades.filter(t => t.direction === 'SHORT');
+  const longQuantity = longs.reduce((acc, t) => acc + getOpenQuantity(t), 0);
+  const shortQuantity = shorts.reduce((acc, t) => acc + getOpenQuantity(t), 0);
+  const positions = openTrades.map(trade => ({ trade, unrealizedPnl: calcUnrealizedPnl(trade, price) }));
+
+  return {
+    longQuantity,
+    shortQuantity,
+    netQuantity: longQuantity - shortQuantity,
+    longAvgEntry: weightedEntry(longs),
+    shortAvgEntry: weightedEntry(shorts),
+    grossNotional: (longQuantity + shortQuantity) * price,
+    netNotional: (longQuantity - shortQuantity) * price,
+    unrealizedPnl: positions.reduce((acc, p) => acc + p.unrealizedPnl, 0),
+    positions
+  };
+};
@@ -0,0 +1,99 @@
+import { PositionSizing, SizingMode, Trade } from '../types';
+
+/**
+ * 仓位计算
+ */
+
+export interface SizingModeOption {
+  mode: SizingMode;
+  label: string;
+  unit: string;
+  defaultValue: number;
+  step: number;
+}
+
+export const SIZING_MODES: SizingModeOption[] = [
+  { mode: 'RISK_PERCENT', label: '风险 %', unit: '% 权益', defaultValue: 1, step: 0.1 },
+  { mode: 'FIXED_NOTIONAL', label: '固定金额', unit: 'USD', defaultValue: 5000, step: 100 },
+  { mode: 'FIXED_UNITS', label: '固定数量', unit: '个', defaultValue: 0.1, step: 0.001 },
+  { mode: 'KELLY', label: '凯利', unit: '× Kelly', defaultValue: 0.5, step: 0.05 }
+];
+
+export const DEFAULT_SIZING_MODE: SizingMode = 'RISK_PERCENT';
+
+export interface SizingInput {
+  mode: SizingMode;
+  value: number;
+  equity: number;
+  entryPrice: number;
+  sl: number;
+  tp: number;
+  winRate: number; // Used by KELLY only
+}
+
+/**
+ * Estimated win rate with a Laplace prior, so a handful of trades can't swing Kelly to 0% or 100%.
+ */
+export const estimateWinRate = (trades: Trade[]): number => {
+  const closed = trades.filter(t => t.status !== 'OPEN');
+  const wins = closed.filter(t => t.pnl > 0).length;
+  return (wins + 1) / (closed.length + 2);
+};
+
+// Reward / risk of the plan, 0 without a stop distance
+export const calcPlannedRR = (entryPrice: number, sl: number, tp: number): number => {
+  const slDistance = Math.abs(entryPrice - sl);
+  return slDistance > 0 ? Math.abs(tp - entryPrice) / slDistance : 0;
+};
+
+// f* = W - (1 - W) / R
+export const calcKellyFraction = (winRate: number, rr: number): number => {
+  if (rr <= 0) return 0;
+  return Math.max(0, winRate - (1 - winRate) / rr);
+};
+
+export const calcPositionSize = (input: SizingInput): { quantity: number; sizing: PositionSizing } => {
+  const { mode, value, equity, entryPrice, sl, tp, winRate } = input;
+  const slDistance = Math.abs(entryPrice - sl);
+  const rr = calcPlannedRR(entryPrice, sl, tp);
+
+  let quantity = 0;
+  let kellyFraction: number | undefined;
+
+  switch (mode) {
+    case 'RISK_PERCENT':
+      quantity = slDistance > 0 ? (equity * value / 100) / slDistance : 0;
+      break;
+    case 'FIXED_NOTIONAL':
+      quantity = entryPrice > 0 ? value / entryPrice : 0;
+      break;
+    case 'FIXED_UNITS':
+      quantity = value;
+      break;
+    case 'KELLY':
+      kellyFraction = calcKellyFraction(winRate, rr);
+      quantity = slDistance > 0 ? (equity * kellyFraction * value) / slDistance : 0;
+      break;
+  }
+
+  quantity = Math.max(0, isFinite(quantity) ? quantity : 0);
+  const riskAmount = quantity * slDistance;
+
+  return {
+    quantity,
+    sizing: {
+      mode,
+      value,
+      equityAtEntry: equity,
+      riskAmount,
+      riskPercent: equity > 0 ? (riskAmount / equity) * 100 : 0,
+      kellyFraction
+    }
+  };
+};
+
+export const describeSizing = (sizing: PositionSizing): string => {
+  const option = SIZING_MODES.find(m => m.mode === sizing.mode);
+  const kelly = sizing.kellyFraction !== undefined ? `, Kelly f*=${(sizing.kellyFraction * 100).toFixed(1)}%` : '';
+  return `${option?.label || sizing.mode} ${sizing.value} ${option?.unit || ''} → 风险 $${sizing.riskAmount.toFixed(2)} (${sizing.riskPercent.toFixed(2)}% 权益${kelly})`;
+};
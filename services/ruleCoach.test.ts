@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { KLineData, Trade } from '../types';
+import { calcGameStats } from './gameStats';
+import { RULE_COACH_HEADER, ruleBasedEvaluation, ruleBasedGameReport, ruleTrend } from './ruleCoach';
+
+const HOUR = 3600_000;
+
+// Steady climb: 1 per candle, flat volume except the last candle
+const risingCandles = (count: number, lastVolume = 100): KLineData[] =>
+  Array.from({ length: count }, (_, i) => ({
+    timestamp: i * HOUR,
+    open: 100 + i,
+    high: 101.5 + i,
+    low: 99.5 + i,
+    close: 101 + i,
+    volume: i === count - 1 ? lastVolume : 100
+  }));
+
+const makeTrade = (overrides: Partial<Trade> = {}): Trade => ({
+  id: 't1',
+  gameId: 1,
+  symbol: 'BTCUSDT',
+  direction: 'LONG',
+  entryPrice: 160,
+  tp: 175,
+  sl: 155,
+  quantity: 1,
+  entryTime: 59 * HOUR,
+  status: 'OPEN',
+  pnl: 0,
+  reason: '',
+  ...overrides
+});
+
+describe('ruleBasedEvaluation', () => {
+  const candles = risingCandles(60, 200);
+
+  it('rewards a long with the trend', () => {
+    const { score } = ruleBasedEvaluation(makeTrade({ reason: '回踩二十日均线后放量收阳，均线多头排列，沿趋势做多。止损放在前低下方，跌破说明结构失效；目标看前高附近的供给区，盈亏比三倍。' }), candles);
+    expect(ruleTrend(candles)).toBe('UP');
+    expect(score?.criteria.trendAlignment).toBe(9);
+    expect(score?.criteria.riskReward).toBe(10); // 15 / 5 = 3R
+    expect(score?.criteria.volume).toBe(9); // 2x the average on a green candle
+    expect(score?.criteria.reasoning).toBe(7);
+  });
+
+  it('penalizes a counter-trend short without reasoning', () => {
+    const { comment, score } = ruleBasedEvaluation(makeTrade({ direction: 'SHORT', tp: 150, sl: 165 }), candles);
+    expect(score?.criteria.trendAlignment).toBe(2);
+    expect(score?.criteria.reasoning).toBe(2);
+    expect(score?.overall).toBeLessThan(5);
+    expect(comment.startsWith(RULE_COACH_HEADER)).toBe(true);
+    expect(comment).toContain('需要改进');
+  });
+
+  it('ignores candles after the entry and is deterministic', () => {
+    const trade = makeTrade({ entryTime: 30 * HOUR });
+    const first = ruleBasedEvaluation(trade, candles);
+    expect(ruleBasedEvaluation(trade, candles.slice(0, 31))).toEqual(first);
+    expect(first.score?.criteria.trendAlignment).toBe(5); // 31 candles < SLOW_MA
+  });
+
+  it('scores zero RR without a valid stop', () => {
+    const { score } = ruleBasedEvaluation(makeTrade({ sl: 160 }), candles);
+    expect(score?.criteria.riskReward).toBe(0);
+  });
+});
+
+describe('ruleBasedGameReport', () => {
+  const closed = (pnl: number, i: number): Trade => makeTrade({
+    id: `t${i}`,
+    status: pnl > 0 ? 'CLOSED_TP' : 'CLOSED_SL',
+    pnl,
+    entryTime: i * HOUR,
+    exitTime: i * HOUR + HOUR,
+    exitPrice: pnl > 0 ? 175 : 155
+  });
+
+  it('falls back to a trade count without stats', () => {
+    const report = ruleBasedGameReport([closed(50, 0), closed(-20, 1)]);
+    expect(report).toContain('本局共 2 笔交易，总盈亏 30.00');
+  });
+
+  it('grades a losing game and lists its problems', () => {
+    const trades = [closed(-100, 0), closed(-100, 1), closed(-100, 2), closed(50, 3)];
+    const report = ruleBasedGameReport(trades, calcGameStats(trades, 1000));
+    expect(report).toContain('## 评级：D');
+    expect(report).toContain('期望值为负');
+    expect(report).toContain('3 连亏');
+  });
+
+  it('grades a profitable game as A', () => {
+    const trades = [closed(100, 0), closed(100, 1), closed(-20, 2)];
+    const report = ruleBasedGameReport(trades, calcGameStats(trades, 1000));
+    expect(report).toContain('## 评级：A');
+  });
+});
@@ -0,0 +1,189 @@
+import { AIResponse, GameStats, KLineData, RuleCoachMode, ScoreCriterion, Trade, TradeScore } from '../types';
+import { SCORE_CRITERIA } from './tradeScoring';
+import { calcPlannedRR } from './positionSizing';
+import { describeGameStats } from './gameStats';
+
+/**
+ * 离线规则教练
+ * Scores an entry from the candles alone (trend, location in the recent range, volume) plus the
+ * plan's RR and reasoning, without any network. Same input, same output: usable as a fallback
+ * when the model fails, for demos without an API key, and as a fixed reference in tests.
+ */
+
+export const RULE_COACH_MODES: Record<RuleCoachMode, string> = {
+  OFF: '关闭',
+  FALLBACK: '大模型失败时兜底',
+  ALWAYS: '始终使用 (不联网)'
+};
+
+export const FAST_MA = 20;
+export const SLOW_MA = 50;
+export const RANGE_LOOKBACK = 20; // Candles defining the recent high / low
+export const VOLUME_LOOKBACK = 20;
+export const RULE_COACH_HEADER = '**📐 规则教练 (离线)**';
+
+const CRITERION_WEIGHTS: Record<ScoreCriterion, number> = {
+  trendAlignment: 0.25,
+  location: 0.2,
+  riskReward: 0.25,
+  volume: 0.15,
+  reasoning: 0.15
+};
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+const clamp10 = (v: number) => round1(Math.min(10, Math.max(0, v)));
+const sma = (values: number[], period: number) => values.slice(-period).reduce((acc, v) => acc + v, 0) / period;
+const fmt = (v: number) => Number(v.toFixed(4)).toString();
+
+interface CriterionResult {
+  score: number;
+  note: string;
+}
+
+export type RuleTrend = 'UP' | 'DOWN' | 'RANGE';
+
+// Close above both MAs with the fast one above the slow one = up (mirrored for down)
+export const ruleTrend = (candles: KLineData[]): RuleTrend | null => {
+  if (candles.length < SLOW_MA) return null;
+  const closes = candles.map(c => c.close);
+  const fast = sma(closes, FAST_MA);
+  const slow = sma(closes, SLOW_MA);
+  const last = closes[closes.length - 1];
+  if (last > slow && fast > slow) return 'UP';
+  if (last < slow && fast < slow) return 'DOWN';
+  return 'RANGE';
+};
+
+const TREND_LABELS: Record<RuleTrend, string> = { UP: '上升', DOWN: '下降', RANGE: '震荡' };
+
+const rateTrend = (trade: Trade, candles: KLineData[]): CriterionResult => {
+  const trend = ruleTrend(candles);
+  if (!trend) return { score: 5, note: `K 线不足 ${SLOW_MA} 根，无法判断趋势` };
+  const ma = `MA${FAST_MA}/MA${SLOW_MA}`;
+  if (trend === 'RANGE') return { score: 5, note: `${ma} 显示震荡，方向优势不明显` };
+  const aligned = (trend === 'UP') === (trade.direction === 'LONG');
+  return aligned
+    ? { score: 9, note: `${ma} 显示${TREND_LABELS[trend]}趋势，顺势${trade.direction === 'LONG' ? '做多' : '做空'}` }
+    : { score: 2, note: `${ma} 显示${TREND_LABELS[trend]}趋势，这笔是逆势${trade.direction === 'LONG' ? '做多' : '做空'}` };
+};
+
+// Longs near the bottom of the recent range and shorts near the top score high
+const rateLocation = (trade: Trade, candles: KLineData[]): CriterionResult => {
+  const recent = candles.slice(-RANGE_LOOKBACK);
+  if (!recent.length) return { score: 5, note: '没有可参考的 K 线' };
+  const high = Math.max(...recent.map(c => c.high));
+  const low = Math.min(...recent.map(c => c.low));
+  if (high <= low) return { score: 5, note: '近期区间过窄，无法判断位置' };
+  const position = Math.min(1, Math.max(0, (trade.entryPrice - low) / (high - low)));
+  const favorable = trade.direction === 'LONG' ? 1 - position : position;
+  return {
+    score: clamp10(favorable * 10),
+    note: `入场价位于近 ${recent.length} 根区间 (${fmt(low)} - ${fmt(high)}) 的 ${(position * 100).toFixed(0)}% 处${favorable < 0.4 ? `，接近${trade.direction === 'LONG' ? '高点，有追涨嫌疑' : '低点，有杀跌嫌疑'}` : ''}`
+  };
+};
+
+// 3R and above is full marks
+const rateRiskReward = (trade: Trade): CriterionResult => {
+  const rr = calcPlannedRR(trade.entryPrice, trade.sl, trade.tp);
+  if (rr <= 0) return { score: 0, note: '没有有效的止损距离' };
+  return { score: clamp10(rr / 3 * 10), note: `计划盈亏比 ${rr.toFixed(2)}R${rr < 1.5 ? '，低于 1.5R' : ''}` };
+};
+
+// Volume of the entry candle vs the average before it; heavy volume against the trade counts against it
+const rateVolume = (trade: Trade, candles: KLineData[]): CriterionResult => {
+  const last = candles[candles.length - 1];
+  const before = candles.slice(-VOLUME_LOOKBACK - 1, -1);
+  const avg = before.length ? before.reduce((acc, c) => acc + c.volume, 0) / before.length : 0;
+  if (!last || avg <= 0) return { score: 5, note: '没有成交量数据' };
+  const ratio = last.volume / avg;
+  const withTrade = (last.close >= last.open) === (trade.direction === 'LONG');
+  const base = ratio >= 1.5 ? 9 : ratio >= 1 ? 7 : ratio >= 0.7 ? 5 : 3;
+  const score = withTrade ? base : Math.min(base, 10 - base);
+  return { score, note: `入场 K 线量能为近 ${before.length} 根均量的 ${ratio.toFixed(2)} 倍，K 线方向${withTrade ? '与交易同向' : '与交易反向'}` };
+};
+
+// Only the length of what was written can be checked; template headings don't count
+const rateReasoning = (trade: Trade): CriterionResult => {
+  const text = trade.reason
+    .split('\n')
+    .filter(line => !line.trim().startsWith('#'))
+    .join('')
+    .replace(/\*\*[^*]*\*\*[:：]?/g, '')
+    .replace(/\s/g, '');
+  if (text.length < 10) return { score: 2, note: '几乎没有写入场理由' };
+  if (text.length < 40) return { score: 5, note: `入场理由较简略 (${text.length} 字)` };
+  return { score: 7, note: `写了 ${text.length} 字的入场理由 (规则教练无法判断内容质量，最高 7 分)` };
+};
+
+const verdictFor = (overall: number) =>
+  overall >= 7 ? '条件较好的入场，按计划执行' : overall >= 5 ? '可以做，但有明显短板' : '不建议这样入场';
+
+/**
+ * Rule-based entry review. `candles` are the LTF candles up to and including the entry candle.
+ */
+export const ruleBasedEvaluation = (trade: Trade, candles: KLineData[]): AIResponse => {
+  const history = candles.filter(c => c.timestamp <= trade.entryTime);
+  const results: Record<ScoreCriterion, CriterionResult> = {
+    trendAlignment: rateTrend(trade, history),
+    location: rateLocation(trade, history),
+    riskReward: rateRiskReward(trade),
+    volume: rateVolume(trade, history),
+    reasoning: rateReasoning(trade)
+  };
+  const criteria = Object.fromEntries(SCORE_CRITERIA.map(c => [c.key, results[c.key].score])) as Record<ScoreCriterion, number>;
+  const overall = clamp10(SCORE_CRITERIA.reduce((acc, c) => acc + criteria[c.key] * CRITERION_WEIGHTS[c.key], 0));
+  const score: TradeScore = { overall, criteria, verdict: verdictFor(overall) };
+  const weakest = SCORE_CRITERIA.filter(c => criteria[c.key] < 5);
+
+  const comment = [
+    RULE_COACH_HEADER,
+    '',
+    `**${trade.direction === 'LONG' ? '做多' : '做空'} ${trade.symbol} @ ${fmt(trade.entryPrice)}**，止损 ${fmt(trade.sl)}，止盈 ${fmt(trade.tp)}`,
+    '',
+    ...SCORE_CRITERIA.map(c => `- **${c.label}** ${criteria[c.key]}/10：${results[c.key].note}`),
+    '',
+    weakest.length ? `**需要改进**：${weakest.map(c => c.label).join('、')}` : '**各项均达标**，注意按计划管理仓位。',
+    '',
+    '> 规则点评只看均线趋势、区间位置、成交量和盈亏比，不识别形态与结构。'
+  ].join('\n');
+
+  return { comment, score };
+};
+
+// Findings the stats alone support, most important first
+const statFindings = (s: GameStats): string[] => {
+  const findings: string[] = [];
+  if (s.expectancy < 0) findings.push(`期望值为负 (${s.expectancy.toFixed(2)} / 笔)，当前做法长期会亏钱`);
+  if (s.htfTrendFollowRate !== null && s.htfTrendFollowRate < 0.5) findings.push(`只有 ${(s.htfTrendFollowRate * 100).toFixed(0)}% 的交易顺大周期趋势`);
+  if (s.maxDrawdownPercent > 10) findings.push(`最大回撤 ${s.maxDrawdownPercent.toFixed(1)}%，风险控制需要加强`);
+  if (s.longestLosingStreak >= 3) findings.push(`出现 ${s.longestLosingStreak} 连亏，注意连亏后是否情绪化加仓`);
+  if (s.avgLossHoldMs > s.avgWinHoldMs && s.avgWin > 0 && s.avgLoss < 0) findings.push('亏损单平均持仓比盈利单更久，有扛单倾向');
+  if (s.avgR !== null && s.avgR < 0.5 && s.winRate < 0.5) findings.push(`胜率 ${(s.winRate * 100).toFixed(0)}% 且平均只有 ${s.avgR.toFixed(2)}R，盈亏比没有覆盖胜率`);
+  return findings;
+};
+
+const gradeFor = (s: GameStats) =>
+  s.tradeCount === 0 ? '-' : s.expectancy > 0 && (s.profitFactor === null || s.profitFactor >= 1.5) ? 'A' : s.expectancy > 0 ? 'B' : s.maxDrawdownPercent <= 10 ? 'C' : 'D';
+
+/**
+ * Rule-based final report from the game stats (falls back to a trade count without them).
+ */
+export const ruleBasedGameReport = (trades: Trade[], stats?: GameStats): string => {
+  if (!stats) {
+    const pnl = trades.reduce((acc, t) => acc + t.pnl, 0);
+    return [RULE_COACH_HEADER, '', `本局共 ${trades.length} 笔交易，总盈亏 ${pnl.toFixed(2)}。`, '', '> 没有对局统计，无法给出规则评级。'].join('\n');
+  }
+  const findings = statFindings(stats);
+  return [
+    RULE_COACH_HEADER,
+    '',
+    `## 评级：${gradeFor(stats)}`,
+    '',
+    ...describeGameStats(stats).map(({ label, value }) => `- ${label}：${value}`),
+    '',
+    '### 主要问题',
+    ...(findings.length ? findings.map(f => `- ${f}`) : ['- 统计上没有明显问题，继续保持纪律。']),
+    '',
+    '> 规则报告只基于统计数据，不评价具体形态与入场逻辑。'
+  ].join('\n');
+};
@@ -0,0 +1,178 @@
+import { db } from '../db';
+import { AppSettings, CoachPersona, HotkeyAction, HotkeyConfig, IntrabarPolicy, LLMConfig, RuleCoachMode, Timeframe, TradeCostModel } from '../types';
+import { DEFAULT_MARKET_DATA_SOURCE, listMarketDataProviders } from './marketDataProvider';
+import { DEFAULT_COST_MODEL } from './tradeCosts';
+import { DEFAULT_INTRABAR_POLICY, INTRABAR_POLICY_LABELS } from './tradeManagement';
+import { DEFAULT_HOTKEYS } from './hotkeys';
+import { BUILT_IN_PERSONAS, DEFAULT_PERSONA_ID } from './coachPersonas';
+import { DEFAULT_LLM_CONFIG, listLLMProviders } from './llmProvider';
+import { RULE_COACH_MODES } from './ruleCoach';
+
+/**
+ * 设置持久化
+ * One settings profile in IndexedDB, plus JSON export / import. Records written by older
+ * versions (or hand-edited imports) go through migrateSettings, so missing or invalid
+ * fields fall back to the defaults instead of breaking the app.
+ */
+
+// Bump when AppSettings changes shape and add a step to migrateSettings
+export const SETTINGS_SCHEMA_VERSION = 6;
+
+const PROFILE_ID = 'default';
+const EXPORT_KIND = 'kline-master-settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  schemaVersion: SETTINGS_SCHEMA_VERSION,
+  symbol: 'BTCUSDT',
+  timeframe: Timeframe.M5,
+  dataSource: DEFAULT_MARKET_DATA_SOURCE,
+  gameLength: 800,
+  costModel: DEFAULT_COST_MODEL,
+  intrabarPolicy: DEFAULT_INTRABAR_POLICY,
+  hotkeys: DEFAULT_HOTKEYS,
+  personas: [],
+  personaId: DEFAULT_PERSONA_ID,
+  llm: DEFAULT_LLM_CONFIG,
+  postTradeReview: true,
+  ruleCoach: 'OFF',
+  theme: 'dark',
+  autoPlaySpeed: 1000
+};
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+// Non-objects read as an empty record, so every field falls back to its default
+const asRecord = (v: unknown): Record<string, unknown> => isRecord(v) ? v : {};
+const oneOf = <T extends string>(v: unknown, options: readonly T[], fallback: T): T =>
+  options.find(option => option === v) ?? fallback;
+
+const pickCostModel = (value: unknown): TradeCostModel => {
+  const raw = asRecord(value);
+  const model = { ...DEFAULT_COST_MODEL };
+  (Object.keys(model) as (keyof TradeCostModel)[]).forEach(key => {
+    // Funding may be negative (shorts pay longs); the interval must be positive
+    const min = key === 'fundingRatePercent' ? -Infinity : key === 'fundingIntervalHours' ? Number.MIN_VALUE : 0;
+    const v = raw[key];
+    if (isFiniteNumber(v) && v >= min) model[key] = v;
+  });
+  return model;
+};
+
+const pickHotkeys = (value: unknown): HotkeyConfig => {
+  const raw = asRecord(value);
+  const rawBindings = asRecord(raw.bindings);
+  const bindings = { ...DEFAULT_HOTKEYS.bindings };
+  (Object.keys(bindings) as HotkeyAction[]).forEach(action => {
+    const combo = rawBindings[action];
+    if (typeof combo === 'string') bindings[action] = combo;
+  });
+  const jumpBars = isFiniteNumber(raw.jumpBars) && raw.jumpBars >= 1 ? Math.round(raw.jumpBars) : DEFAULT_HOTKEYS.jumpBars;
+  return { bindings, jumpBars };
+};
+
+// Keeps well-formed user personas; ids that clash with a built-in or repeat are dropped
+const pickPersonas = (value: unknown): CoachPersona[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set(BUILT_IN_PERSONAS.map(p => p.id));
+  return value.flatMap((item: unknown): CoachPersona[] => {
+    const p = asRecord(item);
+    if (typeof p.id !== 'string' || typeof p.name !== 'string' || typeof p.prompt !== 'string' || seen.has(p.id)) return [];
+    seen.add(p.id);
+    return [{ id: p.id, name: p.name, description: typeof p.description === 'string' ? p.description : '', prompt: p.prompt }];
+  });
+};
+
+const pickLLMConfig = (value: unknown): LLMConfig => {
+  const raw = asRecord(value);
+  const d = DEFAULT_LLM_CONFIG;
+  const str = (v: unknown, fallback: string) => typeof v === 'string' ? v.trim() : fallback;
+  const price = (v: unknown, fallback: number) => isFiniteNumber(v) && v >= 0 ? v : fallback;
+  return {
+    provider: oneOf(raw.provider, listLLMProviders().map(p => p.id), d.provider),
+    baseUrl: str(raw.baseUrl, d.baseUrl),
+    model: str(raw.model, d.model),
+    apiKey: str(raw.apiKey, d.apiKey),
+    temperature: isFiniteNumber(raw.temperature) && raw.temperature >= 0 && raw.temperature <= 2 ? raw.temperature : d.temperature,
+    inputPrice: price(raw.inputPrice, d.inputPrice),
+    outputPrice: price(raw.outputPrice, d.outputPrice)
+  };
+};
+
+/**
+ * Brings a stored or imported record up to the current schema, field by field.
+ */
+export const migrateSettings = (value: unknown): AppSettings => {
+  const raw = asRecord(value);
+  const d = DEFAULT_SETTINGS;
+  // v0 (no schemaVersion): nothing renamed yet, the field checks below cover it
+  const dataSources = listMarketDataProviders().map(p => p.id);
+
+  // v1 -> v2: the single free-text customPrompt becomes a user persona and is picked
+  let personas = pickPersonas(raw.personas);
+  let personaId = typeof raw.personaId === 'string' ? raw.personaId : d.personaId;
+  if (!Array.isArray(raw.personas) && typeof raw.customPrompt === 'string' && raw.customPrompt.trim()) {
+    personas = [{ id: 'persona_legacy', name: '我的 Prompt', description: '从旧版自定义 Prompt 迁移', prompt: raw.customPrompt }];
+    personaId = 'persona_legacy';
+  }
+  if (![...BUILT_IN_PERSONAS, ...personas].some(p => p.id === personaId)) personaId = d.personaId;
+  // v2 -> v3: llm added, pickLLMConfig fills the defaults
+  // v3 -> v4: postTradeReview added (on by default)
+  // v4 -> v5: llm.inputPrice / outputPrice added (0, i.e. no cost estimate)
+  // v5 -> v6: ruleCoach added (off)
+
+  return {
+    schemaVersion: SETTINGS_SCHEMA_VERSION,
+    symbol: typeof raw.symbol === 'string' && raw.symbol.trim() ? raw.symbol.trim().toUpperCase() : d.symbol,
+    timeframe: oneOf(raw.timeframe, Object.values(Timeframe), d.timeframe),
+    dataSource: oneOf(raw.dataSource, dataSources, d.dataSource),
+    gameLength: isFiniteNumber(raw.gameLength) && raw.gameLength > 0 ? Math.round(raw.gameLength) : d.gameLength,
+    costModel: pickCostModel(raw.costModel),
+    intrabarPolicy: oneOf(raw.intrabarPolicy, Object.keys(INTRABAR_POLICY_LABELS) as IntrabarPolicy[], d.intrabarPolicy),
+    hotkeys: pickHotkeys(raw.hotkeys),
+    personas,
+    personaId,
+    llm: pickLLMConfig(raw.llm),
+    postTradeReview: typeof raw.postTradeReview === 'boolean' ? raw.postTradeReview : d.postTradeReview,
+    ruleCoach: oneOf(raw.ruleCoach, Object.keys(RULE_COACH_MODES) as RuleCoachMode[], d.ruleCoach),
+    theme: oneOf(raw.theme, ['light', 'dark'] as const, d.theme),
+    autoPlaySpeed: isFiniteNumber(raw.autoPlaySpeed) && raw.autoPlaySpeed > 0 ? raw.autoPlaySpeed : d.autoPlaySpeed
+  };
+};
+
+export const loadSettings = async (): Promise<AppSettings> => {
+  try {
+    const record = await db.settings.get(PROFILE_ID);
+    return record ? migrateSettings(record) : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.warn("Failed to load settings", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = async (settings: AppSettings): Promise<void> => {
+  try {
+    await db.settings.put({ ...settings, schemaVersion: SETTINGS_SCHEMA_VERSION, id: PROFILE_ID, updatedAt: Date.now() });
+  } catch (error) {
+    console.warn("Failed to save settings", error);
+  }
+};
+
+// The API key stays on this device: exports are meant to be shared
+export const exportSettings = (settings: AppSettings): string =>
+  JSON.stringify({ kind: EXPORT_KIND, exportedAt: new Date().toISOString(), settings: { ...settings, llm: { ...settings.llm, apiKey: '' } } }, null, 2);
+
+// Accepts our export envelope or a bare settings object; throws on anything else
+export const parseSettingsImport = (text: string): AppSettings => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('不是有效的 JSON 文件');
+  }
+  const raw = isRecord(parsed) && parsed.kind === EXPORT_KIND ? parsed.settings : parsed;
+  if (!isRecord(raw)) throw new Error('文件中没有找到设置');
+  if (isFiniteNumber(raw.schemaVersion) && raw.schemaVersion > SETTINGS_SCHEMA_VERSION) {
+    throw new Error(`设置来自更新的版本 (v${raw.schemaVersion})，请先升级应用`);
+  }
+  return migrateSettings(raw);
+};
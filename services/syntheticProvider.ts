@@ -0,0 +1,117 @@
+import { KLineData } from '../types';
+import { generateRandomMarketEndTime, timeframeToMs } from './binanceService';
+import type { MarketDataProvider } from './marketDataProvider';
+
+/**
+ * 确定性合成行情
+ * Prices are a pure function of (symbol, timestamp): layered value noise whose octave
+ * amplitudes scale like a random walk. The same window is always reproduced exactly, and
+ * opens/closes of different intervals sit on the same walk. Wicks are sampled per candle, so
+ * the 1m candles inside a bar may not reach that bar's high or low.
+ */
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const BASE_STEP = 5 * MINUTE;
+const OCTAVES = 18; // 5m * 2^17 ≈ 1.2 years
+const DAILY_VOLATILITY = 0.03;
+const SUB_SAMPLES = 6; // points sampled inside a candle to build wicks
+
+const hashString = (value: string): number => {
+  let h = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+// Integer hash → [0, 1)
+const hash01 = (n: number, seed: number): number => {
+  let h = Math.imul((n | 0) ^ seed, 0x27d4eb2d);
+  h ^= Math.imul((n / 4294967296) | 0, 0x165667b1);
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+};
+
+const valueNoise = (x: number, seed: number): number => {
+  const i = Math.floor(x);
+  const f = x - i;
+  const smooth = f * f * (3 - 2 * f);
+  const a = hash01(i, seed) * 2 - 1;
+  const b = hash01(i + 1, seed) * 2 - 1;
+  return a + (b - a) * smooth;
+};
+
+const logPriceAt = (timestamp: number, seed: number): number => {
+  let value = 0;
+  for (let k = 0; k < OCTAVES; k++) {
+    const step = BASE_STEP * Math.pow(2, k);
+    const amplitude = DAILY_VOLATILITY * Math.sqrt(step / DAY);
+    value += amplitude * valueNoise(timestamp / step, seed + k * 7919);
+  }
+  return value;
+};
+
+const KNOWN_BASE_PRICES: Record<string, number> = {
+  BTCUSDT: 30000, ETHUSDT: 2000, SOLUSDT: 100, BNBUSDT: 300, DOGEUSDT: 0.1, XRPUSDT: 0.5
+};
+
+const basePriceFor = (symbol: string): number => {
+  if (KNOWN_BASE_PRICES[symbol]) return KNOWN_BASE_PRICES[symbol];
+  const h = hashString(symbol);
+  // Spread symbols across 1 ~ 50,000 on a log scale
+  return Math.exp((h % 10000) / 10000 * Math.log(50000));
+};
+
+export const generateSyntheticCandle = (symbol: string, timestamp: number, intervalMs: number): KLineData => {
+  const seed = hashString(symbol);
+  const base = basePriceFor(symbol);
+  const priceAt = (t: number) => base * Math.exp(logPriceAt(t, seed));
+
+  const open = priceAt(timestamp);
+  const close = priceAt(timestamp + intervalMs);
+  let high = Math.max(open, close);
+  let low = Math.min(open, close);
+  for (let i = 1; i < SUB_SAMPLES; i++) {
+    const p = priceAt(timestamp + (intervalMs * i) / SUB_SAMPLES);
+    high = Math.max(high, p);
+    low = Math.min(low, p);
+  }
+  // Small wick extension so bodies don't always touch the extremes
+  const wickScale = DAILY_VOLATILITY * Math.sqrt(intervalMs / DAY) * 0.3;
+  high *= 1 + hash01(timestamp / MINUTE, seed ^ 0x9e3779b9) * wickScale;
+  low *= 1 - hash01(timestamp / MINUTE, seed ^ 0x7f4a7c15) * wickScale;
+
+  const move = Math.abs(close - open) / open;
+  const volume = (intervalMs / MINUTE) * (0.5 + hash01(timestamp / MINUTE, seed ^ 0x1b873593)) * (1 + move * 100) * 10;
+
+  const round = (v: number) => Number(v.toPrecision(6));
+  return {
+    timestamp,
+    open: round(open),
+    high: round(high),
+    low: round(low),
+    close: round(close),
+    volume: Number(volume.toFixed(3)),
+    turnover: Number((volume * (open + close) / 2).toFixed(2))
+  };
+};
+
+export const syntheticProvider: MarketDataProvider = {
+  id: 'synthetic',
+  name: 'Synthetic',
+  description: '离线确定性随机游走行情，相同锚点永远生成相同 K 线',
+  fetchMarketData: async (symbol, interval, limit, endTime) => {
+    const intervalMs = timeframeToMs(interval);
+    const lastOpenTime = Math.floor((endTime || Date.now()) / intervalMs) * intervalMs;
+    const candles: KLineData[] = [];
+    for (let i = limit - 1; i >= 0; i--) {
+      candles.push(generateSyntheticCandle(symbol, lastOpenTime - i * intervalMs, intervalMs));
+    }
+    return candles;
+  },
+  generateRandomMarketEndTime: async () => generateRandomMarketEndTime()
+};
@@ -0,0 +1,106 @@
+import { Trade, TradeCostModel } from '../types';
+
+/**
+ * 交易成本模型
+ * Maker/taker fees, per-candle funding and slippage. Trade.pnl is always net of these costs.
+ */
+
+export const DEFAULT_COST_MODEL: TradeCostModel = {
+  makerFeePercent: 0.02,
+  takerFeePercent: 0.05,
+  fundingRatePercent: 0.01,
+  fundingIntervalHours: 8,
+  slippagePercent: 0.02
+};
+
+// Games recorded before the cost model existed
+export const ZERO_COST_MODEL: TradeCostModel = {
+  makerFeePercent: 0,
+  takerFeePercent: 0,
+  fundingRatePercent: 0,
+  fundingIntervalHours: 8,
+  slippagePercent: 0
+};
+
+export type FillLiquidity = 'MAKER' | 'TAKER';
+
+type Side = 'BUY' | 'SELL';
+
+const entrySide = (direction: Trade['direction']): Side => direction === 'LONG' ? 'BUY' : 'SELL';
+const exitSide = (direction: Trade['direction']): Side => direction === 'LONG' ? 'SELL' : 'BUY';
+
+// Taker fills move against the order; maker (limit) fills get their price
+export const applySlippage = (price: number, side: Side, liquidity: FillLiquidity, model: TradeCostModel): number => {
+  if (liquidity === 'MAKER') return price;
+  const slip = model.slippagePercent / 100;
+  return side === 'BUY' ? price * (1 + slip) : price * (1 - slip);
+};
+
+export const calcFee = (price: number, quantity: number, liquidity: FillLiquidity, model: TradeCostModel): number =>
+  price * quantity * (liquidity === 'MAKER' ? model.makerFeePercent : model.takerFeePercent) / 100;
+
+/**
+ * Funding accrued on `quantity` per fully elapsed candle, pro-rated from the funding interval.
+ * Positive = paid by the position.
+ */
+export const calcFunding = (trade: Trade, quantity: number, exitTime: number, intervalMs: number, model: TradeCostModel): number => {
+  if (intervalMs <= 0 || model.fundingIntervalHours <= 0) return 0;
+  const candlesHeld = Math.max(0, Math.floor((exitTime - trade.entryTime) / intervalMs));
+  const ratePerCandle = (model.fundingRatePercent / 100) * intervalMs / (model.fundingIntervalHours * 3600 * 1000);
+  const sign = trade.direction === 'LONG' ? 1 : -1;
+  return trade.entryPrice * quantity * ratePerCandle * candlesHeld * sign;
+};
+
+// An entry fill: `refPrice` is the level the order asked for (close for market orders)
+export interface EntryFill {
+  price: number;
+  refPrice: number;
+  liquidity: FillLiquidity;
+}
+
+export const entryFill = (direction: Trade['direction'], refPrice: number, liquidity: FillLiquidity, model: TradeCostModel): EntryFill => ({
+  price: applySlippage(refPrice, entrySide(direction), liquidity, model),
+  refPrice,
+  liquidity
+});
+
+// Fee and slippage of the entry, once the quantity is known
+export const priceEntry = (trade: Trade, fill: EntryFill, model: TradeCostModel): Pick<Trade, 'entryFee' | 'slippage'> => ({
+  entryFee: calcFee(trade.entryPrice, trade.quantity, fill.liquidity, model),
+  slippage: Math.abs(trade.entryPrice - fill.refPrice) * trade.quantity
+});
+
+export interface LegSettlement {
+  price: number;
+  grossPnl: number;
+  fee: number;
+  funding: number;
+  slippage: number;
+}
+
+/**
+ * Settles an exit of `quantity` at `refPrice` (a TP/SL level or the candle close).
+ * The entry fee is not included: it is realized once, with the final leg.
+ */
+export const settleLeg = (
+  trade: Trade,
+  quantity: number,
+  refPrice: number,
+  liquidity: FillLiquidity,
+  exitTime: number,
+  intervalMs: number,
+  model: TradeCostModel
+): LegSettlement => {
+  const price = applySlippage(refPrice, exitSide(trade.direction), liquidity, model);
+  return {
+    price,
+    grossPnl: trade.direction === 'LONG' ? (price - trade.entryPrice) * quantity : (trade.entryPrice - price) * quantity,
+    fee: calcFee(price, quantity, liquidity, model),
+    funding: calcFunding(trade, quantity, exitTime, intervalMs, model),
+    slippage: Math.abs(price - refPrice) * quantity
+  };
+};
+
+// Total drag vs. a cost-free fill (slippage included even though it sits in the fill prices)
+export const totalCosts = (trade: Trade): number =>
+  (trade.entryFee || 0) + (trade.exitFee || 0) + (trade.fundingFee || 0) + (trade.slippage || 0);
@@ -0,0 +1,44 @@
+import { KLineData, Trade } from '../types';
+
+/**
+ * MFE / MAE (最大有利 / 不利波动)
+ * Measured over the candles after the entry candle up to the exit candle, since the part of the
+ * entry candle before the fill is unknown.
+ */
+
+export interface TradeExcursion {
+  mfe: number; // Price units, >= 0
+  mae: number;
+  mfeR: number | null; // In multiples of the initial stop distance (null when unknown)
+  maeR: number | null;
+}
+
+// Stop distance the position was sized with (the live sl may since have moved to breakeven / trailed)
+export const initialStopDistance = (trade: Trade): number => {
+  if (trade.sizing && trade.quantity > 0) return trade.sizing.riskAmount / trade.quantity;
+  const firstSlChange = trade.modifications?.find(m => m.field === 'SL');
+  return Math.abs(trade.entryPrice - (firstSlChange ? firstSlChange.from : trade.sl));
+};
+
+// Candles the position was held through (entry candle excluded, exit candle included)
+export const getHoldingCandles = (trade: Trade, candles: KLineData[]): KLineData[] =>
+  candles.filter(c => c.timestamp > trade.entryTime && c.timestamp <= (trade.exitTime ?? Infinity));
+
+export const calcExcursion = (trade: Trade, holdingCandles: KLineData[]): TradeExcursion => {
+  const isLong = trade.direction === 'LONG';
+  let mfe = 0;
+  let mae = 0;
+  holdingCandles.forEach(c => {
+    mfe = Math.max(mfe, isLong ? c.high - trade.entryPrice : trade.entryPrice - c.low);
+    mae = Math.max(mae, isLong ? trade.entryPrice - c.low : c.high - trade.entryPrice);
+  });
+  const risk = initialStopDistance(trade);
+  return { mfe, mae, mfeR: risk > 0 ? mfe / risk : null, maeR: risk > 0 ? mae / risk : null };
+};
+
+// At most `max` evenly spaced candles, always keeping the last one
+export const samplePricePath = (candles: KLineData[], max = 30): KLineData[] => {
+  if (candles.length <= max) return candles;
+  const step = (candles.length - 1) / (max - 1);
+  return Array.from({ length: max }, (_, i) => candles[Math.round(i * step)]);
+};
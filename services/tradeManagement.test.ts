@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { KLineData, Trade, TradeTicket } from '../types';
+import { ZERO_COST_MODEL } from './tradeCosts';
+import { ExitContext, buildExitPath, diffTrade, modifyExitLevel, resolveExits, validateTicketLevels } from './tradeManagement';
+
+const ctx: ExitContext = { time: 0, intervalMs: 3600_000, model: ZERO_COST_MODEL };
+
+const candle = (open: number, high: number, low: number, close: number): KLineData => ({ timestamp: 0, open, high, low, close, volume: 0 });
+
+const makeTrade = (overrides: Partial<Trade> = {}): Trade => ({
+  id: 't1',
+  gameId: 1,
+  symbol: 'BTCUSDT',
+  direction: 'LONG',
+  entryPrice: 100,
+  tp: 120,
+  sl: 90,
+  quantity: 2,
+  entryTime: 0,
+  status: 'OPEN',
+  pnl: 0,
+  reason: '',
+  ...overrides
+});
+
+describe('resolveExits stop reasons', () => {
+  it('records the initial stop as a stop loss', () => {
+    const closed = resolveExits(makeTrade(), candle(95, 96, 89, 90), 0, ctx);
+    expect(closed.status).toBe('CLOSED_SL');
+    expect(closed.exitReason).toBe('STOP_LOSS');
+  });
+
+  it('records a breakeven stop after TP1', () => {
+    const trade = makeTrade({ takeProfits: [{ price: 110, percent: 50 }, { price: 120, percent: 50 }], breakevenAfterTp1: true });
+    const afterTp1 = resolveExits(trade, candle(100, 111, 100, 110), 0, ctx);
+    expect(afterTp1.sl).toBe(100);
+    expect(afterTp1.stopSource).toBe('BREAKEVEN');
+    const closed = resolveExits(afterTp1, candle(105, 106, 99, 100), 0, ctx);
+    expect(closed.status).toBe('CLOSED_SL');
+    expect(closed.exitReason).toBe('BREAKEVEN_STOP');
+  });
+
+  it('records a trailed stop as a trailing stop', () => {
+    const trailed = resolveExits(makeTrade({ trailingStop: { mode: 'PERCENT', value: 5 } }), candle(100, 110, 100, 109), 0, ctx);
+    expect(trailed.sl).toBeCloseTo(104.5);
+    expect(trailed.stopSource).toBe('TRAILING');
+    expect(resolveExits(trailed, candle(106, 107, 103, 104), 0, ctx).exitReason).toBe('TRAILING_STOP');
+  });
+
+  it('treats a manually moved stop as a plain stop loss', () => {
+    const trailed = resolveExits(makeTrade({ trailingStop: { mode: 'PERCENT', value: 5 } }), candle(100, 110, 100, 109), 0, ctx);
+    const moved = modifyExitLevel(trailed, 'SL', 103, 0, 'PANEL');
+    expect(moved.stopSource).toBeUndefined();
+  });
+});
+
+describe('buildExitPath', () => {
+  const bar = candle(100, 125, 85, 110);
+
+  it('walks sub-candles that span the bar', () => {
+    const subs = [candle(100, 125, 99, 120), candle(120, 121, 85, 110)];
+    const { path, resolution } = buildExitPath(makeTrade(), bar, 'SUB_CANDLES', subs);
+    expect(resolution).toBe('SUB_CANDLES');
+    expect(resolveExits(makeTrade(), bar, 0, { ...ctx, resolution }, path).status).toBe('CLOSED_TP');
+  });
+
+  it('falls back to the bar when sub-candles miss its extremes', () => {
+    const subs = [candle(100, 105, 99, 104), candle(104, 111, 103, 110)];
+    expect(buildExitPath(makeTrade(), bar, 'SUB_CANDLES', subs).resolution).toBe('OHLC_PATH');
+    expect(buildExitPath(makeTrade(), bar, 'SUB_CANDLES', []).resolution).toBe('OHLC_PATH');
+  });
+});
+
+describe('diffTrade', () => {
+  it('returns only the changed fields', () => {
+    const prev = makeTrade();
+    expect(diffTrade(prev, { ...prev, sl: 95, pnl: 0 })).toEqual({ sl: 95 });
+  });
+});
+
+describe('validateTicketLevels', () => {
+  const ticket: TradeTicket = {
+    reason: '', tp: 120, sl: 90, sizingMode: 'FIXED_UNITS', sizingValue: 1,
+    leverage: 10, marginMode: 'ISOLATED', orderType: 'MARKET'
+  };
+
+  it('accepts levels on the right side of entry', () => {
+    expect(validateTicketLevels(ticket, 'LONG', 100, 85)).toBeNull();
+  });
+
+  it('rejects a long stop above entry and a missing stop', () => {
+    expect(validateTicketLevels({ ...ticket, sl: 105 }, 'LONG', 100)).toContain('止损必须位于');
+    expect(validateTicketLevels({ ...ticket, sl: NaN }, 'LONG', 100)).toBe('止损价格无效');
+  });
+
+  it('rejects a stop past the isolated liquidation price', () => {
+    expect(validateTicketLevels(ticket, 'LONG', 100, 92)).toContain('强平价');
+  });
+
+  it('names the partial target on the wrong side', () => {
+    const levels = { takeProfits: [{ price: 95, percent: 50 }, { price: 120, percent: 50 }] };
+    expect(validateTicketLevels({ ...ticket, ...levels }, 'LONG', 100)).toMatch(/^TP1: 止盈必须位于/);
+  });
+});
@@ -0,0 +1,328 @@
+import { ExecutionLeg, ExitReason, IntrabarPolicy, KLineData, TakeProfitLevel, Trade, TradeCostModel, TradeModification, TradeTicket } from '../types';
+import { FillLiquidity, settleLeg } from './tradeCosts';
+import { getOpenQuantity } from './positionBook';
+
+/**
+ * 出场管理
+ * Scaled take-profits, move-to-breakeven after TP1 and trailing stops. Every (partial)
+ * exit is booked as an ExecutionLeg and rolled into the trade's weighted exitPrice / pnl.
+ */
+
+export const ATR_PERIOD = 14;
+
+export const DEFAULT_INTRABAR_POLICY: IntrabarPolicy = 'PESSIMISTIC';
+
+export const INTRABAR_POLICY_LABELS: Record<IntrabarPolicy, string> = {
+  PESSIMISTIC: '悲观 (先止损)',
+  OPTIMISTIC: '乐观 (先止盈)',
+  OHLC_PATH: 'OHLC 路径',
+  SUB_CANDLES: '1m 子K线'
+};
+
+// Leftovers below this share of the original size are closed with the last TP
+const DUST_RATIO = 1e-9;
+
+export interface ExitContext {
+  time: number;
+  intervalMs: number; // For funding
+  model: TradeCostModel;
+  resolution?: IntrabarPolicy; // Recorded on the legs booked by resolveExits
+}
+
+export const getTakeProfits = (trade: Pick<Trade, 'tp' | 'takeProfits'>): TakeProfitLevel[] =>
+  trade.takeProfits && trade.takeProfits.length > 0 ? trade.takeProfits : [{ price: trade.tp, percent: 100 }];
+
+// Nearest level first, so levels fill in order
+export const sortTakeProfits = (direction: Trade['direction'], levels: TakeProfitLevel[]): TakeProfitLevel[] =>
+  [...levels].sort((a, b) => direction === 'LONG' ? a.price - b.price : b.price - a.price);
+
+// Simple-average true range over the last `period` candles
+export const calcAtr = (candles: KLineData[], period = ATR_PERIOD): number => {
+  const slice = candles.slice(-(period + 1));
+  if (slice.length < 2) return 0;
+  let sum = 0;
+  for (let i = 1; i < slice.length; i++) {
+    const c = slice[i];
+    const prevClose = slice[i - 1].close;
+    sum += Math.max(c.high - c.low, Math.abs(c.high - prevClose), Math.abs(c.low - prevClose));
+  }
+  return sum / (slice.length - 1);
+};
+
+export const EXIT_REASON_LABELS: Record<ExitReason, string> = {
+  TAKE_PROFIT: '止盈',
+  STOP_LOSS: '止损',
+  BREAKEVEN_STOP: '保本止损',
+  TRAILING_STOP: '移动止损',
+  LIQUIDATION: '强平',
+  MANUAL: '手动平仓',
+  REVERSE: '反手',
+  GAME_END: '终局平仓'
+};
+
+const DEFAULT_EXIT_REASON: Partial<Record<Trade['status'], ExitReason>> = {
+  CLOSED_TP: 'TAKE_PROFIT',
+  CLOSED_SL: 'STOP_LOSS',
+  CLOSED_MANUAL: 'MANUAL',
+  CLOSED_LIQUIDATED: 'LIQUIDATION'
+};
+
+const STOP_EXIT_REASON: Record<NonNullable<Trade['stopSource']>, ExitReason> = {
+  BREAKEVEN: 'BREAKEVEN_STOP',
+  TRAILING: 'TRAILING_STOP'
+};
+
+const LEG_REASON: Partial<Record<Trade['status'], ExecutionLeg['reason']>> = {
+  CLOSED_TP: 'TP',
+  CLOSED_SL: 'SL',
+  CLOSED_MANUAL: 'MANUAL',
+  CLOSED_LIQUIDATED: 'LIQUIDATION'
+};
+
+/**
+ * Books an exit leg of `quantity` and rolls it into the running totals.
+ * While the trade stays open, pnl is the realized part of the closed legs.
+ */
+export const applyExitLeg = (
+  trade: Trade,
+  quantity: number,
+  refPrice: number,
+  liquidity: FillLiquidity,
+  reason: ExecutionLeg['reason'],
+  ctx: ExitContext,
+  tpIndex?: number,
+  note?: string
+): Trade => {
+  const s = settleLeg(trade, quantity, refPrice, liquidity, ctx.time, ctx.intervalMs, ctx.model);
+  const leg: ExecutionLeg = { time: ctx.time, price: s.price, quantity, reason, tpIndex, resolution: ctx.resolution, note, grossPnl: s.grossPnl, fee: s.fee, funding: s.funding, slippage: s.slippage };
+  const legs = [...(trade.legs || []), leg];
+  const exitedQuantity = legs.reduce((acc, l) => acc + l.quantity, 0);
+  const grossPnl = (trade.grossPnl || 0) + s.grossPnl;
+  const exitFee = (trade.exitFee || 0) + s.fee;
+  const fundingFee = (trade.fundingFee || 0) + s.funding;
+
+  return {
+    ...trade,
+    legs,
+    remainingQuantity: Math.max(0, getOpenQuantity(trade) - quantity),
+    exitPrice: legs.reduce((acc, l) => acc + l.price * l.quantity, 0) / exitedQuantity,
+    grossPnl,
+    exitFee,
+    fundingFee,
+    slippage: (trade.slippage || 0) + s.slippage,
+    pnl: grossPnl - exitFee - fundingFee
+  };
+};
+
+/**
+ * Closes whatever is still open. TP exits rest as limit orders (maker); stops,
+ * manual closes and liquidations are taker fills with slippage.
+ */
+export const closeRemaining = (
+  trade: Trade,
+  refPrice: number,
+  status: Trade['status'],
+  ctx: ExitContext,
+  exitReason = DEFAULT_EXIT_REASON[status],
+  note?: string
+): Trade => {
+  const liquidity: FillLiquidity = status === 'CLOSED_TP' ? 'MAKER' : 'TAKER';
+  const closed = applyExitLeg(trade, getOpenQuantity(trade), refPrice, liquidity, LEG_REASON[status] || 'MANUAL', ctx, undefined, note);
+  return { ...closed, remainingQuantity: 0, status, exitReason, exitTime: ctx.time, pnl: closed.pnl - (trade.entryFee || 0) };
+};
+
+// Market-closes `fraction` of the open size (the whole rest when little would be left)
+export const closePartial = (trade: Trade, fraction: number, refPrice: number, ctx: ExitContext, note?: string): Trade => {
+  const openQuantity = getOpenQuantity(trade);
+  const quantity = openQuantity * Math.min(1, Math.max(0, fraction));
+  if (openQuantity - quantity <= trade.quantity * DUST_RATIO) return closeRemaining(trade, refPrice, 'CLOSED_MANUAL', ctx, 'MANUAL', note);
+  return applyExitLeg(trade, quantity, refPrice, 'TAKER', 'MANUAL', ctx, undefined, note);
+};
+
+/**
+ * 盘中路径
+ * Order in which a candle visits its prices. PESSIMISTIC goes to the trade's adverse extreme first,
+ * OPTIMISTIC to the favourable one, OHLC_PATH to whichever extreme is nearer the open.
+ */
+export const buildCandlePath = (candle: KLineData, direction: Trade['direction'], policy: IntrabarPolicy): number[] => {
+  const { open, high, low, close } = candle;
+  let highFirst: boolean;
+  switch (policy) {
+    case 'PESSIMISTIC': highFirst = direction === 'SHORT'; break;
+    case 'OPTIMISTIC': highFirst = direction === 'LONG'; break;
+    default: highFirst = high - open <= open - low;
+  }
+  return highFirst ? [open, high, low, close] : [open, low, high, close];
+};
+
+// True when the candle's range reaches both the stop and the next unfilled target
+export const hasIntrabarConflict = (trade: Trade, candle: KLineData): boolean => {
+  const target = getTakeProfits(trade).find(l => !l.filled);
+  if (!target) return false;
+  return trade.direction === 'LONG'
+    ? candle.low <= trade.sl && candle.high >= target.price
+    : candle.high >= trade.sl && candle.low <= target.price;
+};
+
+// Whether the sub-candles reach the parent's high and low
+const spansCandle = (subCandles: KLineData[], candle: KLineData): boolean =>
+  Math.max(...subCandles.map(c => c.high)) >= candle.high && Math.min(...subCandles.map(c => c.low)) <= candle.low;
+
+/**
+ * Picks the price path for a candle. SUB_CANDLES walks the 1m candles of the bar
+ * (each by OHLC_PATH) and falls back to OHLC_PATH when they couldn't be loaded
+ * or don't span the bar.
+ */
+export const buildExitPath = (
+  trade: Trade,
+  candle: KLineData,
+  policy: IntrabarPolicy,
+  subCandles?: KLineData[] | null
+): { path: number[]; resolution: IntrabarPolicy } => {
+  if (policy === 'SUB_CANDLES') {
+    if (subCandles && subCandles.length > 0 && spansCandle(subCandles, candle)) {
+      return { path: subCandles.flatMap(c => buildCandlePath(c, trade.direction, 'OHLC_PATH')), resolution: 'SUB_CANDLES' };
+    }
+    return { path: buildCandlePath(candle, trade.direction, 'OHLC_PATH'), resolution: 'OHLC_PATH' };
+  }
+  return { path: buildCandlePath(candle, trade.direction, policy), resolution: policy };
+};
+
+/**
+ * Runs one candle against an open trade by walking its price path: a level fills when the path
+ * crosses it (at the level, or at the first price if it gapped through). Breakeven applies right
+ * after TP1, so the rest of the path can still stop the trade out; the trailing stop is updated
+ * at the end of the candle and takes effect from the next one.
+ * Returns the same object when nothing changed.
+ */
+export const resolveExits = (
+  trade: Trade,
+  candle: KLineData,
+  atr: number,
+  ctx: ExitContext,
+  path: number[] = buildCandlePath(candle, trade.direction, DEFAULT_INTRABAR_POLICY)
+): Trade => {
+  const isLong = trade.direction === 'LONG';
+  let next = trade;
+  const levels = [...getTakeProfits(trade)];
+
+  for (let k = 0; k < path.length; k++) {
+    const price = path[k];
+    const fillAt = (level: number) => k === 0 ? price : level; // Gap through the level at the first price
+
+    const stopHit = isLong ? price <= next.sl : price >= next.sl;
+    if (stopHit) {
+      const exitReason = next.stopSource ? STOP_EXIT_REASON[next.stopSource] : 'STOP_LOSS';
+      return { ...closeRemaining(next, fillAt(next.sl), 'CLOSED_SL', ctx, exitReason), exitResolution: ctx.resolution };
+    }
+
+    for (let i = 0; i < levels.length; i++) {
+      const level = levels[i];
+      if (level.filled) continue;
+      const hit = isLong ? price >= level.price : price <= level.price;
+      if (!hit) break; // Levels are ordered: a later one can't fill before this one
+
+      levels[i] = { ...level, filled: true };
+      const openQuantity = getOpenQuantity(next);
+      const quantity = Math.min(openQuantity, trade.quantity * level.percent / 100);
+      const withLevels = { ...next, takeProfits: levels };
+      next = openQuantity - quantity <= trade.quantity * DUST_RATIO
+        ? { ...closeRemaining(withLevels, fillAt(level.price), 'CLOSED_TP', ctx), exitResolution: ctx.resolution }
+        : applyExitLeg(withLevels, quantity, fillAt(level.price), 'MAKER', 'TP', ctx, i);
+
+      if (i === 0 && trade.breakevenAfterTp1 && next.status === 'OPEN') {
+        const sl = isLong ? Math.max(next.sl, trade.entryPrice) : Math.min(next.sl, trade.entryPrice);
+        if (sl !== next.sl) next = { ...next, sl, stopSource: 'BREAKEVEN' };
+      }
+      if (next.status !== 'OPEN') return next;
+    }
+  }
+
+  if (trade.trailingStop) {
+    const anchor = isLong
+      ? Math.max(trade.trailAnchor ?? trade.entryPrice, candle.high)
+      : Math.min(trade.trailAnchor ?? trade.entryPrice, candle.low);
+    const distance = trade.trailingStop.mode === 'PERCENT' ? anchor * trade.trailingStop.value / 100 : atr * trade.trailingStop.value;
+    const trailedStop = distance > 0 ? (isLong ? anchor - distance : anchor + distance) : next.sl;
+    const sl = isLong ? Math.max(next.sl, trailedStop) : Math.min(next.sl, trailedStop);
+    if (anchor !== trade.trailAnchor || sl !== next.sl) next = { ...next, trailAnchor: anchor, sl, stopSource: sl !== next.sl ? 'TRAILING' : next.stopSource };
+  }
+
+  return next;
+};
+
+/**
+ * 改单
+ * A new stop must stay on the losing side of the market (and before an isolated liquidation),
+ * a target on the winning side. Returns an error message or null.
+ */
+export const validateExitLevel = (
+  trade: Pick<Trade, 'direction' | 'marginMode' | 'liquidationPrice'>,
+  field: TradeModification['field'],
+  price: number,
+  marketPrice: number
+): string | null => {
+  const isLong = trade.direction === 'LONG';
+  if (!(price > 0)) return `${field === 'SL' ? '止损' : '止盈'}价格无效`;
+  if (field === 'SL') {
+    if (isLong ? price >= marketPrice : price <= marketPrice) return `止损必须位于当前价格${isLong ? '下方' : '上方'} (${marketPrice.toFixed(2)})`;
+    if (trade.marginMode === 'ISOLATED' && trade.liquidationPrice && (isLong ? price <= trade.liquidationPrice : price >= trade.liquidationPrice)) {
+      return `止损越过了强平价 ${trade.liquidationPrice.toFixed(2)}，会先被强平`;
+    }
+    return null;
+  }
+  if (isLong ? price <= marketPrice : price >= marketPrice) return `止盈必须位于当前价格${isLong ? '上方' : '下方'} (${marketPrice.toFixed(2)})`;
+  return null;
+};
+
+/**
+ * Same checks for a new order's stop and every TP level, against the price it will fill at.
+ */
+export const validateTicketLevels = (ticket: TradeTicket, direction: Trade['direction'], entryPrice: number, liquidationPrice?: number): string | null => {
+  const position = { direction, marginMode: ticket.marginMode, liquidationPrice };
+  const levels = getTakeProfits(ticket);
+  const stopError = validateExitLevel(position, 'SL', ticket.sl, entryPrice);
+  if (stopError) return stopError;
+  for (let i = 0; i < levels.length; i++) {
+    const error = validateExitLevel(position, 'TP', levels[i].price, entryPrice);
+    if (error) return levels.length > 1 ? `TP${i + 1}: ${error}` : error;
+  }
+  return null;
+};
+
+/**
+ * Moves the stop or one unfilled TP level (default: the final one) and logs the change.
+ * Unfilled levels are re-sorted so they still fill in order; `tp` follows the final level.
+ */
+export const modifyExitLevel = (
+  trade: Trade,
+  field: TradeModification['field'],
+  price: number,
+  time: number,
+  source: TradeModification['source'],
+  tpIndex?: number
+): Trade => {
+  const log = (from: number, index?: number): TradeModification[] =>
+    [...(trade.modifications || []), { time, field, tpIndex: index, from, to: price, source }];
+
+  if (field === 'SL') return { ...trade, sl: price, stopSource: undefined, modifications: log(trade.sl) };
+
+  const levels = getTakeProfits(trade);
+  const index = tpIndex ?? levels.length - 1;
+  if (!levels[index] || levels[index].filled) return trade;
+  if (!trade.takeProfits || trade.takeProfits.length === 0) return { ...trade, tp: price, modifications: log(trade.tp, index) };
+
+  const filled = levels.filter(l => l.filled);
+  const open = levels.map((l, i) => i === index ? { ...l, price } : l).filter(l => !l.filled);
+  const takeProfits = [...filled, ...sortTakeProfits(trade.direction, open)];
+  return { ...trade, takeProfits, tp: takeProfits[takeProfits.length - 1].price, modifications: log(levels[index].price, index) };
+};
+
+export const describeModification = (m: TradeModification): string =>
+  `${m.field}${m.field === 'TP' && m.tpIndex !== undefined ? m.tpIndex + 1 : ''} ${m.from.toFixed(2)} → ${m.to.toFixed(2)} (${m.source === 'CHART' ? '拖动' : '面板'})`;
+
+// Fields that changed between two versions of a trade (for partial DB / state updates)
+export const diffTrade = (prev: Trade, next: Trade): Partial<Trade> => {
+  const keys = Object.keys(next) as (keyof Trade)[];
+  return Object.fromEntries(keys.filter(key => next[key] !== prev[key]).map(key => [key, next[key]])) as Partial<Trade>;
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { parseTradeEvaluation } from './tradeScoring';
+
+const scores = { trendAlignment: 8, location: 6, riskReward: 7, volume: 5, reasoning: 4 };
+
+describe('parseTradeEvaluation', () => {
+  it('reads comment, rubric and verdict', () => {
+    const result = parseTradeEvaluation(JSON.stringify({ comment: '顺势', scores, overall: 6.5, verdict: ' 可以做 ' }));
+    expect(result).toEqual({ comment: '顺势', score: { overall: 6.5, criteria: scores, verdict: '可以做' } });
+  });
+
+  it('tolerates code fences and defaults overall to the mean', () => {
+    const result = parseTradeEvaluation('```json\n' + JSON.stringify({ comment: 'ok', scores }) + '\n```');
+    expect(result.score?.overall).toBe(6);
+    expect(result.score?.verdict).toBeUndefined();
+  });
+
+  it('clamps scores into 0-10', () => {
+    const result = parseTradeEvaluation(JSON.stringify({ comment: 'ok', scores: { ...scores, volume: 14, reasoning: -2 }, overall: 11 }));
+    expect(result.score?.criteria.volume).toBe(10);
+    expect(result.score?.criteria.reasoning).toBe(0);
+    expect(result.score?.overall).toBe(10);
+  });
+
+  it('drops the rubric when a criterion is missing', () => {
+    const { volume: _volume, ...partial } = scores;
+    expect(parseTradeEvaluation(JSON.stringify({ comment: 'ok', scores: partial }))).toEqual({ comment: 'ok' });
+  });
+
+  it('keeps free-form Markdown as the comment', () => {
+    expect(parseTradeEvaluation('**入场不错**')).toEqual({ comment: '**入场不错**' });
+  });
+
+  it('recovers the comment from truncated JSON', () => {
+    expect(parseTradeEvaluation('{"comment": "止损太近\\n建议放宽", "scores": {"trend')).toEqual({ comment: '止损太近\n建议放宽' });
+  });
+});
@@ -0,0 +1,153 @@
+import { AIResponse, ScoreCriterion, Trade, TradeScore } from '../types';
+
+/**
+ * AI 交易评分
+ * The entry review comes back as JSON: the Markdown comment plus a 0-10 rubric. Models that
+ * ignore the schema still work, their answer is kept as a plain comment without a score.
+ */
+
+export const SCORE_CRITERIA: { key: ScoreCriterion; label: string; hint: string }[] = [
+  { key: 'trendAlignment', label: '趋势一致', hint: '是否顺应大周期趋势' },
+  { key: 'location', label: '入场位置', hint: '是否在关键结构位 / 支撑阻力附近' },
+  { key: 'riskReward', label: '盈亏比', hint: '止损止盈是否合理、盈亏比是否划算' },
+  { key: 'volume', label: '成交量', hint: '量能是否配合' },
+  { key: 'reasoning', label: '逻辑质量', hint: '入场理由是否清晰、可验证' }
+];
+
+// JSON Schema sent to providers that support structured output; the comment comes first so it streams first
+export const TRADE_EVALUATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    comment: { type: 'string', description: '完整的 Markdown 点评' },
+    scores: {
+      type: 'object',
+      properties: Object.fromEntries(SCORE_CRITERIA.map(c => [c.key, { type: 'number', minimum: 0, maximum: 10, description: c.hint }])),
+      required: SCORE_CRITERIA.map(c => c.key)
+    },
+    overall: { type: 'number', minimum: 0, maximum: 10, description: '综合评分' },
+    verdict: { type: 'string', description: '一句话结论' }
+  },
+  required: ['comment', 'scores', 'overall', 'verdict']
+};
+
+// Prompt wording of the schema, for models without native structured output
+export const TRADE_EVALUATION_FORMAT = `请只返回一个 JSON 对象，不要代码块：
+{"comment": "完整的 Markdown 点评", "scores": {${SCORE_CRITERIA.map(c => `"${c.key}": 0-10 (${c.label})`).join(', ')}}, "overall": 0-10 综合评分, "verdict": "一句话结论"}`;
+
+const clampScore = (v: unknown): number | null =>
+  typeof v === 'number' && isFinite(v) ? Math.round(Math.min(10, Math.max(0, v)) * 10) / 10 : null;
+
+export const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// First {...} in a model answer (tolerates code fences / chatter around it)
+export const parseJsonObject = (raw: string): Record<string, unknown> | null => {
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+  try {
+    const json: unknown = JSON.parse(raw.slice(start, end + 1));
+    return isRecord(json) ? json : null;
+  } catch {
+    return null;
+  }
+};
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '"': '"', '\\': '\\', '/': '/' };
+
+/**
+ * Reads the "comment" string out of a JSON answer that may still be arriving.
+ * Stops before an incomplete escape, so the result only ever grows as more text comes in.
+ */
+export const extractStreamingComment = (partial: string): string => {
+  const match = partial.match(/"comment"\s*:\s*"/);
+  if (!match) return '';
+  let out = '';
+  for (let i = match.index! + match[0].length; i < partial.length; i++) {
+    const ch = partial[i];
+    if (ch === '"') break;
+    if (ch !== '\\') { out += ch; continue; }
+    const next = partial[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = partial.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      out += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      out += JSON_ESCAPES[next] ?? next;
+      i += 1;
+    }
+  }
+  return out;
+};
+
+/**
+ * Wraps onToken so a streamed JSON answer shows up as its comment text.
+ * Answers that don't start with "{" are passed through unchanged.
+ */
+export const streamCommentTokens = (onToken: (delta: string) => void) => {
+  let raw = '';
+  let sent = 0;
+  return (delta: string) => {
+    raw += delta;
+    const head = raw.trimStart();
+    if (!head) return;
+    if (!head.startsWith('{')) return onToken(delta);
+    const comment = extractStreamingComment(raw);
+    if (comment.length > sent) {
+      onToken(comment.slice(sent));
+      sent = comment.length;
+    }
+  };
+};
+
+/**
+ * Turns the model's answer into comment + score. A valid rubric needs all five criteria;
+ * overall defaults to their mean.
+ */
+export const parseTradeEvaluation = (raw: string): AIResponse => {
+  const json = parseJsonObject(raw);
+  if (!json || typeof json.comment !== 'string') {
+    // Truncated JSON still carries a readable comment; anything else is free-form Markdown
+    return { comment: raw.trim().startsWith('{') ? extractStreamingComment(raw) : raw };
+  }
+
+  const scores = isRecord(json.scores) ? json.scores : {};
+  const criteria = {} as Record<ScoreCriterion, number>;
+  const valid = SCORE_CRITERIA.every(({ key }) => {
+    const v = clampScore(scores[key]);
+    if (v !== null) criteria[key] = v;
+    return v !== null;
+  });
+  if (!valid) return { comment: json.comment };
+
+  const mean = SCORE_CRITERIA.reduce((acc, c) => acc + criteria[c.key], 0) / SCORE_CRITERIA.length;
+  return {
+    comment: json.comment,
+    score: {
+      overall: clampScore(json.overall) ?? Math.round(mean * 10) / 10,
+      criteria,
+      verdict: typeof json.verdict === 'string' && json.verdict.trim() ? json.verdict.trim() : undefined
+    }
+  };
+};
+
+export interface ScoreSummary {
+  count: number; // Scored trades
+  overall: number;
+  criteria: Record<ScoreCriterion, number>;
+}
+
+export const summarizeScores = (trades: Trade[]): ScoreSummary | null => {
+  const scores = trades.map(t => t.aiScore).filter((s): s is TradeScore => !!s);
+  if (scores.length === 0) return null;
+  const avg = (pick: (s: TradeScore) => number) => scores.reduce((acc, s) => acc + pick(s), 0) / scores.length;
+  return {
+    count: scores.length,
+    overall: avg(s => s.overall),
+    criteria: Object.fromEntries(SCORE_CRITERIA.map(c => [c.key, avg(s => s.criteria[c.key])])) as Record<ScoreCriterion, number>
+  };
+};
+
+export const scoreColor = (score: number): string =>
+  score >= 7 ? 'text-trade-profit' : score >= 4 ? 'text-yellow-600 dark:text-yellow-500' : 'text-trade-loss';
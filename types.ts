@@ -8,7 +8,15 @@ export interface KLineData {
   turnover?: number;
 }
 
+// A K-line stored in the local IndexedDB cache
+export interface CachedCandle extends KLineData {
+  symbol: string;
+  interval: Timeframe;
+  cachedAt: number; // Real world time when the candle was written (used for eviction)
+}
+
 export enum Timeframe {
+  M1 = '1m', // Sub-candles for intrabar fill resolution
   M5 = '5m',
   M15 = '15m',
   M30 = '30m',
@@ -17,22 +25,176 @@ export enum Timeframe {
   D1 = '1d'
 }
 
+// Registered market data providers (see services/marketDataProvider.ts)
+export type MarketDataSource = 'binance' | 'local' | 'synthetic' | 'dataset';
+
+// A user-imported OHLCV dataset (CSV/JSON) stored in IndexedDB
+export interface ImportedDataset {
+  id?: number; // IndexedDB auto-increment
+  name: string;
+  symbol: string; // Symbol used to pick the dataset when starting a game
+  interval: Timeframe;
+  sourceFileName: string;
+  createdAt: number;
+  candleCount: number;
+  firstTimestamp: number;
+  lastTimestamp: number;
+  gapCount: number;
+}
+
+export interface DatasetCandle extends KLineData {
+  datasetId: number;
+}
+
+export type SizingMode = 'RISK_PERCENT' | 'FIXED_NOTIONAL' | 'FIXED_UNITS' | 'KELLY';
+
+// How the quantity of a trade was chosen (kept for risk-discipline review)
+export interface PositionSizing {
+  mode: SizingMode;
+  value: number; // Mode input: % of equity at risk / notional USD / units / Kelly multiplier
+  equityAtEntry: number;
+  riskAmount: number; // Loss if the SL is hit
+  riskPercent: number; // riskAmount as % of equityAtEntry
+  kellyFraction?: number; // Full-Kelly fraction (KELLY mode only)
+}
+
+export type MarginMode = 'ISOLATED' | 'CROSS';
+
+export interface TakeProfitLevel {
+  price: number;
+  percent: number; // Share of the original quantity closed at this level
+  filled?: boolean;
+}
+
+// Trailing distance: percent of price, or a multiple of ATR
+export interface TrailingStopConfig {
+  mode: 'PERCENT' | 'ATR';
+  value: number;
+}
+
+// How a candle that touches both the stop and a target is resolved:
+// worst case, best case, the nearer extreme first (O→H→L→C or O→L→H→C), or the real 1m sub-candles
+export type IntrabarPolicy = 'PESSIMISTIC' | 'OPTIMISTIC' | 'OHLC_PATH' | 'SUB_CANDLES';
+
+// Why a trade was closed (finer than status: a manual close may be a reverse or the end of the game)
+export type ExitReason = 'TAKE_PROFIT' | 'STOP_LOSS' | 'BREAKEVEN_STOP' | 'TRAILING_STOP' | 'LIQUIDATION' | 'MANUAL' | 'REVERSE' | 'GAME_END';
+
+// One (partial) exit of a trade
+export interface ExecutionLeg {
+  time: number;
+  price: number; // Fill price incl. slippage
+  quantity: number;
+  reason: 'TP' | 'SL' | 'MANUAL' | 'LIQUIDATION';
+  tpIndex?: number; // Which TP level filled (reason TP)
+  resolution?: IntrabarPolicy; // Method that ordered the fill inside its candle (SUB_CANDLES falls back to OHLC_PATH)
+  note?: string; // Trader's reason for a manual exit
+  grossPnl: number;
+  fee: number;
+  funding: number;
+  slippage: number;
+}
+
+// A manual change of the stop or a target while the position was open
+export interface TradeModification {
+  time: number; // Candle timestamp when the change was made
+  field: 'TP' | 'SL';
+  tpIndex?: number; // Which TP level (field TP)
+  from: number;
+  to: number;
+  source: 'CHART' | 'PANEL';
+}
+
+export type EntryOrderType = 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT';
+
+// Everything the user filled in on the TradePanel order form
+export interface TradeTicket {
+  reason: string;
+  tp: number;
+  sl: number;
+  sizingMode: SizingMode;
+  sizingValue: number;
+  leverage: number;
+  marginMode: MarginMode;
+  orderType: EntryOrderType;
+  takeProfits?: TakeProfitLevel[]; // Scaled exits; absent = all at `tp`
+  breakevenAfterTp1?: boolean;
+  trailingStop?: TrailingStopConfig;
+  limitPrice?: number; // LIMIT / STOP_LIMIT
+  stopPrice?: number; // STOP / STOP_LIMIT trigger
+  expiryBars?: number; // Pending orders only; undefined = good till cancelled
+}
+
+// A resting entry order; becomes a Trade when filled during replay
+export interface PendingOrder {
+  id: string;
+  gameId: number;
+  symbol: string;
+  direction: 'LONG' | 'SHORT';
+  ticket: TradeTicket;
+  createdAt: number; // Candle timestamp when the order was placed
+  expiresAt?: number; // Candle timestamp after which the order expires
+  triggered?: boolean; // STOP_LIMIT whose stop fired: now resting as a limit order
+  status: 'PENDING' | 'FILLED' | 'CANCELLED' | 'EXPIRED' | 'REJECTED';
+  tradeId?: string; // Trade created by the fill
+  preAnalysis?: string; // AI comment requested before placing the order
+  preAnalysisScore?: TradeScore;
+  preAnalysisContext?: CoachMessage; // Review request behind preAnalysis, seeds the trade's chat on fill
+}
+
+// Exchange cost assumptions applied to every fill (percent values, e.g. 0.05 = 0.05%)
+export interface TradeCostModel {
+  makerFeePercent: number; // TP (limit) exits
+  takerFeePercent: number; // Market entries, stop fills and manual closes
+  fundingRatePercent: number; // Per funding interval, > 0 means longs pay shorts
+  fundingIntervalHours: number;
+  slippagePercent: number; // Adverse slippage on market entries and stop/manual fills
+}
+
 export interface Trade {
   id: string;
   gameId: number;
   symbol: string;
   direction: 'LONG' | 'SHORT';
   entryPrice: number;
-  exitPrice?: number;
-  tp: number;
-  sl: number;
-  quantity: number;
+  exitPrice?: number; // Quantity-weighted over the exit legs
+  tp: number; // Final target
+  sl: number; // Current stop (moved by breakeven / trailing)
+  quantity: number; // Original size
   entryTime: number;
   exitTime?: number;
-  status: 'OPEN' | 'CLOSED_TP' | 'CLOSED_SL' | 'CLOSED_MANUAL';
+  status: 'OPEN' | 'CLOSED_TP' | 'CLOSED_SL' | 'CLOSED_MANUAL' | 'CLOSED_LIQUIDATED';
   pnl: number;
   reason: string;
   aiComment?: string;
+  aiScore?: TradeScore; // Rubric that came with aiComment (absent for free-form / older comments)
+  aiError?: string; // Why the entry review failed; cleared once a retry succeeds
+  postReview?: PostTradeReview; // AI review after the close, knowing the outcome
+  sizing?: PositionSizing;
+  entryOrderType?: EntryOrderType; // How the entry was filled (absent = market)
+  // Margin (absent on legacy trades: treated as fully-funded 1x, never liquidated)
+  leverage?: number;
+  marginMode?: MarginMode;
+  margin?: number; // Initial margin locked by the position
+  maintenanceMarginPercent?: number;
+  liquidationPrice?: number; // Isolated: fixed; cross: value at entry (moves with the account)
+  // Exit management
+  takeProfits?: TakeProfitLevel[];
+  breakevenAfterTp1?: boolean;
+  trailingStop?: TrailingStopConfig;
+  trailAnchor?: number; // Best price seen since entry (trailing stop reference)
+  stopSource?: 'BREAKEVEN' | 'TRAILING'; // What last moved `sl` (absent = the initial or a manual stop)
+  remainingQuantity?: number; // Still open after partial exits (absent = quantity)
+  legs?: ExecutionLeg[];
+  modifications?: TradeModification[]; // Manual TP/SL changes, oldest first
+  exitReason?: ExitReason;
+  exitResolution?: IntrabarPolicy; // Intrabar method used for the final exit (TP/SL only)
+  // Costs (pnl is net of all of them; slippage is already inside the fill prices).
+  // While partially closed, pnl holds the realized legs; the entry fee is taken on the final leg.
+  grossPnl?: number; // Price PnL before fees and funding
+  entryFee?: number;
+  exitFee?: number;
+  fundingFee?: number; // > 0 paid, < 0 received
+  slippage?: number; // Cost of the adverse fills vs. the reference prices
 }
 
 export interface GameSession {
@@ -41,15 +203,202 @@ export interface GameSession {
   endTime?: number; // Real world time when game finished
   symbol: string;
   timeframe: Timeframe;
+  dataSource?: MarketDataSource; // Market data provider used for this game (defaults to 'binance')
   marketEndTime: number; // The timestamp of the last candle in the data set (Anchor for replay)
+  candleCount?: number; // Number of LTF candles loaded for the game incl. preload (defaults to 1000)
   initialBalance: number;
+  costModel?: TradeCostModel; // Fees/funding/slippage used for the game (absent = cost-free legacy game)
+  intrabarPolicy?: IntrabarPolicy; // Same-candle TP/SL resolution (absent = PESSIMISTIC)
   finalBalance?: number;
   status: 'ACTIVE' | 'COMPLETED';
   parentSessionId?: number; // If this game is a replay of another game
   aiReport?: string; // Stored AI summary
+  stats?: GameStats; // Metrics the final report was based on
+  persona?: CoachPersona; // Snapshot of the AI coach persona used for this game (absent = default coach)
+  aiUsage?: AIUsageTally;
+}
+
+// End-of-game metrics (see services/gameStats.ts)
+export interface DirectionStats {
+  count: number;
+  winRate: number; // 0-1
+  pnl: number;
+}
+
+export interface GameStats {
+  tradeCount: number; // Closed trades
+  winRate: number; // 0-1
+  totalPnl: number;
+  avgWin: number;
+  avgLoss: number; // <= 0
+  expectancy: number; // Average PnL per trade
+  profitFactor: number | null; // Gross profit / gross loss (null without losing trades)
+  avgR: number | null; // PnL in multiples of the initial risk (null when no trade has a stop)
+  maxDrawdown: number; // Largest peak-to-trough drop of the closed-trade equity curve
+  maxDrawdownPercent: number;
+  longestLosingStreak: number;
+  avgHoldMs: number;
+  avgWinHoldMs: number;
+  avgLossHoldMs: number;
+  long: DirectionStats;
+  short: DirectionStats;
+  htfTrendFollowRate: number | null; // Share of trades taken with the HTF trend (null when unknown)
+  htfTrendChecked: number; // Trades with enough HTF history to judge
+}
+
+// Recurring mistakes tracked across games (see services/coachingProfile.ts)
+export type WeaknessId =
+  | 'CHASING' | 'COUNTER_TREND' | 'POOR_LOCATION' | 'LOW_RR' | 'TIGHT_STOPS' | 'WIDENING_STOPS'
+  | 'EARLY_EXIT' | 'OVERSIZING' | 'IGNORING_VOLUME' | 'VAGUE_REASONING' | 'OVERTRADING';
+
+export interface WeaknessObservation {
+  id: WeaknessId;
+  severity: number; // 1 (minor) - 3 (severe)
+  evidence?: string;
+  source: 'AI' | 'RULE'; // Tagged from the report / derived from scores and stats
+}
+
+// Row of the `assessments` table: what one finished game revealed
+export interface GameAssessment {
+  gameId: number;
+  time: number; // Game start time, orders the trend
+  symbol: string;
+  weaknesses: WeaknessObservation[];
+  createdAt: number;
+}
+
+export interface WeaknessTrend {
+  id: WeaknessId;
+  count: number; // Games where it showed up
+  maxSeverity: number;
+  recent: boolean[]; // Presence in the latest games, oldest first
+  trend: 'WORSE' | 'BETTER' | 'STABLE';
+  lastEvidence?: string;
+}
+
+// Derived from all assessments; fed to the prompts
+export interface CoachingProfile {
+  assessedGames: number;
+  weaknesses: WeaknessTrend[]; // Most frequent first
+}
+
+// AI coach persona (see services/coachPersonas.ts); the prompt may use {{symbol}}, {{timeframe}}, {{rr}}, {{direction}}
+export interface CoachPersona {
+  id: string;
+  name: string;
+  description?: string;
+  prompt: string; // System instruction template
+  builtIn?: boolean; // Shipped with the app, read-only
+}
+
+// Keyboard shortcuts (see services/hotkeys.ts)
+export type HotkeyAction =
+  | 'PLAY_PAUSE' | 'NEXT_CANDLE' | 'JUMP_BARS'
+  | 'OPEN_LONG' | 'OPEN_SHORT' | 'CLOSE_PANEL' | 'CLOSE_POSITION'
+  | 'SPEED_UP' | 'SPEED_DOWN' | 'SHOW_HELP';
+
+export interface HotkeyConfig {
+  bindings: Record<HotkeyAction, string>; // Key combo per action, e.g. "Shift+ArrowRight" ('' = unbound)
+  jumpBars: number; // Bars skipped by JUMP_BARS
+}
+
+// AI model backends (see services/llmProvider.ts)
+export type LLMProviderKind = 'gemini' | 'openai' | 'ollama' | 'llamacpp' | 'mock';
+
+// Endpoint the AI coach talks to; empty baseUrl / model fall back to the provider defaults
+export interface LLMConfig {
+  provider: LLMProviderKind;
+  baseUrl: string;
+  model: string;
+  apiKey: string; // Gemini falls back to the build-time GEMINI_API_KEY
+  temperature: number;
+  inputPrice: number; // USD per 1M prompt tokens, for the cost estimate (0 = free / not tracked)
+  outputPrice: number; // USD per 1M completion tokens
+}
+
+// Offline rule-based coach (services/ruleCoach.ts): off, when the model fails, or instead of the model
+export type RuleCoachMode = 'OFF' | 'FALLBACK' | 'ALWAYS';
+
+// AI calls made during a game (see services/llmRequestManager.ts)
+export interface AIUsageTally {
+  requests: number; // Finished calls, failed ones included
+  failures: number;
+  retries: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // USD, from the prices in the LLM settings
+  estimated: boolean; // Some token counts were estimated from the text length
+}
+
+// Everything on the Settings panel plus the replay speed (see services/settingsStore.ts)
+export interface AppSettings {
+  schemaVersion: number;
+  symbol: string;
+  timeframe: Timeframe;
+  dataSource: MarketDataSource;
+  gameLength: number;
+  costModel: TradeCostModel;
+  intrabarPolicy: IntrabarPolicy;
+  hotkeys: HotkeyConfig;
+  personas: CoachPersona[]; // User-created personas (built-ins are not stored)
+  personaId: string; // Persona picked for new games
+  llm: LLMConfig;
+  postTradeReview: boolean; // Ask the AI for a review when a position closes
+  ruleCoach: RuleCoachMode;
+  theme: 'dark' | 'light';
+  autoPlaySpeed: number; // ms per candle
+}
+
+// Row of the `settings` table (one profile for now)
+export interface SettingsRecord extends AppSettings {
+  id: string;
+  updatedAt: number;
+}
+
+// Rubric criteria of the AI trade evaluation (see services/tradeScoring.ts)
+export type ScoreCriterion = 'trendAlignment' | 'location' | 'riskReward' | 'volume' | 'reasoning';
+
+export interface TradeScore {
+  overall: number; // 0-10
+  criteria: Record<ScoreCriterion, number>; // 0-10 each
+  verdict?: string; // One-line conclusion
 }
 
 export interface AIResponse {
-  comment: string;
-  score: number; // 1-10
+  comment: string; // Markdown
+  score?: TradeScore; // Absent when the model's answer had no valid rubric
+  context?: CoachMessage; // The review request as sent (prompt + screenshots), opens the follow-up chat
+  error?: string; // Set (with an empty comment) when the request failed
+}
+
+// Final report or follow-up answer from the coach
+export interface CoachReply {
+  text: string; // Markdown
+  error?: string; // Set (with empty text) when the request failed
+}
+
+// Second AI pass once a trade is closed (see services/tradeExcursion.ts for MFE/MAE)
+export interface PostTradeReview {
+  comment: string; // Markdown
+  mfe: number; // Max favourable excursion from entry to exit, price units
+  mae: number; // Max adverse excursion, price units
+  createdAt: number; // Real world time
+}
+
+// Follow-up conversation with the AI coach (see services/coachThreads.ts)
+export interface CoachMessage {
+  role: 'user' | 'assistant';
+  text: string; // Markdown
+  images?: { label: string; dataUrl: string }[]; // Chart screenshots sent with this turn
+  time: number; // Real world time
+  hidden?: boolean; // Context turn (the original review), sent to the model but not shown in the chat
+}
+
+// One thread per trade, plus an optional one per game about its final report
+export interface CoachThread {
+  id: string; // trade_<tradeId> / game_<gameId>
+  gameId: number;
+  tradeId?: string; // Absent for the game thread
+  messages: CoachMessage[]; // Oldest first
+  updatedAt: number;
 }